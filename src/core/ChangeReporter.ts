@@ -0,0 +1,156 @@
+import { ChangeReport, ChangeReportStatus, DOMChange, ExperimentReport } from '../types';
+
+export interface ChangeOutcome {
+  status: ChangeReportStatus;
+  elementCount?: number; // Replaces the count
+  addedElements?: number; // Adds to the count, for pending changes applied element by element
+  duration?: number;
+  error?: string;
+  waitingFor?: 'element' | 'dependencies'; // For pending outcomes
+}
+
+/**
+ * Keeps the per-experiment application report: which variant is shown, whether the URL
+ * matched, and the status of each change. Changes are tracked by object identity, so
+ * outcomes recorded by the manipulator (including pending changes landing later) update
+ * the entry created when the experiment was processed.
+ */
+export class ChangeReporter {
+  private experiments = new Map<
+    string,
+    { report: ExperimentReport; entries: Map<DOMChange, ChangeReport> }
+  >();
+  // Entries that have had an outcome; the first one is always news, even if it's 'pending'
+  private recorded = new WeakSet<ChangeReport>();
+
+  /**
+   * Start a fresh report for an experiment, with every change of the user's variant
+   * listed as pending, or skipped when the URL doesn't match the variant. `getSkipStatus`
+   * gives the status of changes left out for their own reasons (page filter, conditions).
+   */
+  startExperiment(
+    experimentName: string,
+    variant: number | null,
+    urlMatches: boolean,
+    changes: DOMChange[],
+    getSkipStatus: (change: DOMChange) => ChangeReportStatus | null = () => null
+  ): void {
+    const now = Date.now();
+    const entries = new Map<DOMChange, ChangeReport>();
+    for (const change of changes) {
+      const status = urlMatches ? getSkipStatus(change) || 'pending' : 'skipped-url';
+      entries.set(change, this.createEntry(change, status, now));
+    }
+
+    this.experiments.set(experimentName, {
+      report: { experimentName, variant, urlMatches, changes: [], updatedAt: now },
+      entries,
+    });
+  }
+
+  /**
+   * Record the outcome of applying a change. Returns a snapshot of the change's entry when
+   * its status, element count or error changed, i.e. when listeners should hear about it,
+   * and null otherwise.
+   */
+  record(
+    experimentName: string,
+    change: DOMChange,
+    outcome: ChangeOutcome,
+    variant: number | null = null
+  ): ChangeReport | null {
+    let experiment = this.experiments.get(experimentName);
+    if (!experiment) {
+      // Changes applied through the public API for an experiment not processed yet
+      this.startExperiment(experimentName, variant, true, []);
+      experiment = this.experiments.get(experimentName)!;
+    }
+
+    const now = Date.now();
+    let entry = experiment.entries.get(change);
+    if (!entry) {
+      entry = this.createEntry(change, outcome.status, now);
+      experiment.entries.set(change, entry);
+    }
+    const isFirstOutcome = !this.recorded.has(entry);
+    this.recorded.add(entry);
+
+    const elementCount = outcome.elementCount ?? entry.elementCount + (outcome.addedElements ?? 0);
+    const changed =
+      isFirstOutcome ||
+      entry.status !== outcome.status ||
+      entry.elementCount !== elementCount ||
+      (outcome.error !== undefined && outcome.error !== entry.lastError);
+
+    entry.status = outcome.status;
+    entry.elementCount = elementCount;
+    if (outcome.duration !== undefined) {
+      entry.duration = outcome.duration;
+    }
+    if (outcome.error !== undefined) {
+      entry.lastError = outcome.error;
+    }
+    entry.updatedAt = now;
+    experiment.report.updatedAt = now;
+
+    return changed ? { ...entry } : null;
+  }
+
+  /**
+   * Mark everything that was shown or waiting as reverted. Returns false for unknown experiments.
+   */
+  markReverted(experimentName: string): boolean {
+    const experiment = this.experiments.get(experimentName);
+    if (!experiment) {
+      return false;
+    }
+
+    const now = Date.now();
+    for (const entry of experiment.entries.values()) {
+      if (entry.status === 'applied' || entry.status === 'pending') {
+        entry.status = 'reverted';
+        entry.elementCount = 0;
+        entry.updatedAt = now;
+      }
+    }
+    experiment.report.updatedAt = now;
+    return true;
+  }
+
+  getExperimentNames(): string[] {
+    return Array.from(this.experiments.keys());
+  }
+
+  /**
+   * Snapshot of an experiment's report; later updates don't affect it
+   */
+  getExperimentReport(experimentName: string): ExperimentReport | null {
+    const experiment = this.experiments.get(experimentName);
+    if (!experiment) {
+      return null;
+    }
+    return {
+      ...experiment.report,
+      changes: Array.from(experiment.entries.values()).map(entry => ({ ...entry })),
+    };
+  }
+
+  clear(): void {
+    this.experiments.clear();
+  }
+
+  private createEntry(change: DOMChange, status: ChangeReportStatus, now: number): ChangeReport {
+    const entry: ChangeReport = {
+      type: change.type,
+      selector: change.type === 'create' ? change.targetSelector || '' : change.selector,
+      status,
+      elementCount: 0,
+      duration: 0,
+      updatedAt: now,
+    };
+    if (change.id) {
+      entry.id = change.id;
+    }
+    return entry;
+  }
+}
@@ -2,20 +2,53 @@
 import {
   PluginConfig,
   DOMChange,
-  EventCallback,
-  EventCallbackData,
+  DOMPluginEventListener,
+  DOMPluginEventName,
+  DOMPluginEvents,
+  URLChangeSource,
   DOMChangesData,
   DOMChangesConfig,
+  ChangeStatus,
+  SanitizeTarget,
+  ApplicationReport,
+  StyleRuleStates,
 } from '../types';
 import { DOMManipulatorLite } from './DOMManipulatorLite';
 import { VariantExtractor } from '../parsers/VariantExtractor';
 import { StyleSheetManager } from './StyleSheetManager';
 import { ExposureTracker } from './ExposureTracker';
+import { GoalTracker } from './GoalTracker';
+import { MutationHub } from './MutationHub';
 import { HTMLInjector } from './HTMLInjector';
-import { logDebug, logExperimentSummary, logPerformance, DEBUG } from '../utils/debug';
+import { ChangeReporter, ChangeOutcome } from './ChangeReporter';
+import { TargetedAntiFlicker, getHideSelector } from './TargetedAntiFlicker';
+import {
+  logDebug,
+  logExperimentSummary,
+  logPerformance,
+  logProductionWarn,
+  DEBUG,
+} from '../utils/debug';
 import { URLMatcher } from '../utils/URLMatcher';
+import { getMediaQueries, matchesConditions, watchMediaQuery } from '../utils/conditions';
+import { DEFAULT_VIEW_CRITERIA } from '../utils/viewCriteria';
+import { buildCssRule, buildStateRules } from '../utils/styleRules';
+import {
+  changeMatchesURL,
+  flattenChanges,
+  isDOMChangesConfig,
+  matchesURLScope,
+} from '../utils/urlScope';
+import { SelectorEngine } from '../utils/SelectorEngine';
+import { orderChangesByDependencies } from '../utils/changeDependencies';
+import { hasQueryTemplate, interpolateTemplate, TemplateNamespace } from '../utils/templates';
+import { isSafeTemplatedAttribute, sanitizeHTML } from '../utils/sanitizer';
+import { DEFAULT_TRUSTED_TYPES_POLICY } from '../utils/trustedTypes';
+import { applyCSPNonce, detectCSPNonce } from '../utils/cspNonce';
+import { watchURLChanges } from '../utils/urlChanges';
 import { DOMPersistenceManager } from '../utils/persistence';
 import { registerPlugin, unregisterPlugin } from '../utils/plugin-registry';
+import { getSSRToken, isRenderedChange, readSSRManifest, SSRManifest } from '../ssr/hydration';
 import { BUILD_VERSION } from '../generated/buildInfo';
 
 export class DOMChangesPluginLite {
@@ -25,19 +58,33 @@ export class DOMChangesPluginLite {
   protected domManipulator: DOMManipulatorLite;
   protected variantExtractor: VariantExtractor;
   protected exposureTracker: ExposureTracker;
+  protected goalTracker: GoalTracker;
   protected htmlInjector: HTMLInjector;
-  protected mutationObserver: MutationObserver | null = null;
+  protected changeReporter: ChangeReporter = new ChangeReporter();
+  protected mutationHub: MutationHub;
+  protected reapplyWatches: Map<string, Map<DOMChange, () => void>> = new Map();
   protected exposedExperiments: Set<string> = new Set();
-  protected eventListeners: Map<string, EventCallback[]> = new Map();
+  protected eventListeners: Map<DOMPluginEventName, Array<DOMPluginEventListener<any>>> = new Map();
   protected styleManagers: Map<string, StyleSheetManager> = new Map();
   protected initialized = false;
   protected persistenceManager: DOMPersistenceManager | null = null;
   protected antiFlickerTimeout: number | null = null;
   protected antiFlickerStyleId = 'absmartly-antiflicker';
+  // hideUntilReady: 'auto' hides the targets of the first applyChanges only
+  protected targetedAntiFlicker: TargetedAntiFlicker | null = null;
+  private targetsHidden = false;
   private readyPromise: Promise<void>;
-  private originalPushState: typeof history.pushState | null = null;
-  private originalReplaceState: typeof history.replaceState | null = null;
-  private popstateHandler: ((event: PopStateEvent) => void) | null = null;
+  private stopWatchingURL: (() => void) | null = null;
+  private previewState: { experimentName: string; variant: number; restoreLive: boolean } | null =
+    null;
+  // Experiment whose changes are being applied; its report_updated is sent once at the end
+  private reportingExperiment: string | null = null;
+  // Experiments whose DOM changes payloads were validated, so config_invalid is sent once
+  private validatedExperiments = new Set<string>();
+  // Media queries of conditional changes, with the experiments to re-evaluate when they flip
+  private mediaWatchers = new Map<string, { stop: () => void; experiments: Set<string> }>();
+  // Changes rendered by renderDOMChanges, read on the first applyChanges for the page's URL
+  private ssrManifest: { url: string; experiments: SSRManifest } | null | undefined;
 
   constructor(config: PluginConfig) {
     this.config = {
@@ -50,6 +97,14 @@ export class DOMChangesPluginLite {
       hideUntilReady: config.hideUntilReady ?? false,
       hideTimeout: config.hideTimeout ?? 3000,
       hideTransition: config.hideTransition ?? false,
+      sanitize: config.sanitize ?? 'off',
+      trustedTypesPolicyName: config.trustedTypesPolicyName ?? DEFAULT_TRUSTED_TYPES_POLICY,
+      cspNonce: config.cspNonce ?? detectCSPNonce() ?? '',
+      routerHook: config.routerHook ?? false,
+      navigationStrategy: config.navigationStrategy ?? 'diff',
+      viewThreshold: config.viewThreshold ?? DEFAULT_VIEW_CRITERIA.viewThreshold,
+      viewDuration: config.viewDuration ?? DEFAULT_VIEW_CRITERIA.viewDuration,
+      rootMargin: config.rootMargin ?? DEFAULT_VIEW_CRITERIA.rootMargin,
     };
 
     if (!this.config.context) {
@@ -65,18 +120,52 @@ export class DOMChangesPluginLite {
     this.registerWithContext(false);
     this.registerGlobally(false);
 
-    if (this.config.hideUntilReady) {
+    if (this.config.hideUntilReady === 'auto') {
+      // Targets are only known once the context is ready, so they're hidden in applyChanges
+      this.targetedAntiFlicker = new TargetedAntiFlicker(
+        this.antiFlickerStyleId,
+        this.config.hideTransition,
+        this.config.debug,
+        this.config.cspNonce
+      );
+    } else if (this.config.hideUntilReady) {
       this.hideContent();
     }
 
+    this.mutationHub = new MutationHub(this.config.debug);
     this.domManipulator = new DOMManipulatorLite(this.config.debug, this);
     this.variantExtractor = new VariantExtractor(
       this.config.context,
       this.config.variableName,
       this.config.debug
     );
-    this.exposureTracker = new ExposureTracker(this.config.context, this.config.debug);
-    this.htmlInjector = new HTMLInjector(this.config.debug);
+    this.exposureTracker = new ExposureTracker(
+      this.config.context,
+      this.config.debug,
+      (experimentName, variant, trigger) => {
+        this.exposedExperiments.add(experimentName);
+        this.emit('exposure_triggered', { experimentName, variant, trigger });
+      },
+      this.mutationHub,
+      {
+        viewThreshold: this.config.viewThreshold,
+        viewDuration: this.config.viewDuration,
+        rootMargin: this.config.rootMargin,
+      }
+    );
+    this.goalTracker = new GoalTracker(
+      this.config.context,
+      this.mutationHub,
+      this.config.debug,
+      (experimentName, goal) =>
+        this.emit('goal_tracked', { experimentName, goal: goal.goal, event: goal.event })
+    );
+    this.htmlInjector = new HTMLInjector(
+      this.config.debug,
+      (code, experimentName) => this.sanitize(code, 'injection', experimentName),
+      this.config.trustedTypesPolicyName,
+      this.config.cspNonce
+    );
     this.persistenceManager = new DOMPersistenceManager({
       debug: this.config.debug,
       onReapply: (change: DOMChange, experimentName: string) => {
@@ -87,6 +176,7 @@ export class DOMChangesPluginLite {
         });
         this.domManipulator.applyChange(change, experimentName);
       },
+      mutationHub: this.mutationHub,
     });
 
     // Auto-initialize when context is ready
@@ -125,12 +215,11 @@ export class DOMChangesPluginLite {
 
     try {
       if (this.config.spa) {
-        // SPA mode: observe body for React/Vue hydration recovery
+        // SPA mode: re-apply changes to replaced elements (see watchElement)
         // and listen for URL changes to re-apply changes on navigation
-        this.setupMutationObserver();
         this.setupURLChangeListener();
       } else {
-        logDebug('[DOMChangesPluginLite] SPA mode disabled - skipping body observer');
+        logDebug('[DOMChangesPluginLite] SPA mode disabled - skipping element re-apply');
       }
 
       if (this.config.autoApply) {
@@ -143,7 +232,7 @@ export class DOMChangesPluginLite {
       this.registerWithContext();
       this.registerGlobally();
 
-      this.emit('initialized');
+      this.emit('initialized', { version: DOMChangesPluginLite.VERSION });
 
       const duration = performance.now() - startTime;
       logPerformance('Plugin initialization', duration);
@@ -165,88 +254,78 @@ export class DOMChangesPluginLite {
     }
   }
 
-  private setupMutationObserver(): void {
-    const observer = new MutationObserver(mutations => {
-      // Re-apply ALL changes to elements that were replaced by React (hydration mismatch)
-      for (const mutation of mutations) {
-        if (mutation.type === 'childList') {
-          // Check if any added nodes match our applied change selectors
-          for (const node of mutation.addedNodes) {
-            if (node.nodeType === Node.ELEMENT_NODE) {
-              const element = node as Element;
-
-              // Check all experiments with applied changes (not just style changes)
-              const appliedChanges = this.persistenceManager?.getAppliedChanges() || new Map();
-              for (const [experimentName, changes] of appliedChanges) {
-                for (const change of changes) {
-                  try {
-                    // Check if this new element or any of its descendants match the selector
-                    const matchingElements = element.matches(change.selector)
-                      ? [element]
-                      : Array.from(element.querySelectorAll(change.selector));
-
-                    for (const matchingEl of matchingElements) {
-                      if (this.config.debug) {
-                        logDebug(
-                          '[SPA-REAPPLY] Re-applying change to newly added element (React hydration recovery)',
-                          {
-                            experimentName,
-                            selector: change.selector,
-                            element: matchingEl.tagName,
-                            changeType: change.type,
-                          }
-                        );
-                      }
-
-                      // Re-apply the change to the new element (ALL types: style, class, attribute, html, text, etc.)
-                      this.domManipulator.applyChange(change, experimentName);
-                    }
-                  } catch (e) {
-                    // Invalid selector, skip
-                  }
-                }
-              }
-            }
-          }
-        }
-      }
-    });
+  /**
+   * Re-apply a change when a framework replaces its elements (e.g. React hydration mismatch)
+   */
+  private watchForReplacement(experimentName: string, change: DOMChange): void {
+    let watches = this.reapplyWatches.get(experimentName);
+    if (!watches) {
+      watches = new Map();
+      this.reapplyWatches.set(experimentName, watches);
+    }
+    if (watches.has(change)) {
+      return;
+    }
 
-    // Wait for document.body to exist before observing
-    // This prevents "parameter 1 is not of type 'Node'" errors when SDK loads in <head>
-    const startObserving = () => {
-      observer.observe(document.body, {
-        childList: true,
-        subtree: true,
-      });
-      this.mutationObserver = observer;
-      logDebug('[DOMChangesPluginLite] MutationObserver started on document.body');
-    };
+    watches.set(
+      change,
+      this.mutationHub.watch({
+        selector: SelectorEngine.scope(change.selector, change.shadowHost),
+        selectorType: change.selectorType,
+        onAdded: elements => {
+          if (this.config.debug) {
+            logDebug('[SPA-REAPPLY] Re-applying change to newly added elements', {
+              experimentName,
+              selector: change.selector,
+              elements: elements.length,
+              changeType: change.type,
+            });
+          }
+          this.domManipulator.applyChange(change, experimentName);
+        },
+      })
+    );
+  }
 
-    if (document.body) {
-      startObserving();
-    } else {
-      // Use MutationObserver on documentElement to detect when body is added
-      const bodyObserver = new MutationObserver((_mutations, obs) => {
-        if (document.body) {
-          obs.disconnect();
-          startObserving();
-        }
-      });
-      bodyObserver.observe(document.documentElement, { childList: true });
-      logDebug('[DOMChangesPluginLite] Waiting for document.body...');
+  private unwatchReplacements(experimentName?: string): void {
+    const names = experimentName ? [experimentName] : Array.from(this.reapplyWatches.keys());
+    for (const name of names) {
+      for (const stop of this.reapplyWatches.get(name)?.values() || []) {
+        stop();
+      }
+      this.reapplyWatches.delete(name);
     }
   }
 
+  /**
+   * Shared observer for added elements and attribute changes
+   */
+  getMutationHub(): MutationHub {
+    return this.mutationHub;
+  }
+
   /**
    * Set up URL change listener for SPA mode
    * Re-evaluates URL filters when URL changes and applies/removes changes accordingly
    */
   private setupURLChangeListener(): void {
-    const handleURLChange = async () => {
+    let previousUrl = window.location.href;
+
+    const handleURLChange = async (source: URLChangeSource) => {
       const newURL = window.location.href;
+      const evaluatedURL = previousUrl;
       logDebug('[ABsmartly] URL changed, re-evaluating experiments:', newURL);
 
+      if (newURL !== previousUrl) {
+        this.emit('url_changed', { url: newURL, previousUrl, source });
+        previousUrl = newURL;
+      }
+
+      if (this.config.navigationStrategy === 'diff') {
+        await this.applyURLDifferences(evaluatedURL, newURL);
+        return;
+      }
+
       // Remove all current changes
       await this.removeAllChanges();
 
@@ -254,55 +333,164 @@ export class DOMChangesPluginLite {
       await this.applyInjectionsAndChanges();
     };
 
-    // Listen to popstate (back/forward navigation)
-    this.popstateHandler = handleURLChange;
-    window.addEventListener('popstate', this.popstateHandler);
+    this.stopWatchingURL = watchURLChanges(handleURLChange, this.config.routerHook);
+
+    if (this.config.debug) {
+      logDebug('[ABsmartly] URL change listener set up for SPA mode');
+    }
+  }
+
+  /**
+   * Revert and re-apply only what the new URL changes: experiments whose URL filters match
+   * differently or whose changes use `{{query.*}}` templates, and HTML injections when a
+   * different set applies. Other experiments keep their changes (and don't re-run their
+   * JavaScript).
+   */
+  private async applyURLDifferences(previousURL: string, url: string): Promise<void> {
+    try {
+      await this.config.context.ready();
+    } catch (error) {
+      logDebug('[ABsmartly] Failed to wait for context ready:', error);
+      return;
+    }
+
+    this.variantExtractor.clearCache();
+
+    const allInjectHTML = this.variantExtractor.extractAllInjectHTML();
+    const injectionsBefore = this.htmlInjector.collectInjections(allInjectHTML, previousURL);
+    const injectionsAfter = this.htmlInjector.collectInjections(allInjectHTML, url);
+    if (
+      JSON.stringify(Array.from(injectionsBefore)) !== JSON.stringify(Array.from(injectionsAfter))
+    ) {
+      this.htmlInjector.destroy();
+      await this.applyHTMLInjections(allInjectHTML, url);
+    }
+
+    const changed = this.variantExtractor
+      .getExperimentNames()
+      .filter(
+        experimentName =>
+          !this.variantExtractor.matchesURLsAlike(experimentName, previousURL, url) ||
+          (previousURL !== url && this.hasQueryTemplates(experimentName))
+      );
 
-    // Intercept pushState and replaceState
-    this.originalPushState = history.pushState;
-    this.originalReplaceState = history.replaceState;
+    if (this.config.debug) {
+      logDebug('[ABsmartly] Re-evaluating experiments whose URL match or query values changed', {
+        previousURL,
+        url,
+        experiments: changed,
+      });
+    }
 
-    // eslint-disable-next-line @typescript-eslint/no-this-alias
-    const self = this;
-    history.pushState = function (data: any, unused: string, url?: string | URL | null) {
-      if (self.originalPushState) {
-        self.originalPushState.call(history, data, unused, url);
+    for (const experimentName of changed) {
+      // A variant preview of the experiment ends, as it does when everything is reset
+      if (this.previewState?.experimentName === experimentName) {
+        this.previewState = null;
       }
-      handleURLChange();
-    } as typeof history.pushState;
+      this.removeChanges(experimentName);
+      await this.applyChanges(experimentName);
+    }
+  }
+
+  /**
+   * Whether the visitor's variant of an experiment has changes reading the query string
+   */
+  private hasQueryTemplates(experimentName: string): boolean {
+    const variant = this.config.context.peek(experimentName);
+    if (variant === undefined || variant === null) {
+      return false;
+    }
 
-    history.replaceState = function (data: any, unused: string, url?: string | URL | null) {
-      if (self.originalReplaceState) {
-        self.originalReplaceState.call(history, data, unused, url);
+    const variantData = this.variantExtractor.getAllVariantsData(experimentName).get(variant);
+    return (flattenChanges(variantData || null) || []).some(
+      change => !!change && hasQueryTemplate(JSON.stringify([change.value, change.element]))
+    );
+  }
+
+  /**
+   * Revert all changes applied for an experiment and restore the original DOM
+   */
+  removeChanges(experimentName: string): void {
+    this.revertExperiment(experimentName);
+    // Visible goals already reached can be tracked again once the experiment is re-applied
+    this.goalTracker.reset(experimentName);
+  }
+
+  /**
+   * Revert an experiment's changes, keeping track of the visible goals it already reached
+   */
+  private revertExperiment(experimentName: string): void {
+    // Stop persistence before touching the DOM so the restore isn't re-applied over
+    if (this.persistenceManager) {
+      this.persistenceManager.unwatchExperiment(experimentName);
+    }
+    this.unwatchReplacements(experimentName);
+    this.goalTracker.unbind(experimentName);
+
+    this.unwatchConditions(experimentName);
+    const restored = this.domManipulator.removeChanges(experimentName);
+    this.exposureTracker.unregisterExperiment(experimentName);
+
+    // The experiment's document stylesheet and any shadow-scoped ones
+    for (const [key, manager] of this.styleManagers) {
+      if (key === experimentName || key.startsWith(`${experimentName}::`)) {
+        manager.destroy();
+        this.styleManagers.delete(key);
       }
-      handleURLChange();
-    } as typeof history.replaceState;
+    }
+
+    this.exposedExperiments.delete(experimentName);
+    this.targetedAntiFlicker?.revealExperiment(experimentName);
 
     if (this.config.debug) {
-      logDebug('[ABsmartly] URL change listener set up for SPA mode');
+      logDebug(`[ABsmartly] Reverted changes for experiment '${experimentName}'`, {
+        experimentName,
+        restored,
+      });
+    }
+
+    this.emit('change_reverted', { experimentName, count: restored });
+
+    if (this.changeReporter.markReverted(experimentName)) {
+      this.emitReportUpdated(experimentName);
     }
   }
 
   /**
-   * Remove all currently applied changes
+   * Revert all currently applied changes and restore the original DOM
    * Used when URL changes in SPA mode
    */
-  private async removeAllChanges(): Promise<void> {
+  async removeAllChanges(): Promise<void> {
     // ExposureTracker will re-register on next applyChanges
     this.exposedExperiments.clear();
-
-    // StyleSheetManager doesn't have a remove method, stylesheets will be reused on next applyChanges
-    this.styleManagers.clear();
+    this.previewState = null;
 
     if (this.persistenceManager) {
       this.persistenceManager.clearAll();
     }
+    this.unwatchReplacements();
+    this.goalTracker.reset();
+
+    this.unwatchConditions();
+    this.domManipulator.removeAllChanges();
+    this.exposureTracker.unregisterAll();
+
+    for (const manager of this.styleManagers.values()) {
+      manager.destroy();
+    }
+    this.styleManagers.clear();
 
     this.htmlInjector.destroy();
     this.variantExtractor.clearCache();
+    this.targetedAntiFlicker?.revealAll();
+
+    for (const experimentName of this.changeReporter.getExperimentNames()) {
+      this.changeReporter.markReverted(experimentName);
+      this.emitReportUpdated(experimentName);
+    }
 
     if (this.config.debug) {
-      logDebug('[ABsmartly] All change tracking cleared for URL change');
+      logDebug('[ABsmartly] All changes reverted');
     }
   }
 
@@ -352,7 +540,10 @@ export class DOMChangesPluginLite {
     }
 
     const injectionsByLocation = this.htmlInjector.collectInjections(allInjectHTML, currentUrl);
-    this.htmlInjector.inject(injectionsByLocation);
+    const injected = this.htmlInjector.inject(injectionsByLocation);
+    if (injected.count > 0) {
+      this.emit('injection_applied', injected);
+    }
 
     if (this.config.debug) {
       logDebug('[ABsmartly] HTML injections complete', {
@@ -388,6 +579,12 @@ export class DOMChangesPluginLite {
     }
 
     this.variantExtractor.clearCache();
+    this.reportInvalidConfigs();
+
+    if (this.ssrManifest === undefined) {
+      const experiments = readSSRManifest();
+      this.ssrManifest = experiments ? { url: currentURL, experiments } : null;
+    }
 
     const allExperiments = this.getAllExperimentsData();
 
@@ -418,6 +615,13 @@ export class DOMChangesPluginLite {
         continue;
       }
 
+      if (this.previewState?.experimentName === expName) {
+        logDebug(`[APPLY-CHANGES] [${expName}] ⏭️  Skipping - variant preview is active`, {
+          previewVariant: this.previewState.variant,
+        });
+        continue;
+      }
+
       const currentVariant = this.config.context.peek(expName);
 
       if (currentVariant === undefined || currentVariant === null) {
@@ -445,6 +649,13 @@ export class DOMChangesPluginLite {
             currentURL,
           }
         );
+        this.changeReporter.startExperiment(
+          expName,
+          currentVariant,
+          false,
+          this.extractChangesFromData(variantData, globalDefaults) || []
+        );
+        this.emitReportUpdated(expName);
         continue;
       }
 
@@ -460,12 +671,30 @@ export class DOMChangesPluginLite {
       // Extract changes for user's variant and apply global defaults
       const changes = this.extractChangesFromData(variantData, globalDefaults);
 
+      // Changes scoped to other pages (per-change or page urlFilter) are left out on this URL,
+      // and so are changes whose conditions don't hold
+      const changesForURL = shouldApplyVisualChanges
+        ? (changes || []).filter(change => changeMatchesURL(change, currentURL))
+        : [];
+      const changesToApply = changesForURL.filter(change => this.matchesConditions(change));
+
       // Get all variant changes for cross-variant tracking (SRM prevention)
-      const allVariantChanges = this.extractAllVariantChanges(expName);
+      const unscopedVariantChanges = this.extractAllVariantChanges(expName);
+      const variantChangesForURL = unscopedVariantChanges.map(variantChanges =>
+        variantChanges.filter(change => changeMatchesURL(change, currentURL))
+      );
+
+      // Conditions decide exposure too, so any variant's media conditions flipping re-evaluates
+      this.watchConditions(expName, [...changesForURL, ...variantChangesForURL.flat()]);
+
+      // Only changes that apply here are tracked, so every variant watches the same elements
+      const allVariantChanges = variantChangesForURL.map(variantChanges =>
+        variantChanges.filter(change => this.matchesConditions(change))
+      );
 
       // Check if ANY variant has ANY changes (not just user's variant)
       // This is critical for SRM prevention - we must track if ANY variant has changes
-      const hasAnyChangesInAnyVariant = allVariantChanges.some(
+      const hasAnyChangesInAnyVariant = unscopedVariantChanges.some(
         variantChanges => variantChanges && variantChanges.length > 0
       );
 
@@ -477,7 +706,32 @@ export class DOMChangesPluginLite {
         continue;
       }
 
-      const stats = { total: changes?.length || 0, success: 0, pending: 0 };
+      const stats = { total: changesToApply.length, success: 0, pending: 0 };
+
+      this.changeReporter.startExperiment(
+        expName,
+        currentVariant,
+        shouldApplyVisualChanges && matchesURLScope(variantData, currentURL),
+        changes || [],
+        change => {
+          if (!changesForURL.includes(change)) return 'skipped-url';
+          return changesToApply.includes(change) ? null : 'skipped-condition';
+        }
+      );
+
+      const serverRendered = this.getServerRenderedChanges(
+        expName,
+        currentVariant,
+        changes || [],
+        currentURL
+      );
+
+      if (this.targetedAntiFlicker && !this.targetsHidden) {
+        this.hideTargets(
+          expName,
+          changesToApply.filter(change => !serverRendered.has(change))
+        );
+      }
 
       if (this.config.debug) {
         logDebug(
@@ -487,6 +741,8 @@ export class DOMChangesPluginLite {
             userVariant: currentVariant,
             urlMatches: shouldApplyVisualChanges,
             changeCount: changes?.length || 0,
+            changesForURL: changesForURL.length,
+            changesToApply: changesToApply.length,
             userVariantHasChanges: (changes?.length || 0) > 0,
             changes:
               changes?.map(c => ({
@@ -512,8 +768,24 @@ export class DOMChangesPluginLite {
       }
 
       // Apply visual changes only if URL matches for user's variant AND user has changes
-      if (shouldApplyVisualChanges && changes && changes.length > 0) {
-        for (const change of changes) {
+      if (changesForURL.length > 0) {
+        const statuses = new Map<string, ChangeStatus>();
+        this.reportingExperiment = expName;
+
+        // Changes whose conditions don't hold go through too: the manipulator skips them and
+        // their dependents fail like those of any change that wasn't applied
+        for (const change of this.orderChanges(changesForURL, expName)) {
+          // Already in the page from the server: only reported, exposure is tracked as usual
+          if (serverRendered.has(change)) {
+            if (change.id) {
+              statuses.set(change.id, 'applied');
+            }
+            this.recordChangeOutcome(expName, change, { status: 'applied' });
+            totalApplied++;
+            stats.success++;
+            continue;
+          }
+
           // Skip delete changes with viewport triggers - they must be applied AFTER exposure
           // Otherwise the element is removed before it can be observed
           if (change.type === 'delete' && change.trigger_on_view) {
@@ -526,15 +798,27 @@ export class DOMChangesPluginLite {
             continue;
           }
 
-          const success = this.domManipulator.applyChange(change, expName);
+          const success = this.domManipulator.applyChangeAfterDependencies(
+            change,
+            expName,
+            statuses
+          );
 
           if (success) {
             totalApplied++;
             stats.success++;
-          } else if (change.type !== 'create' && change.type !== 'styleRules') {
+          } else if (
+            change.type !== 'create' &&
+            change.type !== 'styleRules' &&
+            change.type !== 'cssVariables' &&
+            changesToApply.includes(change)
+          ) {
             // Track pending changes for stats
             try {
-              const elements = document.querySelectorAll(change.selector);
+              const elements = SelectorEngine.querySelectorAll(
+                SelectorEngine.scope(change.selector, change.shadowHost),
+                change.selectorType
+              );
               if (elements.length === 0 && (this.config.spa || change.waitForElement)) {
                 stats.pending++;
               }
@@ -545,11 +829,13 @@ export class DOMChangesPluginLite {
             }
           }
         }
+        this.reportingExperiment = null;
       } else if (changes && changes.length > 0) {
         logDebug(
           `[ABsmartly] Experiment '${expName}' variant ${currentVariant} doesn't match URL filter or has no changes, but setting up tracking for SRM prevention`
         );
       }
+      this.emitReportUpdated(expName);
 
       // For SRM prevention: Check trigger types ONLY from variants whose URL filters match
       // CRITICAL: Only variants matching the current URL should determine the trigger behavior
@@ -589,25 +875,11 @@ export class DOMChangesPluginLite {
           continue;
         }
 
-        // Check if this variant's URL filter matches the current URL
-        let variantMatchesURL = true; // Default to true for legacy format (no URL filter)
+        // Check if this variant's URL filters (variant, page or change level) match the current URL
+        const variantMatchesURL = matchesURLScope(variantData, currentURL);
 
-        if (variantData && typeof variantData === 'object' && !Array.isArray(variantData)) {
-          const config = variantData as { urlFilter?: unknown };
-          if ('urlFilter' in config && config.urlFilter) {
-            // This variant has a URL filter - check if it matches
-            const urlFilterConfig = config as {
-              urlFilter: { include?: string[]; exclude?: string[] };
-            };
-            variantMatchesURL = URLMatcher.matches(urlFilterConfig.urlFilter, currentURL);
-
-            if (this.config.debug) {
-              logDebug(
-                `[ABsmartly] Variant ${variantIndex} has URL filter, matches: ${variantMatchesURL}`
-              );
-            }
-          }
-          // If no urlFilter property, variantMatchesURL stays true (legacy behavior)
+        if (this.config.debug) {
+          logDebug(`[ABsmartly] Variant ${variantIndex} matches URL: ${variantMatchesURL}`);
         }
 
         // Only collect trigger types from variants whose URL filters match
@@ -689,7 +961,9 @@ export class DOMChangesPluginLite {
         this.exposureTracker.registerExperiment(
           expName,
           currentVariant || 0,
-          changes || [],
+          (changes || []).filter(
+            change => changeMatchesURL(change, currentURL) && this.matchesConditions(change)
+          ),
           allVariantChanges,
           hasAnyImmediateTriggerInAnyVariant,
           hasAnyViewportTriggerInAnyVariant
@@ -715,6 +989,8 @@ export class DOMChangesPluginLite {
       logExperimentSummary(expName, stats.total, stats.success, stats.pending);
     }
 
+    this.bindGoals(experimentName, currentURL);
+
     const duration = performance.now() - startTime;
     logPerformance('Apply changes', duration, {
       totalApplied,
@@ -738,8 +1014,15 @@ export class DOMChangesPluginLite {
       });
     }
 
-    // Show hidden content after changes are applied
-    if (this.config.hideUntilReady) {
+    // Show hidden content after changes are applied; targeted hiding keeps pending targets
+    if (this.targetedAntiFlicker) {
+      this.targetsHidden = true;
+      for (const name of this.changeReporter.getExperimentNames()) {
+        for (const selector of this.targetedAntiFlicker.getHiddenSelectors(name)) {
+          this.revealSettledTarget(name, selector);
+        }
+      }
+    } else if (this.config.hideUntilReady) {
       this.showContent();
     }
 
@@ -747,6 +1030,87 @@ export class DOMChangesPluginLite {
     this.emit('changes-applied', { count: totalApplied, experimentName });
   }
 
+  /**
+   * Bind the goals of the visitor's variant where its urlFilter matches the URL. Experiments
+   * with goals but no DOM changes in any variant are bound too.
+   */
+  private bindGoals(experimentName: string | undefined, url: string): void {
+    const names = experimentName ? [experimentName] : this.variantExtractor.getExperimentNames();
+    for (const name of names) {
+      if (this.previewState?.experimentName === name) {
+        continue;
+      }
+
+      const variant = this.config.context.peek(name);
+      if (variant === undefined || variant === null) {
+        continue;
+      }
+
+      const variantData = this.variantExtractor.getAllVariantsData(name).get(variant) || null;
+      if (
+        !isDOMChangesConfig(variantData) ||
+        !Array.isArray(variantData.goals) ||
+        variantData.goals.length === 0
+      ) {
+        continue;
+      }
+
+      if (this.shouldApplyVisualChanges(variantData, variantData.urlFilter, url)) {
+        this.goalTracker.bind(name, variantData.goals);
+      } else {
+        this.goalTracker.unbind(name);
+      }
+    }
+  }
+
+  /**
+   * Validate the DOM changes payload of each experiment the first time it is seen and emit
+   * config_invalid for every variant with problems. Invalid changes are otherwise dropped
+   * silently, leaving the experiment doing nothing.
+   */
+  private reportInvalidConfigs(): void {
+    for (const experimentName of this.variantExtractor.getExperimentNames()) {
+      if (this.validatedExperiments.has(experimentName)) {
+        continue;
+      }
+      this.validatedExperiments.add(experimentName);
+
+      for (const [variant, diagnostics] of this.variantExtractor.validateExperiment(
+        experimentName
+      )) {
+        logDebug(`[ABsmartly] Invalid DOM changes config in ${experimentName} variant ${variant}`, {
+          diagnostics,
+        });
+        this.emit('config_invalid', { experimentName, variant, diagnostics });
+      }
+    }
+  }
+
+  /**
+   * Sort a variant's changes by their declared dependencies, reporting unusable ids
+   */
+  private orderChanges(changes: DOMChange[], experimentName: string): DOMChange[] {
+    const { changes: ordered, errors } = orderChangesByDependencies(changes);
+
+    for (const error of errors) {
+      logProductionWarn(
+        `[ABsmartly] Invalid DOM change dependencies in "${experimentName}": ${error.message}`
+      );
+      this.recordChangeOutcome(experimentName, changes[error.index], {
+        status: 'failed',
+        error: error.message,
+      });
+      this.emit('error', {
+        type: 'validation_error',
+        experimentName,
+        reason: error.type,
+        error: error.message,
+      });
+    }
+
+    return ordered;
+  }
+
   private hasImmediateDomAnchor(change: DOMChange): boolean {
     try {
       if (change.waitForElement) {
@@ -754,10 +1118,20 @@ export class DOMChangesPluginLite {
       }
 
       if (change.type === 'create') {
-        return !!change.targetSelector && document.querySelector(change.targetSelector) !== null;
+        return (
+          !!change.targetSelector &&
+          SelectorEngine.querySelector(
+            SelectorEngine.scope(change.targetSelector, change.shadowHost)
+          ) !== null
+        );
       }
 
-      return document.querySelector(change.selector) !== null;
+      return (
+        SelectorEngine.querySelector(
+          SelectorEngine.scope(change.selector, change.shadowHost),
+          change.selectorType
+        ) !== null
+      );
     } catch (error) {
       if (this.config.debug) {
         logDebug('[ABsmartly] Failed to evaluate immediate DOM anchor:', {
@@ -836,25 +1210,11 @@ export class DOMChangesPluginLite {
 
       // Extract URL filter and global defaults if using wrapped format
       let urlFilter = null;
-      let globalDefaults = {};
 
-      if (
-        variantData &&
-        typeof variantData === 'object' &&
-        !Array.isArray(variantData) &&
-        'changes' in variantData
-      ) {
-        const config = variantData as DOMChangesConfig;
-        urlFilter = config.urlFilter;
-        globalDefaults = {
-          waitForElement: config.waitForElement,
-          persistStyle: config.persistStyle,
-          persistAttribute: config.persistAttribute,
-          persistScript: config.persistScript,
-          important: config.important,
-          observerRoot: config.observerRoot,
-        };
+      if (isDOMChangesConfig(variantData)) {
+        urlFilter = variantData.urlFilter;
       }
+      const globalDefaults = this.getGlobalDefaults(variantData);
 
       experiments.set(expName, { variantData, urlFilter, globalDefaults });
     }
@@ -863,7 +1223,55 @@ export class DOMChangesPluginLite {
   }
 
   /**
-   * Extract changes from DOMChangesData and apply global defaults
+   * Changes of the visitor's variant that renderDOMChanges applied on the server and that are
+   * still on the page. They stay applied when the plugin reverts changes, as the plugin never
+   * saw the original content.
+   */
+  private getServerRenderedChanges(
+    experimentName: string,
+    variant: number,
+    changes: DOMChange[],
+    url: string
+  ): Set<DOMChange> {
+    const entry =
+      this.ssrManifest?.url === url ? this.ssrManifest.experiments[experimentName] : undefined;
+    if (!entry || entry.variant !== variant) {
+      return new Set();
+    }
+
+    return new Set(
+      changes.filter(
+        (change, index) =>
+          entry.changes.includes(index) &&
+          isRenderedChange(change, getSSRToken(experimentName, index))
+      )
+    );
+  }
+
+  /**
+   * Extract global defaults if using wrapped format
+   */
+  private getGlobalDefaults(data: DOMChangesData | null | undefined): Partial<DOMChangesConfig> {
+    if (!isDOMChangesConfig(data)) {
+      return {};
+    }
+
+    const config = data;
+    return {
+      waitForElement: config.waitForElement,
+      persistStyle: config.persistStyle,
+      persistAttribute: config.persistAttribute,
+      persistScript: config.persistScript,
+      important: config.important,
+      observerRoot: config.observerRoot,
+      viewThreshold: config.viewThreshold,
+      viewDuration: config.viewDuration,
+      rootMargin: config.rootMargin,
+    };
+  }
+
+  /**
+   * Extract changes from DOMChangesData, including those of its pages, and apply global defaults
    */
   private extractChangesFromData(
     data: DOMChangesData | null,
@@ -873,14 +1281,7 @@ export class DOMChangesPluginLite {
       return null;
     }
 
-    let changes: DOMChange[] | null = null;
-
-    // Extract changes array
-    if (Array.isArray(data)) {
-      changes = data;
-    } else if (typeof data === 'object' && 'changes' in data) {
-      changes = (data as DOMChangesConfig).changes;
-    }
+    const changes = flattenChanges(data);
 
     if (!changes || changes.length === 0) {
       return null;
@@ -895,6 +1296,9 @@ export class DOMChangesPluginLite {
       persistScript: change.persistScript ?? globalDefaults.persistScript,
       important: change.important ?? globalDefaults.important,
       observerRoot: change.observerRoot ?? globalDefaults.observerRoot,
+      viewThreshold: change.viewThreshold ?? globalDefaults.viewThreshold,
+      viewDuration: change.viewDuration ?? globalDefaults.viewDuration,
+      rootMargin: change.rootMargin ?? globalDefaults.rootMargin,
     }));
   }
 
@@ -917,24 +1321,7 @@ export class DOMChangesPluginLite {
         continue;
       }
 
-      // Extract global defaults if using wrapped format
-      let globalDefaults: Partial<DOMChangesConfig> = {};
-      if (
-        variantData &&
-        typeof variantData === 'object' &&
-        !Array.isArray(variantData) &&
-        'changes' in variantData
-      ) {
-        const config = variantData as DOMChangesConfig;
-        globalDefaults = {
-          waitForElement: config.waitForElement,
-          persistStyle: config.persistStyle,
-          persistAttribute: config.persistAttribute,
-          persistScript: config.persistScript,
-          important: config.important,
-          observerRoot: config.observerRoot,
-        };
-      }
+      const globalDefaults = this.getGlobalDefaults(variantData);
 
       // Apply global defaults
       const processedChanges = variantChanges.map(change => ({
@@ -945,6 +1332,9 @@ export class DOMChangesPluginLite {
         persistScript: change.persistScript ?? globalDefaults.persistScript,
         important: change.important ?? globalDefaults.important,
         observerRoot: change.observerRoot ?? globalDefaults.observerRoot,
+        viewThreshold: change.viewThreshold ?? globalDefaults.viewThreshold,
+        viewDuration: change.viewDuration ?? globalDefaults.viewDuration,
+        rootMargin: change.rootMargin ?? globalDefaults.rootMargin,
       }));
 
       processedVariants.push(processedChanges);
@@ -992,22 +1382,8 @@ export class DOMChangesPluginLite {
     });
 
     try {
-      const success = this.domManipulator.applyChange(change, experimentName);
-
-      if (success) {
-        this.emit('change_applied', {
-          experimentName,
-          change,
-        });
-      } else {
-        this.emit('change_failed', {
-          experimentName,
-          change,
-          reason: 'selector_not_found_or_apply_failed',
-        });
-      }
-
-      return success;
+      // change_applied / change_pending / change_failed are emitted as the outcome is recorded
+      return this.domManipulator.applyChange(change, experimentName);
     } catch (error: any) {
       logDebug('[ABsmartly] Error applying change:', error);
       this.emit('error', {
@@ -1020,13 +1396,94 @@ export class DOMChangesPluginLite {
     }
   }
 
-  on(event: string, callback: EventCallback): void {
+  /**
+   * Render any variant's DOM changes on the live page for QA, regardless of assignment.
+   *
+   * Preview is purely visual: it does not call context.treatment(), does not register
+   * with the ExposureTracker and does not touch override cookies. The experiment's live
+   * changes are reverted while the preview is shown, and a previous preview is reverted
+   * before a new one is applied. A URL change in SPA mode ends the preview.
+   *
+   * Returns false when the experiment has no such variant.
+   */
+  async previewVariant(experimentName: string, variantIndex: number): Promise<boolean> {
+    if (this.previewState && this.previewState.experimentName !== experimentName) {
+      await this.clearPreview();
+    }
+
+    const variantsData = this.variantExtractor.getAllVariantsData(experimentName);
+    if (!variantsData.has(variantIndex)) {
+      logDebug(
+        `[ABsmartly] Cannot preview '${experimentName}' - variant ${variantIndex} not found`,
+        {
+          experimentName,
+          availableVariants: Array.from(variantsData.keys()),
+        }
+      );
+      return false;
+    }
+
+    const restoreLive = this.previewState
+      ? this.previewState.restoreLive
+      : this.config.autoApply || this.domManipulator.hasChanges(experimentName);
+
+    // Revert whatever is on the page for this experiment (live changes or a previous preview)
+    this.removeChanges(experimentName);
+    this.previewState = { experimentName, variant: variantIndex, restoreLive };
+
+    const variantData = variantsData.get(variantIndex) || null;
+    const changes =
+      this.extractChangesFromData(variantData, this.getGlobalDefaults(variantData)) || [];
+
+    let applied = 0;
+    const statuses = new Map<string, ChangeStatus>();
+    for (const change of this.orderChanges(changes, experimentName)) {
+      if (this.domManipulator.applyChangeAfterDependencies(change, experimentName, statuses)) {
+        applied++;
+      }
+    }
+
+    if (this.config.debug) {
+      logDebug(`[ABsmartly] Previewing variant ${variantIndex} of '${experimentName}'`, {
+        experimentName,
+        variant: variantIndex,
+        changeCount: changes.length,
+        applied,
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Revert the active variant preview and restore the experiment's live changes
+   */
+  async clearPreview(): Promise<void> {
+    if (!this.previewState) {
+      return;
+    }
+
+    const { experimentName, restoreLive } = this.previewState;
+    this.previewState = null;
+
+    this.removeChanges(experimentName);
+
+    if (this.config.debug) {
+      logDebug(`[ABsmartly] Cleared variant preview for '${experimentName}'`);
+    }
+
+    if (restoreLive) {
+      await this.applyChanges(experimentName);
+    }
+  }
+
+  on<E extends DOMPluginEventName>(event: E, callback: DOMPluginEventListener<E>): void {
     const listeners = this.eventListeners.get(event) || [];
     listeners.push(callback);
     this.eventListeners.set(event, listeners);
   }
 
-  off(event: string, callback?: EventCallback): void {
+  off<E extends DOMPluginEventName>(event: E, callback?: DOMPluginEventListener<E>): void {
     if (!callback) {
       this.eventListeners.delete(event);
     } else {
@@ -1038,7 +1495,7 @@ export class DOMChangesPluginLite {
     }
   }
 
-  protected emit(event: string, data?: EventCallbackData): void {
+  protected emit<E extends DOMPluginEventName>(event: E, data: DOMPluginEvents[E]): void {
     const listeners = this.eventListeners.get(event) || [];
     for (const callback of listeners) {
       try {
@@ -1049,47 +1506,255 @@ export class DOMChangesPluginLite {
     }
   }
 
-  getStyleManager(experimentName: string): StyleSheetManager {
+  /**
+   * Stylesheet for an experiment's styleRules. Rules scoped to a `shadowHost` get their own
+   * manager, adopted into the host's shadow roots instead of the document head.
+   */
+  getStyleManager(experimentName: string, shadowHost?: string): StyleSheetManager {
     const id = `absmartly-styles-${experimentName}`;
-    let manager = this.styleManagers.get(experimentName);
+    const key = shadowHost ? `${experimentName}::${shadowHost}` : experimentName;
+    let manager = this.styleManagers.get(key);
 
     if (!manager) {
-      manager = new StyleSheetManager(id, this.config.debug);
-      this.styleManagers.set(experimentName, manager);
+      manager = new StyleSheetManager(
+        id,
+        this.config.debug,
+        shadowHost ? 'shadow' : 'document',
+        this.config.cspNonce
+      );
+      this.styleManagers.set(key, manager);
     }
 
     return manager;
   }
 
   buildCssRule(selector: string, properties: Record<string, string>, important = true): string {
-    const declarations = Object.entries(properties)
-      .map(([prop, value]) => {
-        const cssProp = prop.replace(/([A-Z])/g, '-$1').toLowerCase();
-        const bang = important ? ' !important' : '';
-        return `  ${cssProp}: ${value}${bang};`;
-      })
-      .join('\n');
+    return buildCssRule(selector, properties, important);
+  }
 
-    return `${selector} {\n${declarations}\n}`;
+  buildStateRules(selector: string, states: StyleRuleStates, important = true): string {
+    return buildStateRules(selector, states, important);
   }
 
-  buildStateRules(selector: string, states: any, important = true): string {
-    const rules: string[] = [];
+  /**
+   * Resolve `{{attr.*}}`, `{{var:*}}`, `{{query.*}}` and `{{experiment.*}}` placeholders
+   * in a change value. Lookups use peek methods so resolving never triggers exposure.
+   */
+  resolveTemplate(template: string, experimentName: string, escapeHtml = false): string {
+    const context = this.config.context;
+
+    return interpolateTemplate(
+      template,
+      (namespace: TemplateNamespace, key: string) => {
+        switch (namespace) {
+          case 'attr':
+            return context.getAttributes()[key];
+          case 'var':
+            return context.peekVariableValue(key, '');
+          case 'query':
+            return new URLSearchParams(window.location.search).get(key);
+          case 'experiment':
+            if (key === 'name') {
+              return experimentName;
+            }
+            if (key === 'variant') {
+              return this.previewState?.experimentName === experimentName
+                ? this.previewState.variant
+                : context.peek(experimentName);
+            }
+            return undefined;
+        }
+      },
+      escapeHtml
+    );
+  }
 
-    if (states.normal) {
-      rules.push(this.buildCssRule(selector, states.normal, important));
+  /**
+   * Whether a change's conditions (media query, width, context attributes) hold right now
+   */
+  matchesConditions(change: DOMChange): boolean {
+    if (!change.conditions) {
+      return true;
     }
-    if (states.hover) {
-      rules.push(this.buildCssRule(`${selector}:hover`, states.hover, important));
+    return matchesConditions(change.conditions, this.config.context.getAttributes());
+  }
+
+  /**
+   * Watch the media queries of an experiment's conditional changes, so the experiment is
+   * reverted and re-applied when the viewport crosses one of their breakpoints
+   */
+  private watchConditions(experimentName: string, changes: DOMChange[]): void {
+    for (const change of changes) {
+      for (const query of getMediaQueries(change.conditions)) {
+        let watcher = this.mediaWatchers.get(query);
+        if (!watcher) {
+          const stop = watchMediaQuery(query, () => this.reevaluateConditions(query));
+          if (!stop) {
+            return; // No matchMedia support
+          }
+          watcher = { stop, experiments: new Set() };
+          this.mediaWatchers.set(query, watcher);
+        }
+        watcher.experiments.add(experimentName);
+      }
     }
-    if (states.active) {
-      rules.push(this.buildCssRule(`${selector}:active`, states.active, important));
+  }
+
+  /**
+   * Stop re-evaluating an experiment (or all of them) on media query changes
+   */
+  private unwatchConditions(experimentName?: string): void {
+    for (const [query, watcher] of this.mediaWatchers) {
+      if (experimentName) {
+        watcher.experiments.delete(experimentName);
+      }
+      if (!experimentName || watcher.experiments.size === 0) {
+        watcher.stop();
+        this.mediaWatchers.delete(query);
+      }
     }
-    if (states.focus) {
-      rules.push(this.buildCssRule(`${selector}:focus`, states.focus, important));
+  }
+
+  private async reevaluateConditions(query: string): Promise<void> {
+    const watcher = this.mediaWatchers.get(query);
+    if (!watcher) {
+      return;
+    }
+
+    for (const experimentName of Array.from(watcher.experiments)) {
+      // A variant preview shows its changes regardless of the live state
+      if (this.previewState?.experimentName === experimentName) {
+        continue;
+      }
+
+      logDebug(`[ABsmartly] Media query changed, re-evaluating '${experimentName}'`, { query });
+      this.revertExperiment(experimentName);
+      await this.applyChanges(experimentName);
+    }
+  }
+
+  /**
+   * Run HTML from variant config through the configured `sanitize` option and emit
+   * `change_sanitized` when anything was stripped. Returns the HTML to insert.
+   */
+  sanitize(
+    html: string,
+    target: SanitizeTarget,
+    experimentName?: string,
+    change?: DOMChange
+  ): string {
+    const option = this.config.sanitize;
+    if (option === 'off') {
+      return html;
+    }
+
+    let result: string;
+    let removed: string[];
+    if (option === 'strict') {
+      ({ html: result, removed } = sanitizeHTML(html, target, this.config.trustedTypesPolicyName));
+    } else {
+      try {
+        result = option(html, { target, experimentName });
+      } catch (error) {
+        // A broken custom sanitizer must not let unsanitized HTML through
+        logProductionWarn('[ABsmartly] Custom sanitize function threw, dropping HTML:', error);
+        result = '';
+      }
+      removed = result === html ? [] : ['custom sanitizer modified content'];
+    }
+
+    if (removed.length > 0) {
+      logDebug('[ABsmartly] Sanitized HTML', { experimentName, target, removed });
+      this.emit('change_sanitized', { experimentName, change, type: target, removed });
+    }
+    return result;
+  }
+
+  /**
+   * Check a templated attribute value before it is set, whatever the `sanitize` option: unsafe
+   * values are dropped and reported with `change_sanitized`. Returns whether to set it.
+   */
+  sanitizeTemplatedAttribute(
+    name: string,
+    value: string,
+    experimentName: string,
+    change: DOMChange
+  ): boolean {
+    if (isSafeTemplatedAttribute(name, value)) {
+      return true;
     }
 
-    return rules.join('\n\n');
+    const removed = [`${name}="${value}"`];
+    logProductionWarn(
+      `[ABsmartly] Refused templated attribute in "${experimentName}": ${name}="${value}"`
+    );
+    this.emit('change_sanitized', { experimentName, change, type: 'attribute', removed });
+    return false;
+  }
+
+  /**
+   * Report of what the plugin did on this page, per experiment: the variant shown, whether
+   * the URL matched and, for each change, its status, matched element count, apply duration
+   * and last error. Kept up to date as pending changes land or are reverted; listen to
+   * `report_updated` for changes.
+   */
+  getReport(): ApplicationReport {
+    const experiments: ApplicationReport['experiments'] = {};
+    for (const experimentName of this.changeReporter.getExperimentNames()) {
+      experiments[experimentName] = this.changeReporter.getExperimentReport(experimentName)!;
+    }
+    return { url: window.location.href, experiments };
+  }
+
+  /**
+   * Record the outcome of applying a change (called by the DOM manipulator)
+   */
+  recordChangeOutcome(experimentName: string, change: DOMChange, outcome: ChangeOutcome): void {
+    const variant = this.config.context.peek(experimentName);
+    const entry = this.changeReporter.record(
+      experimentName,
+      change,
+      outcome,
+      typeof variant === 'number' ? variant : null
+    );
+    if (!entry) {
+      return;
+    }
+
+    switch (entry.status) {
+      case 'applied':
+        this.emit('change_applied', { experimentName, change, elementCount: entry.elementCount });
+        break;
+      case 'pending':
+        this.emit('change_pending', {
+          experimentName,
+          change,
+          waitingFor: outcome.waitingFor || 'element',
+        });
+        break;
+      case 'failed':
+        this.emit('change_failed', {
+          experimentName,
+          change,
+          reason: entry.lastError || 'Change could not be applied',
+        });
+        break;
+    }
+
+    if (this.reportingExperiment !== experimentName) {
+      this.emitReportUpdated(experimentName);
+    }
+
+    if (this.targetedAntiFlicker && entry.status !== 'pending') {
+      this.revealSettledTarget(experimentName, entry.selector);
+    }
+  }
+
+  private emitReportUpdated(experimentName: string): void {
+    const report = this.changeReporter.getExperimentReport(experimentName);
+    if (report) {
+      this.emit('report_updated', { experimentName, report });
+    }
   }
 
   public refreshExperiments(): void {
@@ -1103,47 +1768,46 @@ export class DOMChangesPluginLite {
   }
 
   destroy(): void {
+    if (this.persistenceManager) {
+      this.persistenceManager.clearAll();
+    }
+    this.domManipulator.removeAllChanges();
     this.domManipulator.destroy();
     this.exposureTracker.destroy();
+    this.goalTracker.destroy();
     this.htmlInjector.destroy();
 
     for (const manager of this.styleManagers.values()) {
       manager.destroy();
     }
     this.styleManagers.clear();
-
-    if (this.mutationObserver) {
-      this.mutationObserver.disconnect();
-      this.mutationObserver = null;
-    }
+    this.changeReporter.clear();
+    this.validatedExperiments.clear();
+    this.unwatchConditions();
 
     if (this.persistenceManager) {
       this.persistenceManager.destroy();
       this.persistenceManager = null;
     }
 
+    this.unwatchReplacements();
+    this.mutationHub.destroy();
+
     // Clean up anti-flicker timeout and style
     if (this.antiFlickerTimeout !== null) {
       clearTimeout(this.antiFlickerTimeout);
       this.antiFlickerTimeout = null;
     }
+    this.targetedAntiFlicker?.destroy();
     const antiFlickerStyle = document.getElementById(this.antiFlickerStyleId);
     if (antiFlickerStyle) {
       antiFlickerStyle.remove();
     }
 
-    // Restore history methods
-    if (this.originalPushState) {
-      history.pushState = this.originalPushState;
-    }
-    if (this.originalReplaceState) {
-      history.replaceState = this.originalReplaceState;
-    }
-
-    // Remove popstate listener
-    if (this.popstateHandler) {
-      window.removeEventListener('popstate', this.popstateHandler);
-      this.popstateHandler = null;
+    // Restore history methods and remove navigation listeners
+    if (this.stopWatchingURL) {
+      this.stopWatchingURL();
+      this.stopWatchingURL = null;
     }
 
     this.eventListeners.clear();
@@ -1245,6 +1909,7 @@ export class DOMChangesPluginLite {
 
     const style = document.createElement('style');
     style.id = this.antiFlickerStyleId;
+    applyCSPNonce(style, this.config.cspNonce);
 
     const hasTransition = this.config.hideTransition !== false;
 
@@ -1284,6 +1949,65 @@ export class DOMChangesPluginLite {
     }
   }
 
+  /**
+   * Hide the elements targeted by an experiment's changes (hideUntilReady: 'auto'). The
+   * timeout starts with the first hidden target.
+   */
+  private hideTargets(experimentName: string, changes: DOMChange[]): void {
+    const selectors = new Set<string>();
+    for (const change of changes) {
+      const selector = getHideSelector(change);
+      if (selector) {
+        selectors.add(selector);
+      }
+    }
+    if (!this.targetedAntiFlicker || selectors.size === 0) {
+      return;
+    }
+
+    this.targetedAntiFlicker.hide(experimentName, Array.from(selectors));
+
+    if (this.antiFlickerTimeout === null) {
+      this.antiFlickerTimeout = window.setTimeout(() => {
+        this.antiFlickerTimeout = null;
+        if (this.config.debug) {
+          logDebug(
+            `[ABsmartly] Anti-flicker timeout reached (${this.config.hideTimeout}ms), revealing pending targets`
+          );
+        }
+        this.targetedAntiFlicker?.revealAll();
+      }, this.config.hideTimeout);
+    }
+  }
+
+  /**
+   * Reveal a hidden target once none of the experiment's changes to it are still pending
+   */
+  private revealSettledTarget(experimentName: string, selector: string): void {
+    if (
+      !this.targetedAntiFlicker ||
+      !this.targetedAntiFlicker.getHiddenSelectors(experimentName).includes(selector)
+    ) {
+      return;
+    }
+
+    const report = this.changeReporter.getExperimentReport(experimentName);
+    const pending = report?.changes.some(
+      change => change.selector === selector && change.status === 'pending'
+    );
+    if (!pending) {
+      this.targetedAntiFlicker.reveal(experimentName, selector);
+    }
+
+    if (
+      this.antiFlickerTimeout !== null &&
+      this.targetedAntiFlicker.getHiddenSelectors().length === 0
+    ) {
+      clearTimeout(this.antiFlickerTimeout);
+      this.antiFlickerTimeout = null;
+    }
+  }
+
   /**
    * Show hidden content after experiments are applied or timeout expires
    */
@@ -1350,6 +2074,9 @@ export class DOMChangesPluginLite {
     if (this.persistenceManager) {
       this.persistenceManager.watchElement(element, experimentName, change);
     }
+    if (this.config.spa) {
+      this.watchForReplacement(experimentName, change);
+    }
   }
 
   unwatchElement(element: Element, experimentName: string): void {
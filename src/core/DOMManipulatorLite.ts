@@ -1,25 +1,77 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { DOMChange } from '../types';
-import { logDebug, logChangeApplication, logProductionWarn } from '../utils/debug';
+import { ChangeReportStatus, ChangeStatus, DOMChange, ElementState } from '../types';
+import {
+  logDebug,
+  logChangeApplication,
+  logChangeRemoval,
+  logProductionWarn,
+} from '../utils/debug';
 import type { DOMChangesPluginLite } from './DOMChangesPluginLite';
 import { PendingChangeManager } from './PendingChangeManager';
+import type { ChangeOutcome } from './ChangeReporter';
+import { hasTemplate } from '../utils/templates';
+import { buildVariablesRule } from '../utils/styleRules';
+import { SelectorEngine } from '../utils/SelectorEngine';
+import { applyCSPNonce } from '../utils/cspNonce';
+import { createJavaScriptAPI } from '../utils/javascriptAPI';
+import { DEFAULT_TRUSTED_TYPES_POLICY, setTrustedHTML, trustedScript } from '../utils/trustedTypes';
+
+// What happened while trying to apply a change, for the application report
+interface ApplyAttempt {
+  elementCount: number;
+  error?: string;
+  skipped?: 'skipped-disabled' | 'skipped-condition';
+}
+
+// Cleanup registered by a javascript change, run when the change is reverted or re-applied
+interface JavaScriptCleanup {
+  change: DOMChange;
+  element: Element;
+  run: () => void;
+}
 
 export class DOMManipulatorLite {
   protected debug: boolean;
   protected plugin: DOMChangesPluginLite;
   protected pendingManager: PendingChangeManager;
   private appliedChanges: Map<string, Set<string>> = new Map();
+  // Original element state per experiment, in application order, so changes can be reverted
+  private elementStates: Map<string, ElementState[]> = new Map();
+  // Last prepared (resolved and sanitized) version of each change, keyed by the original
+  private preparedChanges: WeakMap<
+    DOMChange,
+    { value: DOMChange['value']; element: DOMChange['element']; prepared: DOMChange }
+  > = new WeakMap();
+  private originalChanges: WeakMap<DOMChange, DOMChange> = new WeakMap(); // prepared -> original
+  private cleanups: Map<string, JavaScriptCleanup[]> = new Map(); // experimentName -> cleanups
 
   constructor(debug = false, plugin: DOMChangesPluginLite) {
     this.debug = debug;
     this.plugin = plugin;
 
-    this.pendingManager = new PendingChangeManager((change, experimentName, element) => {
-      if (element) {
-        return this.applyChangeToSpecificElement(change, experimentName, element as HTMLElement);
-      }
-      return this.applyChange(change, experimentName);
-    }, debug);
+    this.pendingManager = new PendingChangeManager(
+      (change, experimentName, element) => {
+        if (element) {
+          const startTime = performance.now();
+          const applied = this.applyChangeToSpecificElement(
+            change,
+            experimentName,
+            element as HTMLElement
+          );
+          if (applied) {
+            this.reportOutcome(change, experimentName, {
+              status: 'applied',
+              addedElements: 1,
+              duration: performance.now() - startTime,
+            });
+          }
+          return applied;
+        }
+        return this.applyChange(change, experimentName);
+      },
+      debug,
+      plugin.getMutationHub()
+    );
   }
 
   /**
@@ -32,26 +84,45 @@ export class DOMManipulatorLite {
    *   2. When CSP blocks dynamic code evaluation the fallback injects a
    *      one-shot `<script>` element that calls an anonymous IIFE with the
    *      target element bound through a temporary `window` slot. This path
-   *      works on pages that allow inline scripts but not eval.
+   *      works on pages that allow inline scripts (or the plugin's `cspNonce`) but not eval.
+   *   Both paths pass the code through the plugin's Trusted Types policy, so they also
+   *   work on pages enforcing `require-trusted-types-for 'script'`.
    *   3. If both paths fail, the error is logged unconditionally at
    *      `console.error` and surfaced via a `CustomEvent('absmartly:js-error', ...)`
    *      on `document` so hosting code (browser extension preview, telemetry,
    *      etc.) can distinguish CSP failures from runtime errors.
    *
+   * The code also gets the `absmartly` helper and `onCleanup(fn)`; a function it returns is
+   * registered as a cleanup too.
+   *
    * Returns true when the code executed successfully through either path.
    */
   private executeUserJavaScript(
     code: string,
     element: HTMLElement,
     experimentName: string,
-    selector: string
+    selector: string,
+    onCleanup: (cleanup: unknown) => void
   ): boolean {
+    const absmartly = createJavaScriptAPI({
+      context: (this.plugin as any).config.context,
+      hub: this.plugin.getMutationHub(),
+      experimentName,
+      element,
+      onCleanup,
+    });
     const sourceTag = `absmartly-experiment-${experimentName || 'unknown'}.js`;
+    const policyName = this.getTrustedTypesPolicyName();
     const debugPrelude = `var _debug = (typeof _debug !== 'undefined' ? _debug : { debugLog: console.log.bind(console), debugWarn: console.warn.bind(console), debugError: console.error.bind(console) });\n`;
 
     try {
-      const fn = new Function('element', debugPrelude + code + `\n//# sourceURL=${sourceTag}`);
-      fn(element);
+      const fn = new Function(
+        trustedScript('element', policyName),
+        trustedScript('absmartly', policyName),
+        trustedScript('onCleanup', policyName),
+        trustedScript(debugPrelude + code + `\n//# sourceURL=${sourceTag}`, policyName)
+      );
+      onCleanup(fn(element, absmartly, onCleanup));
       return true;
     } catch (evalError) {
       const evalMessage = evalError instanceof Error ? evalError.message : String(evalError);
@@ -78,22 +149,26 @@ export class DOMManipulatorLite {
       try {
         const slotId = `__absmartly_js_target_${Date.now()}_${Math.floor(Math.random() * 1e9)}`;
         const sentinelId = `${slotId}_ran`;
-        (window as any)[slotId] = element;
+        (window as any)[slotId] = { element, absmartly, onCleanup };
         (window as any)[sentinelId] = false;
         const script = document.createElement('script');
-        script.textContent =
-          `(function(element){${debugPrelude}${code}\n})(window['${slotId}']);\n` +
-          `window['${sentinelId}'] = true;\n` +
-          `try { delete window['${slotId}']; } catch(_e) { window['${slotId}'] = undefined; }\n` +
-          `//# sourceURL=${sourceTag}`;
+        applyCSPNonce(script, (this.plugin as any).config?.cspNonce);
+        script.textContent = trustedScript(
+          `(function(slot){slot.onCleanup((function(element, absmartly, onCleanup){${debugPrelude}${code}\n})(slot.element, slot.absmartly, slot.onCleanup));})(window['${slotId}']);\n` +
+            `window['${sentinelId}'] = true;\n` +
+            `//# sourceURL=${sourceTag}`,
+          policyName
+        );
         const parent = document.head || document.documentElement;
         parent.appendChild(script);
         script.remove();
         const ran = (window as any)[sentinelId] === true;
-        try {
-          delete (window as any)[sentinelId];
-        } catch {
-          (window as any)[sentinelId] = undefined;
+        for (const id of [slotId, sentinelId]) {
+          try {
+            delete (window as any)[id];
+          } catch {
+            (window as any)[id] = undefined;
+          }
         }
         if (!ran) {
           this.reportJsExecutionFailure({
@@ -120,6 +195,73 @@ export class DOMManipulatorLite {
     }
   }
 
+  /**
+   * Run a javascript change on an element. Cleanups it registered on a previous run for the
+   * same element, or for elements that have since left the page, run first.
+   */
+  private runJavaScriptChange(
+    change: DOMChange,
+    element: Element,
+    experimentName: string
+  ): boolean {
+    this.runCleanups(
+      experimentName,
+      cleanup =>
+        cleanup.change === change && (cleanup.element === element || !cleanup.element.isConnected)
+    );
+
+    return this.executeUserJavaScript(
+      String(change.value),
+      element as HTMLElement,
+      experimentName,
+      change.selector,
+      cleanup => {
+        if (typeof cleanup !== 'function') return;
+        const cleanups = this.cleanups.get(experimentName) || [];
+        cleanups.push({ change, element, run: cleanup as () => void });
+        this.cleanups.set(experimentName, cleanups);
+      }
+    );
+  }
+
+  /**
+   * Run and forget an experiment's javascript cleanups (those matching `filter`), most
+   * recent first
+   */
+  private runCleanups(
+    experimentName: string,
+    filter: (cleanup: JavaScriptCleanup) => boolean = () => true
+  ): void {
+    const cleanups = this.cleanups.get(experimentName);
+    if (!cleanups) return;
+
+    const toRun = cleanups.filter(filter);
+    const remaining = cleanups.filter(cleanup => !toRun.includes(cleanup));
+    if (remaining.length > 0) {
+      this.cleanups.set(experimentName, remaining);
+    } else {
+      this.cleanups.delete(experimentName);
+    }
+
+    for (const cleanup of toRun.reverse()) {
+      try {
+        cleanup.run();
+      } catch (error) {
+        this.reportJsExecutionFailure({
+          experimentName,
+          selector: cleanup.change.selector,
+          reason: 'runtime',
+          error: `Cleanup failed: ${error instanceof Error ? error.message : String(error)}`,
+          stack: error instanceof Error ? error.stack : undefined,
+        });
+      }
+    }
+  }
+
+  private getTrustedTypesPolicyName(): string {
+    return (this.plugin as any).config?.trustedTypesPolicyName ?? DEFAULT_TRUSTED_TYPES_POLICY;
+  }
+
   /**
    * Report a JavaScript execution failure to listeners, without relying on this.debug.
    * Always logs at `console.error` and dispatches a `CustomEvent` on `document`.
@@ -149,13 +291,53 @@ export class DOMManipulatorLite {
     }
   }
 
+  /**
+   * Apply a change and record its outcome (status, element count, duration, error) in the
+   * plugin's application report
+   */
   applyChange(change: DOMChange, experimentName: string): boolean {
+    const startTime = performance.now();
+    const attempt: ApplyAttempt = { elementCount: 0 };
+    const success = this.tryApplyChange(change, experimentName, attempt);
+
+    let status: ChangeReportStatus;
+    if (!success) {
+      status = attempt.skipped || 'failed';
+    } else {
+      status = this.pendingManager.isPending(change, experimentName) ? 'pending' : 'applied';
+    }
+    this.reportOutcome(change, experimentName, {
+      status,
+      elementCount: attempt.elementCount,
+      duration: performance.now() - startTime,
+      error: attempt.error,
+    });
+
+    return success;
+  }
+
+  private tryApplyChange(
+    change: DOMChange,
+    experimentName: string,
+    attempt: ApplyAttempt
+  ): boolean {
     if (!change.enabled && change.enabled !== undefined) {
       logDebug(`Skipping disabled change for experiment: ${experimentName}`, {
         experimentName,
         selector: change.selector,
         changeType: change.type,
       });
+      attempt.skipped = 'skipped-disabled';
+      return false;
+    }
+
+    if (!this.plugin.matchesConditions(change)) {
+      logDebug(`Skipping change whose conditions don't hold for experiment: ${experimentName}`, {
+        experimentName,
+        selector: change.selector,
+        conditions: change.conditions,
+      });
+      attempt.skipped = 'skipped-condition';
       return false;
     }
 
@@ -181,8 +363,10 @@ export class DOMManipulatorLite {
     }
 
     try {
-      if (change.type === 'styleRules') {
-        return this.applyStyleRules(change, experimentName);
+      if (change.type === 'styleRules' || change.type === 'cssVariables') {
+        const applied = this.applyStyleRules(change, experimentName);
+        attempt.elementCount = this.countMatchingElements(change);
+        return applied;
       }
 
       // Handle create changes separately as they don't require a selector
@@ -190,15 +374,43 @@ export class DOMManipulatorLite {
         if (change.element && change.targetSelector) {
           const created = this.createElement(change, experimentName);
           if (created) {
+            attempt.elementCount = 1;
             this.trackAppliedChange(experimentName, change);
             logChangeApplication(experimentName, change.targetSelector, change.type, 1, true);
             return true;
           }
+
+          // Wait for the create target the same way other changes wait for their element
+          const shouldWaitForTarget = change.waitForElement || (this.plugin as any).config?.spa;
+          if (
+            shouldWaitForTarget &&
+            !SelectorEngine.querySelector(
+              SelectorEngine.scope(change.targetSelector, change.shadowHost)
+            )
+          ) {
+            if (this.debug) {
+              logDebug(
+                `[ABsmartly] Create target not found, adding to pending: ${change.targetSelector}`
+              );
+            }
+            this.pendingManager.addPending({
+              change,
+              experimentName,
+              observerRoot: change.observerRoot,
+            });
+            return true;
+          }
+          attempt.error = `Create target not found: ${change.targetSelector}`;
+        } else {
+          attempt.error = 'Create change requires element and targetSelector';
         }
         return false;
       }
 
-      const elements = document.querySelectorAll(change.selector);
+      const elements = SelectorEngine.querySelectorAll(
+        SelectorEngine.scope(change.selector, change.shadowHost),
+        change.selectorType
+      );
       const appliedElements: Element[] = [];
 
       if (elements.length === 0) {
@@ -225,9 +437,12 @@ export class DOMManipulatorLite {
           selector: change.selector,
           changeType: change.type,
         });
+        attempt.error = `No elements found for selector: ${change.selector}`;
         return false;
       }
 
+      const resolved = this.prepareChange(change, experimentName);
+
       for (const element of elements) {
         if (this.debug && change.type === 'style') {
           const oldStyles: Record<string, string> = {};
@@ -246,7 +461,8 @@ export class DOMManipulatorLite {
           });
         }
 
-        this.applyChangeToElement(element, change);
+        this.captureOriginalState(element, change, experimentName);
+        this.applyChangeToElement(element, resolved);
 
         if (this.debug && change.type === 'style') {
           const appliedStyles: Record<string, string> = {};
@@ -277,12 +493,7 @@ export class DOMManipulatorLite {
               });
             }
             const codeString = String(change.value);
-            const executed = this.executeUserJavaScript(
-              codeString,
-              element as HTMLElement,
-              experimentName,
-              change.selector
-            );
+            const executed = this.runJavaScriptChange(change, element, experimentName);
             if (executed) {
               appliedElements.push(element);
               if (this.debug) {
@@ -317,7 +528,9 @@ export class DOMManipulatorLite {
               : null);
 
           if (targetSelector) {
-            const target = document.querySelector(targetSelector);
+            const target = SelectorEngine.querySelector(
+              SelectorEngine.scope(targetSelector, change.shadowHost)
+            );
             if (target) {
               this.moveElement(element, target, position);
               appliedElements.push(element);
@@ -337,7 +550,7 @@ export class DOMManipulatorLite {
           (this.plugin as any).config?.spa; // SPA mode watches ALL types for hydration recovery
 
         if (shouldWatch) {
-          this.plugin.watchElement(element, experimentName, change);
+          this.plugin.watchElement(element, experimentName, resolved);
         } else if (this.debug) {
           logDebug(`[WATCH-SKIP] NOT watching element - no persist flag and SPA disabled`, {
             experimentName,
@@ -349,6 +562,7 @@ export class DOMManipulatorLite {
         }
       }
 
+      attempt.elementCount = appliedElements.length;
       if (appliedElements.length > 0) {
         this.trackAppliedChange(experimentName, change);
 
@@ -374,11 +588,13 @@ export class DOMManipulatorLite {
       }
 
       logChangeApplication(experimentName, change.selector, change.type, 0, false);
+      attempt.error = `Change could not be applied to any of the ${elements.length} matched elements`;
       return false;
     } catch (error) {
       if (this.debug) {
         logDebug('[ABsmartly] Error applying DOM change:', error, change);
       }
+      attempt.error = error instanceof Error ? error.message : String(error);
       logDebug(`Error applying DOM change`, {
         experimentName,
         selector: change.selector,
@@ -415,12 +631,18 @@ export class DOMManipulatorLite {
     }
   }
 
-  private createElement(change: DOMChange, _experimentName: string): Element | null {
+  private createElement(
+    change: DOMChange,
+    experimentName: string,
+    targetElement?: Element
+  ): Element | null {
     if (!change.element || !change.targetSelector) {
       return null;
     }
 
-    const target = document.querySelector(change.targetSelector);
+    const target =
+      targetElement ||
+      SelectorEngine.querySelector(SelectorEngine.scope(change.targetSelector, change.shadowHost));
     if (!target) {
       if (this.debug) {
         logDebug(`[ABsmartly] Create target not found: ${change.targetSelector}`);
@@ -429,7 +651,12 @@ export class DOMManipulatorLite {
     }
 
     const tempContainer = document.createElement('div');
-    tempContainer.innerHTML = change.element;
+    setTrustedHTML(
+      tempContainer,
+      this.prepareChange(change, experimentName).element!,
+      this.getTrustedTypesPolicyName(),
+      { experimentName, selector: change.targetSelector }
+    );
 
     // Move all children (not just the first one) to support multiple elements
     const children = Array.from(tempContainer.children);
@@ -439,21 +666,67 @@ export class DOMManipulatorLite {
 
     for (const child of children) {
       this.moveElement(child, target, change.position);
+      this.recordState(experimentName, {
+        selector: change.targetSelector,
+        type: 'create',
+        element: child,
+        originalState: {},
+      });
     }
 
     // Return the first element for compatibility
     return children[0] as Element;
   }
 
+  /**
+   * Apply a change that lives in the experiment's stylesheet: `styleRules` or `cssVariables`
+   */
   private applyStyleRules(change: DOMChange, experimentName: string): boolean {
     try {
-      const manager = this.plugin.getStyleManager(experimentName);
-      const ruleKey = `${change.selector}::states`;
+      const manager = this.plugin.getStyleManager(experimentName, change.shadowHost);
+      const ruleKey = this.getStyleRuleKey(change.type, change.selector);
+
+      if (change.shadowHost) {
+        // Rules only reach shadow content from a sheet inside the shadow root itself
+        const shadowRoots = SelectorEngine.getShadowRoots(change.shadowHost);
+        if (shadowRoots.length === 0) {
+          const shouldWaitForHost = change.waitForElement || (this.plugin as any).config?.spa;
+          if (shouldWaitForHost) {
+            this.pendingManager.addPending({
+              change,
+              experimentName,
+              observerRoot: change.observerRoot,
+            });
+            return true;
+          }
+          if (this.debug) {
+            logDebug(`[ABsmartly] No shadow root found for host: ${change.shadowHost}`);
+          }
+          return false;
+        }
+        for (const shadowRoot of shadowRoots) {
+          manager.adoptInto(shadowRoot);
+        }
+      }
 
       let css: string;
 
-      // Support both raw CSS string in value and structured states
-      if (typeof change.value === 'string' && change.value.trim()) {
+      if (change.type === 'cssVariables') {
+        if (!change.value || typeof change.value !== 'object') {
+          return false;
+        }
+        css = buildVariablesRule(
+          change.selector || ':root',
+          change.value as Record<string, string>,
+          change.important !== false
+        );
+
+        // Some routers swap the head on navigation, which would drop the theme
+        if (change.persistStyle || (this.plugin as any).config?.spa) {
+          manager.persist();
+        }
+      } else if (typeof change.value === 'string' && change.value.trim()) {
+        // Support both raw CSS string in value and structured states
         // Raw CSS provided in value
         css = change.value;
       } else if (change.states) {
@@ -470,6 +743,23 @@ export class DOMManipulatorLite {
 
       manager.setRule(ruleKey, css);
 
+      const states = this.elementStates.get(experimentName) || [];
+      if (
+        !states.some(
+          s =>
+            s.type === change.type &&
+            s.selector === change.selector &&
+            s.shadowHost === change.shadowHost
+        )
+      ) {
+        this.recordState(experimentName, {
+          selector: change.selector,
+          type: change.type,
+          shadowHost: change.shadowHost,
+          originalState: {},
+        });
+      }
+
       if (this.debug) {
         logDebug(`[ABsmartly] Applied style rule: ${ruleKey}`);
         logDebug(`[ABsmartly] CSS: ${css}`);
@@ -477,7 +767,7 @@ export class DOMManipulatorLite {
 
       this.trackAppliedChange(experimentName, change);
 
-      logChangeApplication(experimentName, change.selector, 'styleRules', 1, true);
+      logChangeApplication(experimentName, change.selector, change.type, 1, true);
 
       return true;
     } catch (error) {
@@ -488,6 +778,10 @@ export class DOMManipulatorLite {
     }
   }
 
+  private getStyleRuleKey(type: string, selector: string): string {
+    return type === 'cssVariables' ? `${selector || ':root'}::variables` : `${selector}::states`;
+  }
+
   applyChangeToElement(element: Element, change: DOMChange): void {
     switch (change.type) {
       case 'text':
@@ -497,7 +791,9 @@ export class DOMManipulatorLite {
         break;
       case 'html':
         if (change.value !== undefined) {
-          element.innerHTML = String(change.value);
+          setTrustedHTML(element, String(change.value), this.getTrustedTypesPolicyName(), {
+            selector: change.selector,
+          });
         }
         break;
       case 'style':
@@ -534,7 +830,9 @@ export class DOMManipulatorLite {
             targetSelector: string;
             position: string;
           };
-          const target = document.querySelector(moveValue.targetSelector);
+          const target = SelectorEngine.querySelector(
+            SelectorEngine.scope(moveValue.targetSelector, change.shadowHost)
+          );
           if (target) {
             this.moveElement(element, target, moveValue.position);
           } else if (this.debug) {
@@ -554,7 +852,25 @@ export class DOMManipulatorLite {
     element: HTMLElement
   ): boolean {
     try {
-      this.applyChangeToElement(element, change);
+      if (change.type === 'styleRules' || change.type === 'cssVariables') {
+        // For pending style rules, the element is the shadow host that just appeared.
+        // Until the host is upgraded and attaches its shadow root, keep waiting.
+        return element.shadowRoot ? this.applyStyleRules(change, experimentName) : false;
+      }
+
+      if (change.type === 'create') {
+        // For a pending create, the element is the target that just appeared
+        const created = this.createElement(change, experimentName, element);
+        if (!created) {
+          return false;
+        }
+        this.trackAppliedChange(experimentName, change);
+        return true;
+      }
+
+      const resolved = this.prepareChange(change, experimentName);
+      this.captureOriginalState(element, change, experimentName);
+      this.applyChangeToElement(element, resolved);
 
       if (change.type === 'javascript' && change.value) {
         if (this.debug) {
@@ -565,12 +881,7 @@ export class DOMManipulatorLite {
             code: String(change.value).substring(0, 100) + '...',
           });
         }
-        const executed = this.executeUserJavaScript(
-          String(change.value),
-          element,
-          experimentName,
-          change.selector
-        );
+        const executed = this.runJavaScriptChange(change, element, experimentName);
         if (!executed) {
           return false;
         }
@@ -594,7 +905,9 @@ export class DOMManipulatorLite {
             : null);
 
         if (targetSelector) {
-          const target = document.querySelector(targetSelector);
+          const target = SelectorEngine.querySelector(
+            SelectorEngine.scope(targetSelector, change.shadowHost)
+          );
           if (target) {
             this.moveElement(element, target, position);
           } else {
@@ -611,7 +924,7 @@ export class DOMManipulatorLite {
         (this.plugin as any).config?.spa; // SPA mode watches ALL types for hydration recovery
 
       if (shouldWatch) {
-        this.plugin.watchElement(element, experimentName, change);
+        this.plugin.watchElement(element, experimentName, resolved);
       }
 
       return true;
@@ -623,6 +936,31 @@ export class DOMManipulatorLite {
     }
   }
 
+  /**
+   * Report against the change from the variant config, not its prepared copy, which is
+   * what persistence re-applies
+   */
+  private reportOutcome(change: DOMChange, experimentName: string, outcome: ChangeOutcome): void {
+    this.plugin.recordChangeOutcome(
+      experimentName,
+      this.originalChanges.get(change) || change,
+      outcome
+    );
+  }
+
+  private countMatchingElements(change: DOMChange): number {
+    // cssVariables without a selector set the variables on :root
+    const selector = change.type === 'cssVariables' ? change.selector || ':root' : change.selector;
+    try {
+      return SelectorEngine.querySelectorAll(
+        SelectorEngine.scope(selector, change.shadowHost),
+        change.selectorType
+      ).length;
+    } catch {
+      return 0;
+    }
+  }
+
   private trackAppliedChange(experimentName: string, change: DOMChange): void {
     let changes = this.appliedChanges.get(experimentName);
     if (!changes) {
@@ -633,6 +971,350 @@ export class DOMManipulatorLite {
     changes.add(changeKey);
   }
 
+  /**
+   * Apply a change only after the changes it `dependsOn`. `statuses` holds the outcome of
+   * the variant's earlier changes by id and is updated with this change's outcome.
+   *
+   * A change whose dependencies are still pending is held by the PendingChangeManager and
+   * applied as soon as they land; a change whose dependencies failed is skipped.
+   */
+  applyChangeAfterDependencies(
+    change: DOMChange,
+    experimentName: string,
+    statuses: Map<string, ChangeStatus>
+  ): boolean {
+    const dependsOn = change.dependsOn || [];
+    const unmet = dependsOn.filter(id => {
+      const status = statuses.get(id);
+      return status !== 'applied' && status !== 'pending';
+    });
+
+    if (unmet.length > 0) {
+      logDebug(`Skipping change - dependencies were not applied`, {
+        experimentName,
+        selector: change.selector,
+        changeType: change.type,
+        unmet,
+      });
+      if (change.id) {
+        statuses.set(change.id, 'failed');
+      }
+      this.reportOutcome(change, experimentName, {
+        status: 'failed',
+        error: `Dependencies not applied: ${unmet.join(', ')}`,
+      });
+      return false;
+    }
+
+    const waitingFor = dependsOn.filter(id => statuses.get(id) === 'pending');
+    if (waitingFor.length > 0) {
+      this.pendingManager.addBlocked(
+        { change, experimentName, observerRoot: change.observerRoot },
+        waitingFor
+      );
+      if (change.id) {
+        statuses.set(change.id, 'pending');
+      }
+      this.reportOutcome(change, experimentName, { status: 'pending', waitingFor: 'dependencies' });
+      return true;
+    }
+
+    const success = this.applyChange(change, experimentName);
+    if (change.id) {
+      statuses.set(
+        change.id,
+        !success
+          ? 'failed'
+          : this.pendingManager.isPending(change, experimentName)
+            ? 'pending'
+            : 'applied'
+      );
+    }
+    return success;
+  }
+
+  /**
+   * Return the change as it should be applied: placeholders in its text, html, attribute or
+   * create values resolved for the current context and URL, unsafe templated attributes
+   * dropped, and html/create markup run through the configured sanitizer. Changes needing
+   * neither are returned as-is; otherwise the previous result is reused while the resolved
+   * values are unchanged, so persistence keeps watching a single change object and
+   * `change_sanitized` fires once per value.
+   */
+  private prepareChange(change: DOMChange, experimentName: string): DOMChange {
+    let value = change.value;
+    let element = change.element;
+    let templated = false;
+    const templatedAttributes: string[] = [];
+
+    if ((change.type === 'text' || change.type === 'html') && typeof value === 'string') {
+      if (hasTemplate(value)) {
+        value = this.plugin.resolveTemplate(value, experimentName, change.type === 'html');
+        templated = true;
+      }
+    } else if (change.type === 'attribute' && value && typeof value === 'object') {
+      const attributes: Record<string, string> = {};
+      for (const [attr, attrValue] of Object.entries(value)) {
+        if (typeof attrValue === 'string' && hasTemplate(attrValue)) {
+          attributes[attr] = this.plugin.resolveTemplate(attrValue, experimentName);
+          templatedAttributes.push(attr);
+          templated = true;
+        } else {
+          attributes[attr] = attrValue;
+        }
+      }
+      value = attributes;
+    } else if (change.type === 'create' && element && hasTemplate(element)) {
+      element = this.plugin.resolveTemplate(element, experimentName, true);
+      templated = true;
+    }
+
+    const sanitizing =
+      (this.plugin as any).config?.sanitize !== 'off' &&
+      ((change.type === 'html' && typeof value === 'string') ||
+        (change.type === 'create' && !!element));
+
+    if (!templated && !sanitizing) {
+      return change;
+    }
+
+    const previous = this.preparedChanges.get(change);
+    if (
+      previous &&
+      previous.element === element &&
+      JSON.stringify(previous.value) === JSON.stringify(value)
+    ) {
+      return previous.prepared;
+    }
+
+    const prepared = { ...change, value, element };
+    if (templatedAttributes.length > 0) {
+      // Placeholders may resolve to visitor input: never to a script URL or an event handler
+      const attributes = { ...(value as Record<string, string>) };
+      for (const attr of templatedAttributes) {
+        if (
+          !this.plugin.sanitizeTemplatedAttribute(attr, attributes[attr], experimentName, change)
+        ) {
+          delete attributes[attr];
+        }
+      }
+      prepared.value = attributes;
+    }
+    if (sanitizing) {
+      if (change.type === 'html') {
+        prepared.value = this.plugin.sanitize(value as string, 'html', experimentName, change);
+      } else {
+        prepared.element = this.plugin.sanitize(element!, 'create', experimentName, change);
+      }
+    }
+
+    this.preparedChanges.set(change, { value, element, prepared });
+    this.originalChanges.set(prepared, change);
+    return prepared;
+  }
+
+  /**
+   * Capture the state an element had before this change touched it. Re-applications
+   * (persistence, SPA hydration recovery) keep the first snapshot so that reverting
+   * always returns to the page's own content.
+   */
+  private captureOriginalState(element: Element, change: DOMChange, experimentName: string): void {
+    if (change.type === 'javascript') {
+      // Arbitrary side effects cannot be snapshotted
+      return;
+    }
+
+    const states = this.elementStates.get(experimentName) || [];
+    const existing = states.find(
+      s => s.element === element && s.type === change.type && s.selector === change.selector
+    );
+
+    if (change.type === 'attribute') {
+      const attributes: Record<string, string | null> = existing?.originalState.attributes || {};
+      if (change.value && typeof change.value === 'object') {
+        for (const attr of Object.keys(change.value)) {
+          if (!(attr in attributes)) {
+            attributes[attr] = element.getAttribute(attr);
+          }
+        }
+      }
+      if (!existing) {
+        this.recordState(experimentName, {
+          selector: change.selector,
+          type: change.type,
+          element,
+          originalState: { attributes },
+        });
+      }
+      return;
+    }
+
+    if (existing) {
+      return;
+    }
+
+    const originalState: ElementState['originalState'] = {};
+    switch (change.type) {
+      case 'text':
+      case 'html':
+        // innerHTML (not textContent) so child elements wiped by a text change come back too
+        originalState.html = element.innerHTML;
+        break;
+      case 'style':
+        originalState.style = element.getAttribute('style');
+        break;
+      case 'class':
+        originalState.classList = Array.from(element.classList);
+        break;
+      case 'move':
+      case 'delete':
+        originalState.parent = element.parentElement;
+        originalState.nextSibling = element.nextSibling;
+        break;
+      default:
+        return;
+    }
+
+    this.recordState(experimentName, {
+      selector: change.selector,
+      type: change.type,
+      element,
+      originalState,
+    });
+  }
+
+  private recordState(experimentName: string, state: ElementState): void {
+    let states = this.elementStates.get(experimentName);
+    if (!states) {
+      states = [];
+      this.elementStates.set(experimentName, states);
+    }
+    states.push(state);
+  }
+
+  private restoreElementState(state: ElementState, experimentName: string): void {
+    const { element, originalState } = state;
+
+    if (state.type === 'styleRules' || state.type === 'cssVariables') {
+      this.plugin
+        .getStyleManager(experimentName, state.shadowHost)
+        .deleteRule(this.getStyleRuleKey(state.type, state.selector));
+      return;
+    }
+
+    if (!element) {
+      return;
+    }
+
+    switch (state.type) {
+      case 'text':
+      case 'html':
+        setTrustedHTML(element, originalState.html ?? '', this.getTrustedTypesPolicyName(), {
+          experimentName,
+          selector: state.selector,
+        });
+        break;
+      case 'style':
+        if (originalState.style === null || originalState.style === undefined) {
+          element.removeAttribute('style');
+        } else {
+          element.setAttribute('style', originalState.style);
+        }
+        break;
+      case 'class':
+        if (originalState.classList && originalState.classList.length > 0) {
+          element.setAttribute('class', originalState.classList.join(' '));
+        } else {
+          element.removeAttribute('class');
+        }
+        break;
+      case 'attribute':
+        for (const [attr, value] of Object.entries(originalState.attributes || {})) {
+          if (value === null) {
+            element.removeAttribute(attr);
+          } else {
+            element.setAttribute(attr, value);
+          }
+        }
+        break;
+      case 'move':
+      case 'delete': {
+        const { parent, nextSibling } = originalState;
+        if (!parent) {
+          break;
+        }
+        if (nextSibling && nextSibling.parentNode === parent) {
+          parent.insertBefore(element, nextSibling);
+        } else {
+          parent.appendChild(element);
+        }
+        break;
+      }
+      case 'create':
+        element.remove();
+        break;
+    }
+  }
+
+  /**
+   * Revert every change applied for an experiment, restoring the original DOM:
+   * content, styles, classes and attributes are reset, moved and deleted nodes go
+   * back to their original position, created nodes are removed and stylesheet rules dropped.
+   * Cleanups registered by javascript changes run first. Pending changes for the experiment
+   * are discarded.
+   *
+   * Returns the number of element states restored.
+   */
+  removeChanges(experimentName: string): number {
+    // Let javascript changes undo their side effects while their elements are still in place
+    this.runCleanups(experimentName);
+
+    const states = this.elementStates.get(experimentName) || [];
+
+    // Undo in reverse application order so stacked changes unwind to the first snapshot
+    for (let i = states.length - 1; i >= 0; i--) {
+      const state = states[i];
+      try {
+        this.restoreElementState(state, experimentName);
+      } catch (error) {
+        logDebug(`[ABsmartly] Error restoring element state`, {
+          experimentName,
+          selector: state.selector,
+          changeType: state.type,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    if (states.length > 0) {
+      logChangeRemoval(experimentName, '*', 'all', states.length);
+    }
+
+    this.elementStates.delete(experimentName);
+    this.pendingManager.removeAllPending(experimentName);
+    this.clearTracking(experimentName);
+
+    return states.length;
+  }
+
+  /**
+   * Revert the changes of every experiment, most recently applied first.
+   */
+  removeAllChanges(): void {
+    const experimentNames = Array.from(this.elementStates.keys()).reverse();
+    for (const experimentName of experimentNames) {
+      this.removeChanges(experimentName);
+    }
+
+    // Experiments that only had untracked or javascript changes
+    for (const experimentName of [...this.appliedChanges.keys(), ...this.cleanups.keys()]) {
+      this.removeChanges(experimentName);
+    }
+
+    // Changes still waiting for their elements or dependencies are in none of the above
+    this.pendingManager.removeAll();
+  }
+
   hasChanges(experimentName: string): boolean {
     return this.appliedChanges.has(experimentName);
   }
@@ -650,7 +1332,11 @@ export class DOMManipulatorLite {
   }
 
   destroy(): void {
+    for (const experimentName of Array.from(this.cleanups.keys())) {
+      this.runCleanups(experimentName);
+    }
     this.pendingManager.destroy();
     this.appliedChanges.clear();
+    this.elementStates.clear();
   }
 }
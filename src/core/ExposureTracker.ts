@@ -1,27 +1,62 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { ABsmartlyContext, DOMChange, ExperimentTracking } from '../types';
+import {
+  ABsmartlyContext,
+  DOMChange,
+  ExperimentTracking,
+  ExposureTrigger,
+  ViewCriteria,
+} from '../types';
 import { logDebug } from '../utils/debug';
+import { resolveViewCriteria } from '../utils/viewCriteria';
+import { SelectorEngine } from '../utils/SelectorEngine';
+import { MutationHub } from './MutationHub';
 
 interface TrackedElement {
   element: Element;
-  experiments: Set<string>;
+  experiments: Map<string, ViewCriteria>; // experimentName -> when the element counts as seen
   isPlaceholder?: boolean;
 }
 
+// An element a trigger_on_view delete removed, and where it was
+interface DeletedElement {
+  element: Element;
+  parent: Node;
+  nextSibling: Node | null;
+  placeholder: HTMLElement;
+}
+
 export class ExposureTracker {
   private experiments = new Map<string, ExperimentTracking>();
   private trackedElements = new Map<Element, TrackedElement>();
-  private observer!: IntersectionObserver;
-  private mutationObserver: MutationObserver | null = null;
+  // One observer per threshold and root margin, keyed by getObserverKey
+  private observers = new Map<string, IntersectionObserver>();
+  private elementsInView = new Map<string, Set<Element>>(); // observer key -> elements in view
+  private dwellTimers = new Map<Element, Map<string, number>>(); // element -> experimentName -> timer
+  private viewDefaults: ViewCriteria;
+  private hub: MutationHub;
+  private ownsHub: boolean;
+  private selectorWatches = new Map<string, Array<() => void>>(); // experimentName -> stop functions
   private debug: boolean;
   private placeholders = new Map<string, HTMLElement>(); // experimentName-selector -> placeholder
+  private deletedElements = new Map<string, DeletedElement[]>(); // experimentName -> removed
 
   constructor(
     private context: ABsmartlyContext,
-    debug = false
+    debug = false,
+    private onExposure?: (
+      experimentName: string,
+      variant: number,
+      trigger: ExposureTrigger
+    ) => void,
+    hub?: MutationHub,
+    viewDefaults: Partial<ViewCriteria> = {}
   ) {
     this.debug = debug;
-    this.setupIntersectionObserver();
+    this.ownsHub = !hub;
+    this.hub = hub || new MutationHub(debug);
+    this.viewDefaults = resolveViewCriteria(viewDefaults);
+    this.getObserver(this.viewDefaults);
+    document.addEventListener('visibilitychange', this.onVisibilityChange);
   }
 
   /**
@@ -67,32 +102,55 @@ export class ExposureTracker {
     // CSS selectors can legally contain characters like '|' or ':', so we key
     // structurally instead of stringifying the pair.
     const createPositions = new Map<string, Set<string>>(); // targetSelector -> Set<position>
+    // When the elements tracked for a selector (or create target) count as seen. The first
+    // change across variants decides, so every variant is measured the same way.
+    const viewCriteria = new Map<string, ViewCriteria>();
+    const setViewCriteria = (key: string, change: DOMChange) => {
+      if (!viewCriteria.has(key)) {
+        viewCriteria.set(key, resolveViewCriteria(change, this.viewDefaults));
+      }
+    };
 
     for (const variantChanges of allVariantsChanges) {
       for (const change of variantChanges) {
         if (change.trigger_on_view) {
+          // Selector keys carry the selector type, so non-CSS selectors are resolved correctly
+          const selectorKey = SelectorEngine.toKey(
+            SelectorEngine.scope(change.selector, change.shadowHost),
+            change.selectorType
+          );
+          setViewCriteria(
+            change.type === 'create' && change.targetSelector
+              ? SelectorEngine.scope(change.targetSelector, change.shadowHost)
+              : selectorKey,
+            change
+          );
+
           if (change.type === 'move') {
-            if (!moveElements.has(change.selector)) {
-              moveElements.set(change.selector, new Set());
+            if (!moveElements.has(selectorKey)) {
+              moveElements.set(selectorKey, new Set());
             }
 
             // Add the target parent for this move
             if (change.targetSelector) {
-              moveElements.get(change.selector)!.add(change.targetSelector);
+              moveElements
+                .get(selectorKey)!
+                .add(SelectorEngine.scope(change.targetSelector, change.shadowHost));
             }
           } else if (change.type === 'delete') {
             // Track delete changes - need special handling for placeholders
-            deleteElements.add(change.selector);
+            deleteElements.add(selectorKey);
           } else if (change.type === 'create') {
             // create requires targetSelector to have a DOM position; without it
             // the manipulator can't apply the change at all (DOMManipulatorLite
             // returns false), so there's nothing to track.
             if (change.targetSelector) {
               const position = change.position || 'lastChild';
-              let positions = createPositions.get(change.targetSelector);
+              const targetSelector = SelectorEngine.scope(change.targetSelector, change.shadowHost);
+              let positions = createPositions.get(targetSelector);
               if (!positions) {
                 positions = new Set();
-                createPositions.set(change.targetSelector, positions);
+                createPositions.set(targetSelector, positions);
               }
               positions.add(position);
             } else if (this.debug) {
@@ -103,7 +161,7 @@ export class ExposureTracker {
             }
           } else {
             // For other change types, track the selector directly
-            viewportSelectors.add(change.selector);
+            viewportSelectors.add(selectorKey);
           }
         }
       }
@@ -123,12 +181,16 @@ export class ExposureTracker {
       for (let variantIndex = 0; variantIndex < allVariantsChanges.length; variantIndex++) {
         const variantChanges = allVariantsChanges[variantIndex];
         const moveChange = variantChanges.find(
-          c => c.type === 'move' && c.selector === selector && c.trigger_on_view
+          c =>
+            c.type === 'move' &&
+            SelectorEngine.toKey(SelectorEngine.scope(c.selector, c.shadowHost), c.selectorType) ===
+              selector &&
+            c.trigger_on_view
         );
 
         if (moveChange?.targetSelector) {
           allMovesForElement.push({
-            targetSelector: moveChange.targetSelector,
+            targetSelector: SelectorEngine.scope(moveChange.targetSelector, moveChange.shadowHost),
             position: moveChange.position || 'lastChild',
             variantIndex,
           });
@@ -151,7 +213,8 @@ export class ExposureTracker {
               experimentName,
               selector,
               move.targetSelector,
-              move.position
+              move.position,
+              viewCriteria.get(selector)
             );
           }
         }
@@ -165,7 +228,8 @@ export class ExposureTracker {
             experimentName,
             selector,
             move.targetSelector,
-            move.position
+            move.position,
+            viewCriteria.get(selector)
           );
         }
       }
@@ -177,12 +241,20 @@ export class ExposureTracker {
     for (const selector of deleteElements) {
       // Check if current variant has a delete for this selector
       const currentVariantHasDelete = currentChanges.some(
-        c => c.type === 'delete' && c.selector === selector && c.trigger_on_view
+        c =>
+          c.type === 'delete' &&
+          SelectorEngine.toKey(SelectorEngine.scope(c.selector, c.shadowHost), c.selectorType) ===
+            selector &&
+          c.trigger_on_view
       );
 
       if (currentVariantHasDelete) {
         // Current variant will delete this element - replace with in-place placeholder
-        const placeholdersCreated = this.createInPlacePlaceholder(experimentName, selector);
+        const placeholdersCreated = this.createInPlacePlaceholder(
+          experimentName,
+          selector,
+          viewCriteria.get(selector)
+        );
 
         // If no placeholders created (element doesn't exist yet), track the selector
         // so when element appears via MutationObserver, it will be tracked
@@ -221,7 +293,8 @@ export class ExposureTracker {
             experimentName,
             '__create_placeholder__',
             targetSelector,
-            position
+            position,
+            viewCriteria.get(targetSelector)
           )
         ) {
           anyInserted = true;
@@ -263,7 +336,7 @@ export class ExposureTracker {
         allVariantCounts: allVariantsChanges.map((vc, idx) => ({ variant: idx, count: vc.length })),
       });
       // Don't await here to avoid blocking the tracking setup
-      this.triggerExposure(experimentName).catch(error => {
+      this.triggerExposure(experimentName, 'immediate').catch(error => {
         logDebug(`[EXPOSURE] [${experimentName}] ✗ Failed to trigger exposure:`, error);
       });
     } else if (hasViewportTrigger) {
@@ -281,7 +354,7 @@ export class ExposureTracker {
       );
       // Only set up viewport observers if there's NO immediate trigger
       // If there's an immediate trigger, the experiment will be triggered and cleaned up right away
-      this.observeSelectors(experimentName, tracking.allPossibleSelectors);
+      this.observeSelectors(experimentName, tracking.allPossibleSelectors, viewCriteria);
     } else {
       logDebug(
         `[EXPOSURE] [${experimentName}] ⚠️  No immediate or viewport trigger detected - experiment will NOT be exposed!`,
@@ -309,9 +382,10 @@ export class ExposureTracker {
     experimentName: string,
     originalSelector: string,
     targetSelector: string,
-    position: string = 'lastChild'
+    position: string = 'lastChild',
+    view: ViewCriteria = this.viewDefaults
   ): boolean {
-    const targetElement = document.querySelector(targetSelector);
+    const targetElement = SelectorEngine.querySelector(targetSelector);
     if (!targetElement) return false;
 
     const placeholderKey = `${experimentName}-${originalSelector}-${targetSelector}-${position}`;
@@ -362,7 +436,7 @@ export class ExposureTracker {
     this.placeholders.set(placeholderKey, placeholder);
 
     // Track the placeholder for viewport visibility
-    this.trackElement(placeholder, experimentName);
+    this.trackElement(placeholder, experimentName, view);
 
     if (this.debug) {
       logDebug(
@@ -378,8 +452,13 @@ export class ExposureTracker {
    * This allows viewport tracking for delete changes
    * Returns the number of placeholders created
    */
-  private createInPlacePlaceholder(experimentName: string, selector: string): number {
-    const elements = document.querySelectorAll(selector);
+  private createInPlacePlaceholder(
+    experimentName: string,
+    selectorKey: string,
+    view: ViewCriteria = this.viewDefaults
+  ): number {
+    const { selector, selectorType } = SelectorEngine.fromKey(selectorKey);
+    const elements = SelectorEngine.querySelectorAll(selector, selectorType);
 
     if (elements.length === 0) {
       if (this.debug) {
@@ -429,12 +508,22 @@ export class ExposureTracker {
 
       // Insert placeholder before the element, then remove the element
       element.parentElement?.insertBefore(placeholder, element);
+      if (element.parentNode) {
+        const deleted = this.deletedElements.get(experimentName) || [];
+        deleted.push({
+          element,
+          parent: element.parentNode,
+          nextSibling: element.nextSibling,
+          placeholder,
+        });
+        this.deletedElements.set(experimentName, deleted);
+      }
       element.remove();
 
       this.placeholders.set(placeholderKey, placeholder);
 
       // Track the placeholder for viewport visibility
-      this.trackElement(placeholder, experimentName);
+      this.trackElement(placeholder, experimentName, view);
 
       placeholdersCreated++;
 
@@ -489,138 +578,196 @@ export class ExposureTracker {
   /**
    * Set up observers for the given selectors
    */
-  private observeSelectors(experimentName: string, selectors: Set<string>): void {
-    for (const selector of selectors) {
-      // Try to find existing elements
-      const elements = document.querySelectorAll(selector);
-
-      if (elements.length > 0) {
-        for (const element of elements) {
-          this.trackElement(element, experimentName);
-        }
-      } else {
-        // Element doesn't exist yet, set up mutation observer to watch for it
-        this.watchForSelector(selector, experimentName);
+  private observeSelectors(
+    experimentName: string,
+    selectors: Set<string>,
+    viewCriteria: Map<string, ViewCriteria>
+  ): void {
+    this.stopWatching(experimentName);
+    const watches: Array<() => void> = [];
+
+    for (const selectorKey of selectors) {
+      // Track existing elements, and the ones rendered later
+      const { selector, selectorType } = SelectorEngine.fromKey(selectorKey);
+      const view = viewCriteria.get(selectorKey) || this.viewDefaults;
+      for (const element of SelectorEngine.querySelectorAll(selector, selectorType)) {
+        this.trackElement(element, experimentName, view);
       }
+
+      watches.push(
+        this.hub.watch({
+          selector,
+          selectorType,
+          onAdded: elements => {
+            for (const element of elements) {
+              this.trackElement(element, experimentName, view);
+            }
+          },
+        })
+      );
     }
+
+    this.selectorWatches.set(experimentName, watches);
+  }
+
+  private stopWatching(experimentName: string): void {
+    for (const stop of this.selectorWatches.get(experimentName) || []) {
+      stop();
+    }
+    this.selectorWatches.delete(experimentName);
   }
 
   /**
    * Track an element for viewport visibility
    */
-  private trackElement(element: Element, experimentName: string): void {
-    if (!this.trackedElements.has(element)) {
-      this.trackedElements.set(element, {
+  private trackElement(element: Element, experimentName: string, view: ViewCriteria): void {
+    let tracked = this.trackedElements.get(element);
+    if (!tracked) {
+      tracked = {
         element,
-        experiments: new Set([experimentName]),
+        experiments: new Map(),
         isPlaceholder: element.hasAttribute('data-absmartly-placeholder'),
-      });
-      this.observer.observe(element);
-    } else {
-      this.trackedElements.get(element)!.experiments.add(experimentName);
+      };
+      this.trackedElements.set(element, tracked);
     }
-  }
 
-  /**
-   * Watch for elements matching a selector to appear
-   */
-  private watchForSelector(_selector: string, _experimentName: string): void {
-    if (!this.mutationObserver) {
-      this.setupMutationObserver();
+    if (!tracked.experiments.has(experimentName)) {
+      tracked.experiments.set(experimentName, view);
+      this.getObserver(view).observe(element);
+      // Already in view for an observer it was added to before
+      this.updateDwellTimers(element);
     }
-
-    // Store pending selector (implementation would need a Map for this)
-    // For now, we'll rely on checking in mutation callback
   }
 
   /**
-   * Set up the IntersectionObserver for viewport tracking
+   * The IntersectionObserver for a threshold and root margin, created on first use
    */
-  private setupIntersectionObserver(): void {
-    this.observer = new IntersectionObserver(
+  private getObserver(view: ViewCriteria): IntersectionObserver {
+    const key = getObserverKey(view);
+    let observer = this.observers.get(key);
+    if (observer) {
+      return observer;
+    }
+
+    observer = new IntersectionObserver(
       entries => {
         for (const entry of entries) {
-          if (entry.isIntersecting) {
-            this.handleElementVisible(entry.target);
-          }
+          this.handleIntersection(key, entry, view.viewThreshold);
         }
       },
       {
-        threshold: 0.01, // Trigger when even 1% is visible
-        rootMargin: '0px',
+        threshold: view.viewThreshold,
+        rootMargin: view.rootMargin,
       }
     );
+    this.observers.set(key, observer);
+    return observer;
   }
 
   /**
-   * Set up MutationObserver for dynamic elements
+   * Record whether an element is in view for an observer. An entry can still intersect
+   * after dropping below the threshold, so the ratio decides.
    */
-  private setupMutationObserver(): void {
-    this.mutationObserver = new MutationObserver(mutations => {
-      for (const mutation of mutations) {
-        for (const node of mutation.addedNodes) {
-          if (node instanceof Element) {
-            // Check if this element or its children match any tracked selectors
-            this.checkNewElement(node);
-          }
-        }
-      }
-    });
+  private handleIntersection(
+    key: string,
+    entry: IntersectionObserverEntry,
+    threshold: number
+  ): void {
+    let inView = this.elementsInView.get(key);
+    if (!inView) {
+      inView = new Set();
+      this.elementsInView.set(key, inView);
+    }
 
-    this.mutationObserver.observe(document.body, {
-      childList: true,
-      subtree: true,
-    });
+    if (entry.isIntersecting && entry.intersectionRatio >= threshold) {
+      inView.add(entry.target);
+    } else {
+      inView.delete(entry.target);
+    }
+    this.updateDwellTimers(entry.target);
   }
 
+  private onVisibilityChange = (): void => {
+    for (const element of Array.from(this.trackedElements.keys())) {
+      this.updateDwellTimers(element);
+    }
+  };
+
   /**
-   * Check if a newly added element needs tracking
+   * Start the dwell timer of every experiment the element is in view for, while the page is
+   * visible, and stop the others. An experiment is exposed once its timer runs out.
    */
-  private checkNewElement(element: Element): void {
-    for (const [experimentName, tracking] of this.experiments) {
-      for (const selector of tracking.allPossibleSelectors) {
-        if (element.matches(selector)) {
-          this.trackElement(element, experimentName);
-        }
+  private updateDwellTimers(element: Element): void {
+    const tracked = this.trackedElements.get(element);
+    if (!tracked) return;
 
-        // Also check children
-        for (const child of element.querySelectorAll(selector)) {
-          this.trackElement(child, experimentName);
+    const pageVisible = document.visibilityState === 'visible';
+    let timers = this.dwellTimers.get(element);
+
+    for (const [experimentName, view] of tracked.experiments) {
+      const inView = pageVisible && !!this.elementsInView.get(getObserverKey(view))?.has(element);
+      const timer = timers?.get(experimentName);
+
+      if (!inView) {
+        if (timer !== undefined) {
+          clearTimeout(timer);
+          timers!.delete(experimentName);
         }
+        continue;
+      }
+
+      if (timer !== undefined || this.experiments.get(experimentName)?.triggered !== false) {
+        continue;
       }
+
+      if (view.viewDuration <= 0) {
+        this.handleElementSeen(element, experimentName);
+        continue;
+      }
+
+      if (!timers) {
+        timers = new Map();
+        this.dwellTimers.set(element, timers);
+      }
+      timers.set(
+        experimentName,
+        window.setTimeout(() => {
+          this.dwellTimers.get(element)?.delete(experimentName);
+          this.handleElementSeen(element, experimentName);
+        }, view.viewDuration)
+      );
+    }
+
+    if (timers?.size === 0) {
+      this.dwellTimers.delete(element);
     }
   }
 
   /**
-   * Handle when an element becomes visible
+   * Handle an element that met an experiment's view criteria
    */
-  private handleElementVisible(element: Element): void {
+  private handleElementSeen(element: Element, experimentName: string): void {
     const tracked = this.trackedElements.get(element);
-    if (!tracked) return;
-
-    for (const experimentName of tracked.experiments) {
-      const experiment = this.experiments.get(experimentName);
+    const experiment = this.experiments.get(experimentName);
+    if (!tracked || !experiment || experiment.triggered) return;
 
-      if (experiment && !experiment.triggered) {
-        // Don't await here to avoid blocking the visibility handler
-        this.triggerExposure(experimentName).catch(error => {
-          logDebug(`[ABsmartly] Failed to trigger exposure for ${experimentName}:`, error);
-        });
+    // Don't await here to avoid blocking the visibility handler
+    this.triggerExposure(experimentName, 'viewport').catch(error => {
+      logDebug(`[ABsmartly] Failed to trigger exposure for ${experimentName}:`, error);
+    });
 
-        if (this.debug) {
-          const selector = tracked.isPlaceholder
-            ? element.getAttribute('data-absmartly-original-selector')
-            : this.getElementSelector(element);
-          logDebug(`[ABsmartly] Triggering exposure for ${experimentName} via ${selector}`);
-        }
-      }
+    if (this.debug) {
+      const selector = tracked.isPlaceholder
+        ? element.getAttribute('data-absmartly-original-selector')
+        : this.getElementSelector(element);
+      logDebug(`[ABsmartly] Triggering exposure for ${experimentName} via ${selector}`);
     }
   }
 
   /**
    * Trigger exposure for an experiment
    */
-  private async triggerExposure(experimentName: string): Promise<void> {
+  private async triggerExposure(experimentName: string, trigger: ExposureTrigger): Promise<void> {
     const experiment = this.experiments.get(experimentName);
     if (!experiment) {
       logDebug(`[EXPOSURE] [${experimentName}] ✗ Cannot trigger - experiment not found in tracker`);
@@ -653,6 +800,14 @@ export class ExposureTracker {
       }
     );
 
+    if (this.onExposure) {
+      try {
+        this.onExposure(experimentName, experiment.variant, trigger);
+      } catch (error) {
+        logDebug(`[EXPOSURE] [${experimentName}] Error in exposure callback:`, error);
+      }
+    }
+
     // Clean up tracking for this experiment
     this.cleanupExperiment(experimentName);
   }
@@ -663,10 +818,21 @@ export class ExposureTracker {
   private cleanupExperiment(experimentName: string): void {
     // Remove from tracked elements
     for (const [element, tracked] of this.trackedElements) {
+      const view = tracked.experiments.get(experimentName);
+      if (!view) continue;
+
       tracked.experiments.delete(experimentName);
+      this.clearDwellTimer(element, experimentName);
+
+      // Stop observing with the experiment's observer unless another experiment still uses it
+      const key = getObserverKey(view);
+      const keys = Array.from(tracked.experiments.values()).map(getObserverKey);
+      if (!keys.includes(key)) {
+        this.observers.get(key)?.unobserve(element);
+        this.elementsInView.get(key)?.delete(element);
+      }
 
       if (tracked.experiments.size === 0) {
-        this.observer.unobserve(element);
         this.trackedElements.delete(element);
       }
     }
@@ -686,11 +852,18 @@ export class ExposureTracker {
       experiment.allPossibleSelectors.clear();
     }
 
-    // Clean up mutation observer if all experiments have been triggered
-    const allTriggered = Array.from(this.experiments.values()).every(exp => exp.triggered);
-    if (allTriggered && this.mutationObserver) {
-      this.mutationObserver.disconnect();
-      this.mutationObserver = null;
+    this.stopWatching(experimentName);
+  }
+
+  private clearDwellTimer(element: Element, experimentName: string): void {
+    const timers = this.dwellTimers.get(element);
+    const timer = timers?.get(experimentName);
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      timers!.delete(experimentName);
+    }
+    if (timers?.size === 0) {
+      this.dwellTimers.delete(element);
     }
   }
 
@@ -706,6 +879,49 @@ export class ExposureTracker {
     return element.tagName.toLowerCase();
   }
 
+  /**
+   * Stop tracking an experiment whose changes are reverted: its placeholders and observers
+   * are removed and the elements its trigger_on_view deletes removed are put back
+   */
+  unregisterExperiment(experimentName: string): void {
+    this.restoreDeletedElements(experimentName);
+    this.cleanupExperiment(experimentName);
+    this.experiments.delete(experimentName);
+  }
+
+  /**
+   * Stop tracking every experiment, as when all changes are reverted
+   */
+  unregisterAll(): void {
+    const names = new Set([...this.experiments.keys(), ...this.deletedElements.keys()]);
+    for (const experimentName of names) {
+      this.unregisterExperiment(experimentName);
+    }
+  }
+
+  private restoreDeletedElements(experimentName: string): void {
+    const deleted = this.deletedElements.get(experimentName) || [];
+    this.deletedElements.delete(experimentName);
+
+    // In reverse, so elements deleted next to each other get their order back
+    for (const { element, parent, nextSibling, placeholder } of deleted.reverse()) {
+      if (element.isConnected) {
+        continue;
+      }
+      if (placeholder.parentNode) {
+        placeholder.replaceWith(element);
+      } else if (parent.isConnected) {
+        parent.insertBefore(element, nextSibling?.parentNode === parent ? nextSibling : null);
+      }
+
+      if (this.debug) {
+        logDebug(`[EXPOSURE] [${experimentName}] Restored element removed by a delete`, {
+          element: this.getElementSelector(element),
+        });
+      }
+    }
+  }
+
   /**
    * Check if an experiment needs viewport tracking
    */
@@ -727,9 +943,23 @@ export class ExposureTracker {
    */
   destroy(): void {
     // Disconnect observers
-    this.observer.disconnect();
-    if (this.mutationObserver) {
-      this.mutationObserver.disconnect();
+    for (const observer of this.observers.values()) {
+      observer.disconnect();
+    }
+    this.observers.clear();
+    this.elementsInView.clear();
+    for (const timers of this.dwellTimers.values()) {
+      for (const timer of timers.values()) {
+        clearTimeout(timer);
+      }
+    }
+    this.dwellTimers.clear();
+    document.removeEventListener('visibilitychange', this.onVisibilityChange);
+    for (const experimentName of Array.from(this.selectorWatches.keys())) {
+      this.stopWatching(experimentName);
+    }
+    if (this.ownsHub) {
+      this.hub.destroy();
     }
 
     // Remove all placeholders
@@ -739,6 +969,7 @@ export class ExposureTracker {
 
     // Clear all tracking
     this.experiments.clear();
+    this.deletedElements.clear();
     this.trackedElements.clear();
     this.placeholders.clear();
 
@@ -747,3 +978,7 @@ export class ExposureTracker {
     }
   }
 }
+
+function getObserverKey(view: ViewCriteria): string {
+  return `${view.viewThreshold}|${view.rootMargin}`;
+}
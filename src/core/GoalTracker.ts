@@ -0,0 +1,206 @@
+import { ABsmartlyContext, DOMGoal, DOMGoalEvent } from '../types';
+import { logDebug } from '../utils/debug';
+import { SelectorEngine } from '../utils/SelectorEngine';
+import { MutationHub } from './MutationHub';
+
+const GOAL_EVENTS: DOMGoalEvent[] = ['click', 'submit', 'visible'];
+
+const goalKey = (goal: DOMGoal) =>
+  JSON.stringify([goal.goal, goal.selector, goal.selectorType || 'css']);
+
+/**
+ * Tracks the goals a variant binds to its elements (`goals` in DOMChangesConfig).
+ *
+ * Click and submit goals are delegated to capturing listeners on the document, so elements
+ * rendered or re-rendered after binding are covered and app handlers that stop propagation
+ * don't hide them. Visible goals observe matching elements as they are added and are tracked
+ * once, the first time one enters the viewport; re-binding the same goal doesn't track it
+ * again until the experiment is reset.
+ */
+export class GoalTracker {
+  private bindings = new Map<string, Array<() => void>>(); // experimentName -> unbind functions
+  private reached = new Map<string, Set<string>>(); // experimentName -> visible goals tracked
+
+  constructor(
+    private context: ABsmartlyContext,
+    private hub: MutationHub,
+    private debug = false,
+    private onTracked?: (experimentName: string, goal: DOMGoal) => void
+  ) {}
+
+  /**
+   * Bind an experiment's goals, replacing the ones bound before
+   */
+  bind(experimentName: string, goals: DOMGoal[]): void {
+    this.unbind(experimentName);
+
+    const unbinds: Array<() => void> = [];
+    for (const goal of goals) {
+      if (!isValidGoal(goal)) {
+        if (this.debug) {
+          logDebug(`[GOALS] [${experimentName}] Skipping invalid goal`, { goal });
+        }
+        continue;
+      }
+      if (goal.event === 'visible' && this.reached.get(experimentName)?.has(goalKey(goal))) {
+        continue;
+      }
+      unbinds.push(
+        goal.event === 'visible'
+          ? this.bindVisible(experimentName, goal)
+          : this.bindEvent(experimentName, goal)
+      );
+    }
+
+    if (unbinds.length > 0) {
+      this.bindings.set(experimentName, unbinds);
+    }
+
+    if (this.debug) {
+      logDebug(`[GOALS] [${experimentName}] Bound ${unbinds.length} goal(s)`, {
+        goals: goals.map(goal => ({ goal: goal?.goal, event: goal?.event })),
+      });
+    }
+  }
+
+  /**
+   * Remove the goals of one experiment, or of all experiments
+   */
+  unbind(experimentName?: string): void {
+    const names = experimentName ? [experimentName] : Array.from(this.bindings.keys());
+    for (const name of names) {
+      for (const unbind of this.bindings.get(name) || []) {
+        unbind();
+      }
+      this.bindings.delete(name);
+    }
+  }
+
+  /**
+   * Remove the goals of one experiment, or of all experiments, and forget which visible goals
+   * were reached so they are tracked again once bound (after a revert or on a new page)
+   */
+  reset(experimentName?: string): void {
+    this.unbind(experimentName);
+    if (experimentName) {
+      this.reached.delete(experimentName);
+    } else {
+      this.reached.clear();
+    }
+  }
+
+  destroy(): void {
+    this.reset();
+  }
+
+  private bindEvent(experimentName: string, goal: DOMGoal): () => void {
+    const listener = (event: Event) => {
+      if (this.findTarget(event, goal)) {
+        this.track(experimentName, goal);
+      }
+    };
+
+    document.addEventListener(goal.event, listener, true);
+    return () => document.removeEventListener(goal.event, listener, true);
+  }
+
+  private bindVisible(experimentName: string, goal: DOMGoal): () => void {
+    let stopWatching: (() => void) | null = null;
+    const observer =
+      typeof IntersectionObserver === 'undefined'
+        ? null
+        : new IntersectionObserver(entries => {
+            if (entries.some(entry => entry.isIntersecting)) {
+              reach();
+            }
+          });
+
+    const unbind = () => {
+      observer?.disconnect();
+      stopWatching?.();
+      stopWatching = null;
+    };
+
+    const reach = () => {
+      unbind();
+      const reached = this.reached.get(experimentName) || new Set<string>();
+      reached.add(goalKey(goal));
+      this.reached.set(experimentName, reached);
+      this.track(experimentName, goal);
+    };
+
+    const observe = (elements: Element[]) => {
+      if (!observer) {
+        // Nothing to measure visibility with: the goal is reached once an element exists
+        if (elements.length > 0) {
+          reach();
+        }
+        return;
+      }
+      for (const element of elements) {
+        observer.observe(element);
+      }
+    };
+
+    stopWatching = this.hub.watch({
+      selector: goal.selector,
+      selectorType: goal.selectorType,
+      onAdded: observe,
+    });
+
+    try {
+      observe(SelectorEngine.querySelectorAll(goal.selector, goal.selectorType));
+    } catch (error) {
+      logDebug(`[GOALS] [${experimentName}] Invalid selector: ${goal.selector}`, error);
+    }
+
+    return unbind;
+  }
+
+  /**
+   * The element on the event's path (including inside open shadow roots) matching the goal
+   */
+  private findTarget(event: Event, goal: DOMGoal): Element | null {
+    const path = event.composedPath().filter((node): node is Element => node instanceof Element);
+
+    try {
+      if ((goal.selectorType || 'css') === 'css') {
+        return path.find(element => element.matches(goal.selector)) || null;
+      }
+      const matches = new Set(SelectorEngine.querySelectorAll(goal.selector, goal.selectorType));
+      return path.find(element => matches.has(element)) || null;
+    } catch (error) {
+      logDebug(`[GOALS] Invalid selector: ${goal.selector}`, error);
+      return null;
+    }
+  }
+
+  private track(experimentName: string, goal: DOMGoal): void {
+    if (this.debug) {
+      logDebug(`[GOALS] [${experimentName}] Tracking goal '${goal.goal}'`, {
+        event: goal.event,
+        selector: goal.selector,
+        properties: goal.properties,
+      });
+    }
+
+    try {
+      this.context.track(goal.goal, goal.properties);
+    } catch (error) {
+      logDebug(`[GOALS] [${experimentName}] Failed to track goal '${goal.goal}'`, error);
+      return;
+    }
+    this.onTracked?.(experimentName, goal);
+  }
+}
+
+function isValidGoal(goal: DOMGoal): boolean {
+  return (
+    !!goal &&
+    typeof goal.selector === 'string' &&
+    goal.selector !== '' &&
+    typeof goal.goal === 'string' &&
+    goal.goal !== '' &&
+    GOAL_EVENTS.includes(goal.event)
+  );
+}
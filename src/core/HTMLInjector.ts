@@ -1,13 +1,31 @@
 import { InjectionItem, InjectionLocation, InjectionDataWithFilter } from '../types';
 import { logDebug } from '../utils/debug';
 import { URLMatcher } from '../utils/URLMatcher';
+import { DEFAULT_TRUSTED_TYPES_POLICY, setTrustedHTML } from '../utils/trustedTypes';
+import { applyCSPNonce } from '../utils/cspNonce';
+
+export type InjectionSanitizer = (code: string, experimentName?: string) => string;
 
 export class HTMLInjector {
   private debug: boolean;
+  private sanitize: InjectionSanitizer | null;
+  private trustedTypesPolicyName: string;
+  private cspNonce: string;
+  private doc: Document;
   private injectedIds: Set<string> = new Set();
 
-  constructor(debug = false) {
+  constructor(
+    debug = false,
+    sanitize?: InjectionSanitizer,
+    trustedTypesPolicyName = DEFAULT_TRUSTED_TYPES_POLICY,
+    cspNonce = '',
+    doc: Document = document
+  ) {
     this.debug = debug;
+    this.sanitize = sanitize || null;
+    this.trustedTypesPolicyName = trustedTypesPolicyName;
+    this.cspNonce = cspNonce;
+    this.doc = doc;
   }
 
   parseInjectionKey(key: string): { location: InjectionLocation; priority: number } | null {
@@ -98,6 +116,7 @@ export class HTMLInjector {
               code,
               priority: parsed.priority,
               location: parsed.location,
+              experimentName,
             };
 
             if (!injectionsByLocation.has(parsed.location)) {
@@ -135,7 +154,17 @@ export class HTMLInjector {
     return injectionsByLocation;
   }
 
-  inject(injectionsByLocation: Map<InjectionLocation, InjectionItem[]>): void {
+  /**
+   * Inject the collected items, skipping ones already on the page. Returns how many were
+   * injected now and where.
+   */
+  inject(injectionsByLocation: Map<InjectionLocation, InjectionItem[]>): {
+    count: number;
+    locations: InjectionLocation[];
+  } {
+    let count = 0;
+    const locations = new Set<InjectionLocation>();
+
     for (const [location, items] of injectionsByLocation) {
       // For headStart and bodyStart, we insert at the beginning (firstChild)
       // Each insertion pushes previous ones down, so we need to reverse
@@ -144,21 +173,33 @@ export class HTMLInjector {
         location === 'headStart' || location === 'bodyStart' ? [...items].reverse() : items;
 
       for (const item of orderedItems) {
-        this.injectAtLocation(location, item.code);
+        const code = this.sanitize ? this.sanitize(item.code, item.experimentName) : item.code;
+        if (this.injectAtLocation(location, code)) {
+          count++;
+          locations.add(location);
+        }
       }
     }
 
     if (this.debug) {
       logDebug('[HTMLInjector] All injections complete');
     }
+
+    return { count, locations: Array.from(locations) };
   }
 
-  private injectAtLocation(location: InjectionLocation, code: string): void {
+  private injectAtLocation(location: InjectionLocation, code: string): boolean {
     const codeHash = this.simpleHash(code);
     const injectionId = `absmartly-inject-${location}-${codeHash}`;
 
     if (this.injectedIds.has(injectionId)) {
-      return;
+      return false;
+    }
+
+    // Already rendered into the page by renderDOMChanges: take it over instead of duplicating it
+    if (this.doc.getElementById(injectionId)) {
+      this.injectedIds.add(injectionId);
+      return false;
     }
 
     try {
@@ -186,15 +227,17 @@ export class HTMLInjector {
           injectionId,
         });
       }
+      return true;
     } catch (error) {
       if (this.debug) {
         logDebug(`[HTMLInjector] Error injecting at ${location}:`, error);
       }
+      return false;
     }
   }
 
   private injectHeadStart(code: string, id: string): void {
-    if (!document.head) {
+    if (!this.doc.head) {
       if (this.debug) {
         logDebug('[HTMLInjector] <head> element not found for headStart injection');
       }
@@ -202,11 +245,11 @@ export class HTMLInjector {
     }
 
     const container = this.createContainer(code, id);
-    document.head.insertBefore(container, document.head.firstChild);
+    this.doc.head.insertBefore(container, this.doc.head.firstChild);
   }
 
   private injectHeadEnd(code: string, id: string): void {
-    if (!document.head) {
+    if (!this.doc.head) {
       if (this.debug) {
         logDebug('[HTMLInjector] <head> element not found for headEnd injection');
       }
@@ -214,11 +257,11 @@ export class HTMLInjector {
     }
 
     const container = this.createContainer(code, id);
-    document.head.appendChild(container);
+    this.doc.head.appendChild(container);
   }
 
   private injectBodyStart(code: string, id: string): void {
-    if (!document.body) {
+    if (!this.doc.body) {
       if (this.debug) {
         logDebug('[HTMLInjector] <body> element not found for bodyStart injection');
       }
@@ -226,11 +269,11 @@ export class HTMLInjector {
     }
 
     const container = this.createContainer(code, id);
-    document.body.insertBefore(container, document.body.firstChild);
+    this.doc.body.insertBefore(container, this.doc.body.firstChild);
   }
 
   private injectBodyEnd(code: string, id: string): void {
-    if (!document.body) {
+    if (!this.doc.body) {
       if (this.debug) {
         logDebug('[HTMLInjector] <body> element not found for bodyEnd injection');
       }
@@ -238,14 +281,19 @@ export class HTMLInjector {
     }
 
     const container = this.createContainer(code, id);
-    document.body.appendChild(container);
+    this.doc.body.appendChild(container);
   }
 
   private createContainer(code: string, id: string): HTMLElement {
-    const container = document.createElement('div');
+    const container = this.doc.createElement('div');
     container.id = id;
     container.setAttribute('data-absmartly-injection', 'true');
-    container.innerHTML = code;
+    setTrustedHTML(container, code, this.trustedTypesPolicyName);
+
+    // Inline styles and scripts from the injection are subject to the page's CSP too
+    for (const element of Array.from(container.querySelectorAll<HTMLElement>('script, style'))) {
+      applyCSPNonce(element, this.cspNonce);
+    }
 
     return container;
   }
@@ -262,7 +310,7 @@ export class HTMLInjector {
 
   destroy(): void {
     for (const id of this.injectedIds) {
-      const element = document.getElementById(id);
+      const element = this.doc.getElementById(id);
       if (element) {
         element.remove();
       }
@@ -0,0 +1,414 @@
+import type { SelectorType } from '../types';
+import { logDebug } from '../utils/debug';
+import { SelectorEngine } from '../utils/SelectorEngine';
+
+export interface SelectorWatch {
+  selector: string;
+  selectorType?: SelectorType;
+  root?: Element; // Only report elements inside this element
+  onAdded: (elements: Element[]) => void; // Matching elements added since the last frame
+}
+
+export type AttributeListener = (mutations: MutationRecord[]) => void;
+
+type IndexKey = { kind: 'id' | 'class' | 'tag'; value: string };
+
+/**
+ * One MutationObserver for everything the plugin watches: elements that pending changes wait
+ * for, exposure targets, elements to re-apply changes to in SPA mode, and attribute changes
+ * for style persistence.
+ *
+ * Watched CSS selectors are indexed by the id, class or tag of their last compound selector,
+ * so each added element is only matched against the selectors that could match it. Other
+ * selectors (XPath, text, shadow-piercing, or without an id, class or tag at the end) are
+ * queried once per added subtree. Added nodes are collected and matched once per animation
+ * frame; attribute mutations are delivered right away.
+ */
+export class MutationHub {
+  private observer: MutationObserver | null = null;
+  private options: MutationObserverInit | null = null;
+  private roots = new Set<Node>(); // Observed shadow roots, besides the document
+  private watches = new Set<SelectorWatch>();
+  private index = new Map<string, Set<SelectorWatch>>(); // 'id:x' | 'class:x' | 'tag:x'
+  private queried = new Set<SelectorWatch>(); // Watches matched with a query per added subtree
+  private attributeListeners = new Set<AttributeListener>();
+  private addedNodes: Element[] = [];
+  private cancelFrame: (() => void) | null = null;
+
+  constructor(private debug = false) {}
+
+  /**
+   * Report elements matching a selector as they are added. Returns a function that stops
+   * watching.
+   */
+  watch(watch: SelectorWatch): () => void {
+    this.watches.add(watch);
+
+    const keys = getIndexKeys(watch.selector, watch.selectorType);
+    if (keys) {
+      for (const key of keys) {
+        const indexKey = `${key.kind}:${key.value}`;
+        if (!this.index.has(indexKey)) {
+          this.index.set(indexKey, new Set());
+        }
+        this.index.get(indexKey)!.add(watch);
+      }
+    } else {
+      this.queried.add(watch);
+    }
+
+    this.reconnect();
+    return () => this.unwatch(watch, keys);
+  }
+
+  /**
+   * Receive attribute mutations anywhere in the observed document and shadow roots
+   */
+  onAttributes(listener: AttributeListener): () => void {
+    this.attributeListeners.add(listener);
+    this.reconnect();
+    return () => {
+      this.attributeListeners.delete(listener);
+      this.reconnect();
+    };
+  }
+
+  /**
+   * Also observe a shadow root, whose mutations are not reported to document observers
+   */
+  observe(root: ShadowRoot): void {
+    if (this.roots.has(root)) {
+      return;
+    }
+    this.roots.add(root);
+    if (this.observer && this.options) {
+      this.observer.observe(root, this.options);
+    }
+  }
+
+  /**
+   * Match the nodes added since the last frame now instead of waiting for it
+   */
+  flush(): void {
+    this.cancelFrame?.();
+    this.cancelFrame = null;
+    if (this.observer) {
+      this.deliver(this.observer.takeRecords());
+    }
+
+    const nodes = this.addedNodes;
+    this.addedNodes = [];
+    if (nodes.length === 0 || this.watches.size === 0) {
+      return;
+    }
+
+    const matches = new Map<SelectorWatch, Set<Element>>();
+    for (const node of getTopmost(nodes)) {
+      this.matchIndexed(node, matches);
+      this.matchQueried(node, matches);
+    }
+
+    for (const [watch, elements] of matches) {
+      // A previous callback may have stopped the watch
+      if (!this.watches.has(watch)) continue;
+      try {
+        watch.onAdded(Array.from(elements));
+      } catch (error) {
+        logDebug('[ABsmartly] Error in mutation watch callback:', error);
+      }
+    }
+  }
+
+  getWatchCount(): number {
+    return this.watches.size;
+  }
+
+  destroy(): void {
+    this.cancelFrame?.();
+    this.cancelFrame = null;
+    this.observer?.disconnect();
+    this.observer = null;
+    this.options = null;
+    this.roots.clear();
+    this.watches.clear();
+    this.index.clear();
+    this.queried.clear();
+    this.attributeListeners.clear();
+    this.addedNodes = [];
+  }
+
+  private unwatch(watch: SelectorWatch, keys: IndexKey[] | null): void {
+    if (!this.watches.delete(watch)) {
+      return;
+    }
+    for (const key of keys || []) {
+      const indexKey = `${key.kind}:${key.value}`;
+      const bucket = this.index.get(indexKey);
+      bucket?.delete(watch);
+      if (bucket?.size === 0) {
+        this.index.delete(indexKey);
+      }
+    }
+    this.queried.delete(watch);
+    this.reconnect();
+  }
+
+  /**
+   * Observe with the options current watches and listeners need, or stop observing
+   */
+  private reconnect(): void {
+    const childList = this.watches.size > 0;
+    const attributes = this.attributeListeners.size > 0;
+
+    if (
+      this.options &&
+      !!this.options.childList === childList &&
+      !!this.options.attributes === attributes
+    ) {
+      return;
+    }
+
+    if (this.observer) {
+      // Don't lose what happened since the last callback
+      this.deliver(this.observer.takeRecords());
+      this.observer.disconnect();
+    }
+    this.observer = null;
+    this.options = null;
+
+    if (!childList && !attributes) {
+      this.addedNodes = [];
+      if (this.debug) {
+        logDebug('[ABsmartly] Mutation hub stopped observing');
+      }
+      return;
+    }
+
+    this.options = attributes
+      ? { childList, subtree: true, attributes: true, attributeOldValue: true }
+      : { childList: true, subtree: true };
+    this.observer = new MutationObserver(mutations => this.handleMutations(mutations));
+    this.observer.observe(document.documentElement, this.options);
+    for (const root of this.roots) {
+      this.observer.observe(root, this.options);
+    }
+
+    if (this.debug) {
+      logDebug('[ABsmartly] Mutation hub observing', { childList, attributes });
+    }
+  }
+
+  private handleMutations(mutations: MutationRecord[]): void {
+    this.deliver(mutations);
+    if (this.addedNodes.length > 0 && !this.cancelFrame) {
+      this.cancelFrame = requestFrame(() => {
+        this.cancelFrame = null;
+        this.flush();
+      });
+    }
+  }
+
+  /**
+   * Hand attribute mutations to the listeners and queue added elements for the next frame
+   */
+  private deliver(mutations: MutationRecord[]): void {
+    if (this.attributeListeners.size > 0) {
+      const attributeMutations = mutations.filter(mutation => mutation.type === 'attributes');
+      if (attributeMutations.length > 0) {
+        for (const listener of Array.from(this.attributeListeners)) {
+          listener(attributeMutations);
+        }
+      }
+    }
+
+    if (this.watches.size === 0) {
+      return;
+    }
+    for (const mutation of mutations) {
+      if (mutation.type !== 'childList') continue;
+      for (const node of Array.from(mutation.addedNodes)) {
+        if (node.nodeType === Node.ELEMENT_NODE) {
+          this.addedNodes.push(node as Element);
+        }
+      }
+    }
+  }
+
+  /**
+   * Match the node and its descendants against the watches indexed by their id, classes
+   * and tag
+   */
+  private matchIndexed(node: Element, matches: Map<SelectorWatch, Set<Element>>): void {
+    if (this.index.size === 0) {
+      return;
+    }
+
+    // Walk the subtree by hand: much cheaper than collecting it with a query on large inserts
+    const stack: Element[] = [node];
+    while (stack.length > 0) {
+      const element = stack.pop()!;
+      for (let child = element.firstElementChild; child; child = child.nextElementSibling) {
+        stack.push(child);
+      }
+
+      const candidates: Set<SelectorWatch>[] = [];
+      const byTag = this.index.get(`tag:${element.localName}`);
+      if (byTag) candidates.push(byTag);
+      if (element.id) {
+        const byId = this.index.get(`id:${element.id}`);
+        if (byId) candidates.push(byId);
+      }
+      for (const className of Array.from(element.classList)) {
+        const byClass = this.index.get(`class:${className}`);
+        if (byClass) candidates.push(byClass);
+      }
+
+      for (const bucket of candidates) {
+        for (const watch of bucket) {
+          if (matches.get(watch)?.has(element)) continue;
+          try {
+            if (element.matches(watch.selector) && isInside(watch.root, element)) {
+              addMatch(matches, watch, element);
+            }
+          } catch {
+            // Invalid selector: it never matches
+          }
+        }
+      }
+    }
+  }
+
+  private matchQueried(node: Element, matches: Map<SelectorWatch, Set<Element>>): void {
+    for (const watch of this.queried) {
+      try {
+        for (const element of SelectorEngine.findInSubtree(
+          node,
+          watch.selector,
+          watch.selectorType
+        )) {
+          if (isInside(watch.root, element)) {
+            addMatch(matches, watch, element);
+          }
+        }
+      } catch {
+        // Invalid selector: it never matches
+      }
+    }
+  }
+}
+
+/**
+ * Index keys of a CSS selector: the id, else the first class, else the tag of the last
+ * compound selector of each selector in the list. Returns null when a selector in the list
+ * has none of them, or the selector isn't plain CSS.
+ */
+export function getIndexKeys(
+  selector: string,
+  selectorType: SelectorType = 'css'
+): IndexKey[] | null {
+  if (selectorType !== 'css' || selector.includes('>>>') || selector.includes('\\')) {
+    return null;
+  }
+
+  const keys: IndexKey[] = [];
+  for (const compound of getLastCompounds(selector)) {
+    const id = /#([\w-]+)/.exec(compound);
+    const className = /\.([\w-]+)/.exec(compound);
+    const tag = /^([a-zA-Z][\w-]*)/.exec(compound);
+
+    if (id) {
+      keys.push({ kind: 'id', value: id[1] });
+    } else if (className) {
+      keys.push({ kind: 'class', value: className[1] });
+    } else if (tag) {
+      keys.push({ kind: 'tag', value: tag[1].toLowerCase() });
+    } else {
+      return null;
+    }
+  }
+  return keys.length > 0 ? keys : null;
+}
+
+/**
+ * Last compound selector of each selector in a list, without the content of attribute
+ * selectors, functional pseudo-classes and strings
+ */
+function getLastCompounds(selector: string): string[] {
+  const compounds: string[] = [];
+  let compound = '';
+  let depth = 0;
+  let quote = '';
+
+  for (const char of selector) {
+    if (quote) {
+      if (char === quote) quote = '';
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(' || char === '[') {
+      depth++;
+    } else if (char === ')' || char === ']') {
+      depth--;
+    } else if (depth === 0) {
+      if (char === ',') {
+        compounds.push(compound);
+        compound = '';
+      } else if (/[\s>+~]/.test(char)) {
+        compound = '';
+      } else {
+        compound += char;
+      }
+    }
+  }
+  compounds.push(compound);
+  return compounds;
+}
+
+/**
+ * Added nodes without their descendants that were added too, which are matched as part of
+ * their ancestor's subtree. Nodes removed again before the frame are dropped.
+ */
+function getTopmost(nodes: Element[]): Element[] {
+  const unique = new Set(nodes.filter(node => node.isConnected));
+  return Array.from(unique).filter(node => {
+    for (let parent = node.parentNode; parent; parent = parent.parentNode) {
+      if (unique.has(parent as Element)) return false;
+    }
+    return true;
+  });
+}
+
+function isInside(root: Element | undefined, element: Element): boolean {
+  let current: Node | null = element;
+  while (root && current) {
+    if (root.contains(current)) {
+      return true;
+    }
+    const rootNode = current.getRootNode();
+    current = rootNode instanceof ShadowRoot ? rootNode.host : null;
+  }
+  return !root;
+}
+
+function addMatch(
+  matches: Map<SelectorWatch, Set<Element>>,
+  watch: SelectorWatch,
+  element: Element
+): void {
+  if (!matches.has(watch)) {
+    matches.set(watch, new Set());
+  }
+  matches.get(watch)!.add(element);
+}
+
+// Hidden tabs get no animation frames, so matching falls back to a timer there. Returns a
+// function that cancels the callback.
+function requestFrame(callback: () => void): () => void {
+  if (typeof requestAnimationFrame !== 'undefined' && document.visibilityState !== 'hidden') {
+    const frame = requestAnimationFrame(callback);
+    return () => cancelAnimationFrame(frame);
+  }
+  const timer = setTimeout(callback, 0);
+  return () => clearTimeout(timer);
+}
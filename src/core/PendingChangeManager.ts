@@ -1,5 +1,7 @@
-import { DOMChange } from '../types';
+import { DOMChange, SelectorType } from '../types';
 import { logDebug } from '../utils/debug';
+import { SelectorEngine } from '../utils/SelectorEngine';
+import { MutationHub } from './MutationHub';
 
 export interface PendingChange {
   change: DOMChange;
@@ -7,19 +9,29 @@ export interface PendingChange {
   observerRoot?: string;
 }
 
+interface BlockedChange {
+  pending: PendingChange;
+  waitingFor: Set<string>; // ids of dependencies not yet applied
+}
+
 export class PendingChangeManager {
   private pending = new Map<string, PendingChange[]>();
-  private observers = new Map<string, MutationObserver>();
-  private appliedSelectors = new Set<string>();
+  private watches = new Map<string, () => void>(); // pending key -> stops its hub watch
+  private appliedChanges = new Map<string, Set<DOMChange>>(); // experimentName -> applied changes
   private debug: boolean;
-  private batchTimer: NodeJS.Timeout | null = null;
-  private batchedWork = new Set<() => void>();
+  private hub: MutationHub;
+  private ownsHub: boolean;
+  private blocked: BlockedChange[] = [];
+  private upgradeWaits = new Set<string>(); // custom element tags awaiting customElements.define
 
   constructor(
     private applyFn: (change: DOMChange, experimentName: string, element?: Element) => boolean,
-    debug = false
+    debug = false,
+    hub?: MutationHub
   ) {
     this.debug = debug;
+    this.ownsHub = !hub;
+    this.hub = hub || new MutationHub(debug);
   }
 
   addPending(pendingChange: PendingChange): void {
@@ -34,18 +46,19 @@ export class PendingChangeManager {
       effectiveRoot = undefined;
     }
 
-    const key = `${change.selector}-${effectiveRoot || 'document'}`;
+    const selector = this.getWatchSelector(change);
+    const key = `${selector}-${effectiveRoot || 'document'}`;
 
     if (this.debug) {
-      logDebug('[ABsmartly] Adding pending change for selector:', change.selector);
+      logDebug('[ABsmartly] Adding pending change for selector:', selector);
     }
 
     // Check if element already exists
     const root = this.getObserverRoot(effectiveRoot);
-    const existing = root.querySelector(change.selector);
-    if (existing) {
-      // Apply immediately if element exists
-      this.applyChange(existing, { ...pendingChange, observerRoot: effectiveRoot });
+    const target = this.getWatchTarget(change);
+    const existing = SelectorEngine.querySelector(target.selector, target.selectorType, root);
+    // Apply immediately if element exists; keep waiting if it is not ready yet (e.g. a host without its shadow root)
+    if (existing && this.applyChange(existing, { ...pendingChange, observerRoot: effectiveRoot })) {
       return;
     }
 
@@ -54,8 +67,64 @@ export class PendingChangeManager {
     list.push({ ...pendingChange, observerRoot: effectiveRoot });
     this.pending.set(key, list);
 
-    // Ensure observer for this root
-    this.ensureObserver(effectiveRoot);
+    this.ensureWatch(key, target, effectiveRoot);
+    this.observeShadowScopes();
+    this.waitForHostUpgrades(target.selector);
+  }
+
+  /**
+   * Hold a change until the changes it depends on have been applied. Once the last
+   * dependency resolves, the change is applied right away or, if its element is not
+   * there yet, waits like any other pending change.
+   */
+  addBlocked(pendingChange: PendingChange, waitingFor: string[]): void {
+    if (this.debug) {
+      logDebug('[ABsmartly] Holding change until dependencies are applied:', {
+        selector: pendingChange.change.selector,
+        waitingFor,
+      });
+    }
+    this.blocked.push({ pending: pendingChange, waitingFor: new Set(waitingFor) });
+  }
+
+  /**
+   * Mark a change id as applied and release the changes that were waiting for it
+   */
+  resolveDependency(experimentName: string, id: string): void {
+    const released: PendingChange[] = [];
+
+    this.blocked = this.blocked.filter(entry => {
+      if (entry.pending.experimentName !== experimentName) return true;
+      entry.waitingFor.delete(id);
+      if (entry.waitingFor.size === 0) {
+        released.push(entry.pending);
+        return false;
+      }
+      return true;
+    });
+
+    for (const pending of released) {
+      const { change } = pending;
+      // Run the full apply path: dependents usually target what the dependency just
+      // created, so they typically apply immediately
+      const success = this.applyFn(change, experimentName);
+      if (!success) {
+        this.addPending(pending);
+      } else if (change.id && !this.isPending(change, experimentName)) {
+        this.resolveDependency(experimentName, change.id);
+      }
+    }
+  }
+
+  isPending(change: DOMChange, experimentName: string): boolean {
+    for (const list of this.pending.values()) {
+      if (list.some(p => p.change === change && p.experimentName === experimentName)) {
+        return true;
+      }
+    }
+    return this.blocked.some(
+      entry => entry.pending.change === change && entry.pending.experimentName === experimentName
+    );
   }
 
   removePending(selector: string, experimentName: string, observerRoot?: string): void {
@@ -71,8 +140,7 @@ export class PendingChangeManager {
       }
     }
 
-    // Check if we should disconnect observer
-    this.checkObserverCleanup(observerRoot);
+    this.cleanupWatches();
   }
 
   removeAllPending(experimentName: string): void {
@@ -86,110 +154,123 @@ export class PendingChangeManager {
       }
     }
 
-    // Clean up observers if needed
-    this.cleanupObservers();
+    this.blocked = this.blocked.filter(entry => entry.pending.experimentName !== experimentName);
+
+    // Forget what was applied so the changes can be picked up again after a revert
+    this.appliedChanges.delete(experimentName);
+
+    this.cleanupWatches();
   }
 
-  private ensureObserver(observerRoot?: string): void {
-    const rootKey = observerRoot || 'document';
+  /**
+   * Drop the pending and blocked changes of every experiment
+   */
+  removeAll(): void {
+    this.pending.clear();
+    this.blocked = [];
+    this.appliedChanges.clear();
+    this.cleanupWatches();
+  }
 
-    if (this.observers.has(rootKey)) {
+  /**
+   * Watch for the element a group of pending changes waits for. Elements outside the
+   * observer root are ignored.
+   */
+  private ensureWatch(
+    key: string,
+    target: { selector: string; selectorType?: SelectorType },
+    observerRoot?: string
+  ): void {
+    if (this.watches.has(key)) {
       return;
     }
 
-    const root = this.getObserverRoot(observerRoot);
-
-    const observer = new MutationObserver(mutations => {
-      this.handleMutations(mutations, observerRoot);
-    });
-
-    observer.observe(root, {
-      childList: true,
-      subtree: true,
+    const stop = this.hub.watch({
+      ...target,
+      root: observerRoot ? this.getObserverRoot(observerRoot) : undefined,
+      onAdded: elements => {
+        for (const pending of [...(this.pending.get(key) || [])]) {
+          for (const element of elements) {
+            this.applyChange(element, pending);
+          }
+        }
+        // Hosts rendered by the added nodes may have brought new shadow roots to watch
+        this.observeShadowScopes();
+      },
     });
-
-    this.observers.set(rootKey, observer);
+    this.watches.set(key, stop);
 
     if (this.debug) {
-      logDebug('[ABsmartly] Started observer for root:', rootKey);
+      logDebug('[ABsmartly] Watching for pending selector:', key);
     }
   }
 
-  private handleMutations(mutations: MutationRecord[], observerRoot?: string): void {
-    const work: Array<() => void> = [];
-
-    for (const mutation of mutations) {
-      for (const node of mutation.addedNodes) {
-        if (!(node instanceof Element)) continue;
-
-        // Check all pending selectors for this root
-        const rootKey = observerRoot || 'document';
-        for (const [key, pendingList] of this.pending.entries()) {
-          if (!key.endsWith(`-${rootKey}`)) continue;
-
-          for (const pending of pendingList) {
-            const { change } = pending;
-
-            // Check if node matches selector
-            if (node.matches(change.selector)) {
-              work.push(() => this.applyChange(node, pending));
-              continue;
-            }
-
-            // Check descendants
-            const found = node.querySelectorAll(change.selector);
-            for (const el of found) {
-              work.push(() => this.applyChange(el, pending));
-            }
-          }
+  /**
+   * Observe the open shadow roots that pending shadow-piercing selectors pass through.
+   * Mutations inside a shadow root are not reported to observers of the document.
+   */
+  private observeShadowScopes(): void {
+    for (const pendingList of this.pending.values()) {
+      for (const pending of pendingList) {
+        const { selector } = this.getWatchTarget(pending.change);
+        if (!selector.includes('>>>')) continue;
+
+        for (const shadowRoot of SelectorEngine.getShadowScopes(selector)) {
+          this.hub.observe(shadowRoot);
         }
       }
     }
+  }
 
-    // Batch the work
-    if (work.length > 0) {
-      // Use requestAnimationFrame instead of setTimeout to avoid timing issues with
-      // jsdom's MutationObserver in test environments. The original 32ms setTimeout
-      // batch delay caused hangs when combined with jsdom's async MutationObserver callbacks.
-      if (typeof requestAnimationFrame !== 'undefined') {
-        // Process using requestAnimationFrame for proper frame-based batching
-        requestAnimationFrame(() => {
-          this.processBatchedWork();
-        });
-        for (const fn of work) {
-          this.batchedWork.add(fn);
-        }
-      } else {
-        // Fallback for non-browser environments: process immediately
-        for (const fn of work) {
-          fn();
-        }
-      }
+  /**
+   * Hosts of undefined custom elements get their shadow root when the element is
+   * upgraded, which no MutationObserver reports. Re-check pending changes once it happens.
+   */
+  private waitForHostUpgrades(selector: string): void {
+    if (typeof customElements === 'undefined') {
+      return;
+    }
+
+    const hostSelectors = selector.split('>>>').slice(0, -1);
+    for (const hostSelector of hostSelectors) {
+      const tag = /^\s*([a-z][a-z0-9]*-[a-z0-9-]*)/i.exec(hostSelector)?.[1].toLowerCase();
+      if (!tag || customElements.get(tag) || this.upgradeWaits.has(tag)) continue;
+
+      this.upgradeWaits.add(tag);
+      customElements.whenDefined(tag).then(() => {
+        this.upgradeWaits.delete(tag);
+        this.recheckPending();
+      });
     }
   }
 
-  private processBatchedWork(): void {
-    const work = Array.from(this.batchedWork);
-    this.batchedWork.clear();
-    this.batchTimer = null;
+  private recheckPending(): void {
+    const work: Array<() => void> = [];
 
-    if (this.debug && work.length > 0) {
-      logDebug('[ABsmartly] Processing batched work:', work.length, 'items');
+    for (const pendingList of this.pending.values()) {
+      for (const pending of pendingList) {
+        const { selector, selectorType } = this.getWatchTarget(pending.change);
+        const root = this.getObserverRoot(pending.observerRoot);
+        const element = SelectorEngine.querySelector(selector, selectorType, root);
+        if (element) {
+          work.push(() => this.applyChange(element, pending));
+        }
+      }
     }
 
-    // Apply all changes
     for (const fn of work) {
       fn();
     }
+    this.observeShadowScopes();
   }
 
-  private applyChange(element: Element, pendingChange: PendingChange): void {
+  private applyChange(element: Element, pendingChange: PendingChange): boolean {
     const { change, experimentName, observerRoot } = pendingChange;
-    const key = `${change.selector}-${observerRoot || 'document'}-${experimentName}`;
+    const applied = this.appliedChanges.get(experimentName) || new Set<DOMChange>();
 
-    // Skip if already applied
-    if (this.appliedSelectors.has(key)) {
-      return;
+    // Skip if already applied. Other changes of the experiment on the same element still apply.
+    if (applied.has(change)) {
+      return true;
     }
 
     if (this.debug) {
@@ -201,14 +282,15 @@ export class PendingChangeManager {
 
     if (success) {
       // Mark as applied
-      this.appliedSelectors.add(key);
+      applied.add(change);
+      this.appliedChanges.set(experimentName, applied);
 
       // Remove from pending
-      const pendingKey = `${change.selector}-${observerRoot || 'document'}`;
+      const pendingKey = `${this.getWatchSelector(change)}-${observerRoot || 'document'}`;
       const list = this.pending.get(pendingKey);
       if (list) {
         const filtered = list.filter(
-          p => p.experimentName !== experimentName || p.change.selector !== change.selector
+          p => p.experimentName !== experimentName || p.change !== change
         );
 
         if (filtered.length === 0) {
@@ -218,9 +300,40 @@ export class PendingChangeManager {
         }
       }
 
-      // Check if observer should be cleaned up
-      this.checkObserverCleanup(observerRoot);
+      this.cleanupWatches();
+
+      if (change.id) {
+        this.resolveDependency(experimentName, change.id);
+      }
     }
+
+    return success;
+  }
+
+  /**
+   * Element a pending change waits for: a create waits for its (CSS) target, shadow-scoped
+   * stylesheet changes for their host
+   */
+  private getWatchTarget(change: DOMChange): { selector: string; selectorType?: SelectorType } {
+    if (change.type === 'create') {
+      return { selector: SelectorEngine.scope(change.targetSelector || '', change.shadowHost) };
+    }
+    if (change.type === 'styleRules' || change.type === 'cssVariables') {
+      // Shadow-scoped style rules wait for their host to render a shadow root
+      return { selector: change.shadowHost || '' };
+    }
+    return {
+      selector: SelectorEngine.scope(change.selector, change.shadowHost),
+      selectorType: change.selectorType,
+    };
+  }
+
+  /**
+   * Key of the element a pending change waits for, used to group and dedupe pending changes
+   */
+  private getWatchSelector(change: DOMChange): string {
+    const { selector, selectorType } = this.getWatchTarget(change);
+    return SelectorEngine.toKey(selector, selectorType);
   }
 
   private getObserverRoot(observerRoot?: string): Element {
@@ -237,80 +350,34 @@ export class PendingChangeManager {
     return root;
   }
 
-  private checkObserverCleanup(observerRoot?: string): void {
-    const rootKey = observerRoot || 'document';
-
-    // Check if there are any pending changes for this root
-    let hasPending = false;
-    for (const key of this.pending.keys()) {
-      if (key.endsWith(`-${rootKey}`)) {
-        hasPending = true;
-        break;
-      }
-    }
-
-    // Disconnect observer if no pending changes
-    if (!hasPending) {
-      const observer = this.observers.get(rootKey);
-      if (observer) {
-        observer.disconnect();
-        this.observers.delete(rootKey);
-
-        if (this.debug) {
-          logDebug('[ABsmartly] Disconnected observer for root:', rootKey);
-        }
-      }
-    }
-  }
-
-  private cleanupObservers(): void {
-    // Check each observer
-    const rootsToClean: string[] = [];
-
-    for (const rootKey of this.observers.keys()) {
-      let hasPending = false;
-      for (const key of this.pending.keys()) {
-        if (key.endsWith(`-${rootKey}`)) {
-          hasPending = true;
-          break;
-        }
-      }
-
-      if (!hasPending) {
-        rootsToClean.push(rootKey);
-      }
-    }
-
-    // Clean up observers with no pending changes
-    for (const rootKey of rootsToClean) {
-      const observer = this.observers.get(rootKey);
-      if (observer) {
-        observer.disconnect();
-        this.observers.delete(rootKey);
+  /**
+   * Stop watching for selectors that no change waits for anymore
+   */
+  private cleanupWatches(): void {
+    for (const [key, stop] of this.watches) {
+      if (!this.pending.has(key)) {
+        stop();
+        this.watches.delete(key);
 
         if (this.debug) {
-          logDebug('[ABsmartly] Cleaned up observer for root:', rootKey);
+          logDebug('[ABsmartly] Stopped watching pending selector:', key);
         }
       }
     }
   }
 
   destroy(): void {
-    // Clear batch timer
-    if (this.batchTimer) {
-      clearTimeout(this.batchTimer);
-      this.batchTimer = null;
+    for (const stop of this.watches.values()) {
+      stop();
     }
-
-    // Disconnect all observers
-    for (const observer of this.observers.values()) {
-      observer.disconnect();
+    if (this.ownsHub) {
+      this.hub.destroy();
     }
 
-    this.observers.clear();
+    this.watches.clear();
     this.pending.clear();
-    this.appliedSelectors.clear();
-    this.batchedWork.clear();
+    this.blocked = [];
+    this.appliedChanges.clear();
 
     if (this.debug) {
       logDebug('[ABsmartly] PendingChangeManager destroyed');
@@ -326,7 +393,11 @@ export class PendingChangeManager {
   }
 
   getAppliedCount(): number {
-    return this.appliedSelectors.size;
+    let count = 0;
+    for (const applied of this.appliedChanges.values()) {
+      count += applied.size;
+    }
+    return count;
   }
 
   hasPendingForExperiment(experimentName: string): boolean {
@@ -1,12 +1,21 @@
 import { logDebug } from '../utils/debug';
+import { applyCSPNonce } from '../utils/cspNonce';
+
+// 'shadow' sheets render only into the shadow roots they were adopted into
+export type StyleSheetScope = 'document' | 'shadow';
+
 export class StyleSheetManager {
   private styleEl: HTMLStyleElement | null = null;
+  private shadowStyleEls = new Map<ShadowRoot, HTMLStyleElement>();
   private rules = new Map<string, string>(); // ruleKey -> css text
+  private headObserver: MutationObserver | null = null;
   private debug: boolean;
 
   constructor(
     private id: string,
-    debug = false
+    debug = false,
+    private scope: StyleSheetScope = 'document',
+    private nonce = ''
   ) {
     this.debug = debug;
   }
@@ -19,6 +28,7 @@ export class StyleSheetManager {
         const el = document.createElement('style');
         el.id = this.id;
         el.setAttribute('data-absmartly-styles', 'true');
+        applyCSPNonce(el, this.nonce);
         document.head.appendChild(el);
         this.styleEl = el;
 
@@ -30,6 +40,49 @@ export class StyleSheetManager {
     return this.styleEl;
   }
 
+  /**
+   * Render the rules inside a shadow root too, so they apply to its content
+   */
+  adoptInto(shadowRoot: ShadowRoot): void {
+    const existing = this.shadowStyleEls.get(shadowRoot);
+    if (existing && shadowRoot.contains(existing)) {
+      return;
+    }
+
+    const el = document.createElement('style');
+    el.id = this.id;
+    el.setAttribute('data-absmartly-styles', 'true');
+    el.textContent = this.getCssText();
+    applyCSPNonce(el, this.nonce);
+    shadowRoot.appendChild(el);
+    this.shadowStyleEls.set(shadowRoot, el);
+
+    if (this.debug) {
+      logDebug(`[ABsmartly] Adopted stylesheet ${this.id} into shadow root of`, shadowRoot.host);
+    }
+  }
+
+  /**
+   * Put the stylesheet back whenever something removes it from the head, as some SPA routers
+   * and head managers do on navigation
+   */
+  persist(): void {
+    if (this.scope !== 'document' || this.headObserver) {
+      return;
+    }
+
+    this.headObserver = new MutationObserver(() => {
+      if (this.rules.size > 0 && this.styleEl && !document.head.contains(this.styleEl)) {
+        this.render();
+
+        if (this.debug) {
+          logDebug(`[ABsmartly] Restored removed stylesheet: ${this.id}`);
+        }
+      }
+    });
+    this.headObserver.observe(document.head, { childList: true });
+  }
+
   setRule(key: string, css: string): void {
     this.rules.set(key, css);
     this.render();
@@ -67,7 +120,16 @@ export class StyleSheetManager {
   }
 
   destroy(): void {
+    if (this.headObserver) {
+      this.headObserver.disconnect();
+      this.headObserver = null;
+    }
     this.clear();
+    for (const el of this.shadowStyleEls.values()) {
+      el.remove();
+    }
+    this.shadowStyleEls.clear();
+
     if (this.styleEl && document.head.contains(this.styleEl)) {
       this.styleEl.remove();
       this.styleEl = null;
@@ -79,9 +141,13 @@ export class StyleSheetManager {
   }
 
   private render(): void {
-    const el = this.ensure();
     const cssText = Array.from(this.rules.values()).join('\n\n');
-    el.textContent = cssText;
+    if (this.scope === 'document') {
+      this.ensure().textContent = cssText;
+    }
+    for (const el of this.shadowStyleEls.values()) {
+      el.textContent = cssText;
+    }
   }
 
   getRulesCount(): number {
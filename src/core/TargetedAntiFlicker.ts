@@ -0,0 +1,124 @@
+import type { DOMChange } from '../types';
+import { logDebug } from '../utils/debug';
+import { StyleSheetManager } from './StyleSheetManager';
+
+/**
+ * Element a change needs hidden until it is applied, for `hideUntilReady: 'auto'`. Only
+ * changes to existing elements found by a document CSS selector qualify: created elements and
+ * stylesheet changes don't show stale content, and XPath, text or shadow-scoped selectors
+ * can't be hidden from a document stylesheet.
+ */
+export function getHideSelector(change: DOMChange): string | null {
+  if (change.enabled === false || change.shadowHost || !change.selector) {
+    return null;
+  }
+  if (change.selectorType && change.selectorType !== 'css') {
+    return null;
+  }
+  if (change.type === 'create' || change.type === 'styleRules' || change.type === 'cssVariables') {
+    return null;
+  }
+  // Viewport-triggered deletes wait for exposure, so hiding them would hide them for good
+  if (change.type === 'delete' && change.trigger_on_view) {
+    return null;
+  }
+  return change.selector;
+}
+
+/**
+ * Anti-flicker for `hideUntilReady: 'auto'`: hides only the elements targeted by the
+ * visitor's variant changes, one rule per selector, and reveals each selector as soon as
+ * every experiment that hid it is done with it.
+ */
+export class TargetedAntiFlicker {
+  private sheet: StyleSheetManager;
+  private hidden = new Map<string, Set<string>>(); // selector -> experiments holding it
+
+  constructor(
+    styleId: string,
+    private transition: string | false,
+    private debug = false,
+    nonce = ''
+  ) {
+    this.sheet = new StyleSheetManager(styleId, false, 'document', nonce);
+  }
+
+  hide(experimentName: string, selectors: string[]): void {
+    for (const selector of selectors) {
+      let experiments = this.hidden.get(selector);
+      if (!experiments) {
+        experiments = new Set();
+        this.hidden.set(selector, experiments);
+        const declarations = this.transition
+          ? 'visibility: hidden !important; opacity: 0 !important;'
+          : 'visibility: hidden !important;';
+        this.sheet.setRule(selector, `${selector} { ${declarations} }`);
+      }
+      experiments.add(experimentName);
+    }
+
+    if (this.debug && selectors.length > 0) {
+      logDebug(`[ABsmartly] Anti-flicker hiding targets of '${experimentName}'`, { selectors });
+    }
+  }
+
+  reveal(experimentName: string, selector: string): void {
+    const experiments = this.hidden.get(selector);
+    if (!experiments || !experiments.delete(experimentName) || experiments.size > 0) {
+      return;
+    }
+
+    this.hidden.delete(selector);
+    this.show(selector);
+
+    if (this.debug) {
+      logDebug(`[ABsmartly] Anti-flicker revealed '${selector}'`, { experimentName });
+    }
+  }
+
+  revealExperiment(experimentName: string): void {
+    for (const selector of this.getHiddenSelectors(experimentName)) {
+      this.reveal(experimentName, selector);
+    }
+  }
+
+  revealAll(): void {
+    for (const selector of Array.from(this.hidden.keys())) {
+      this.show(selector);
+    }
+    this.hidden.clear();
+  }
+
+  getHiddenSelectors(experimentName?: string): string[] {
+    return Array.from(this.hidden.entries())
+      .filter(([, experiments]) => !experimentName || experiments.has(experimentName))
+      .map(([selector]) => selector);
+  }
+
+  destroy(): void {
+    this.hidden.clear();
+    this.sheet.destroy();
+  }
+
+  private show(selector: string): void {
+    if (!this.transition) {
+      this.sheet.deleteRule(selector);
+      return;
+    }
+
+    // Same steps as the global anti-flicker: drop visibility, force a reflow, then fade in
+    const transition = `transition: opacity ${this.transition} !important;`;
+    this.sheet.setRule(selector, `${selector} { opacity: 0 !important; ${transition} }`);
+    void this.sheet.ensure().offsetHeight;
+    this.sheet.setRule(selector, `${selector} { opacity: 1 !important; ${transition} }`);
+
+    setTimeout(
+      () => {
+        if (!this.hidden.has(selector)) {
+          this.sheet.deleteRule(selector);
+        }
+      },
+      parseFloat(this.transition) * 1000
+    );
+  }
+}
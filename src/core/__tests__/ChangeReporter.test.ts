@@ -0,0 +1,95 @@
+import { ChangeReporter } from '../ChangeReporter';
+import { DOMChange } from '../../types';
+
+describe('ChangeReporter', () => {
+  let reporter: ChangeReporter;
+  const headline: DOMChange = { selector: '.headline', type: 'text', value: 'New', id: 'headline' };
+  const banner: DOMChange = {
+    selector: '',
+    type: 'create',
+    element: '<div class="banner"></div>',
+    targetSelector: '.hero',
+  };
+
+  beforeEach(() => {
+    reporter = new ChangeReporter();
+  });
+
+  it('should list the variant changes as pending when an experiment starts', () => {
+    reporter.startExperiment('exp', 1, true, [headline, banner]);
+
+    const report = reporter.getExperimentReport('exp')!;
+    expect(report).toMatchObject({ experimentName: 'exp', variant: 1, urlMatches: true });
+    expect(report.changes).toEqual([
+      expect.objectContaining({ id: 'headline', selector: '.headline', status: 'pending' }),
+      expect.objectContaining({ type: 'create', selector: '.hero', status: 'pending' }),
+    ]);
+  });
+
+  it('should list changes as skipped when the URL does not match', () => {
+    reporter.startExperiment('exp', 1, false, [headline]);
+
+    expect(reporter.getExperimentReport('exp')!.changes[0].status).toBe('skipped-url');
+  });
+
+  it('should record outcomes and return the entry only when it changed', () => {
+    reporter.startExperiment('exp', 1, true, [headline]);
+
+    expect(
+      reporter.record('exp', headline, { status: 'applied', elementCount: 2, duration: 3 })
+    ).toMatchObject({ status: 'applied', elementCount: 2 });
+    expect(
+      reporter.record('exp', headline, { status: 'applied', elementCount: 2, duration: 1 })
+    ).toBeNull();
+
+    expect(reporter.getExperimentReport('exp')!.changes[0]).toMatchObject({
+      status: 'applied',
+      elementCount: 2,
+      duration: 1,
+    });
+  });
+
+  it('should keep the last error and add elements applied one by one', () => {
+    reporter.startExperiment('exp', 1, true, [headline]);
+
+    reporter.record('exp', headline, { status: 'failed', error: 'No elements found' });
+    reporter.record('exp', headline, { status: 'applied', addedElements: 1 });
+    reporter.record('exp', headline, { status: 'applied', addedElements: 1 });
+
+    expect(reporter.getExperimentReport('exp')!.changes[0]).toMatchObject({
+      status: 'applied',
+      elementCount: 2,
+      lastError: 'No elements found',
+    });
+  });
+
+  it('should add changes and experiments it has not seen', () => {
+    reporter.record('adhoc', headline, { status: 'applied', elementCount: 1 }, 2);
+
+    const report = reporter.getExperimentReport('adhoc')!;
+    expect(report.variant).toBe(2);
+    expect(report.changes).toHaveLength(1);
+  });
+
+  it('should mark applied and pending changes as reverted', () => {
+    reporter.startExperiment('exp', 1, true, [headline, banner]);
+    reporter.record('exp', headline, { status: 'applied', elementCount: 1 });
+    reporter.record('exp', banner, { status: 'failed', error: 'Create target not found' });
+
+    expect(reporter.markReverted('exp')).toBe(true);
+    expect(reporter.markReverted('unknown')).toBe(false);
+
+    const [headlineReport, bannerReport] = reporter.getExperimentReport('exp')!.changes;
+    expect(headlineReport).toMatchObject({ status: 'reverted', elementCount: 0 });
+    expect(bannerReport.status).toBe('failed');
+  });
+
+  it('should return snapshots', () => {
+    reporter.startExperiment('exp', 1, true, [headline]);
+    const before = reporter.getExperimentReport('exp')!;
+
+    reporter.record('exp', headline, { status: 'applied', elementCount: 1 });
+
+    expect(before.changes[0].status).toBe('pending');
+  });
+});
@@ -0,0 +1,201 @@
+import { DOMChangesPluginLite } from '../DOMChangesPluginLite';
+import { createTreatmentTracker } from '../../__tests__/sdk-helper';
+import { DOMChange, ExperimentData } from '../../types';
+
+type ChangeListener = () => void;
+
+// The IntersectionObserver mock from the test setup
+type MockObserver = IntersectionObserver & {
+  callback: IntersectionObserverCallback;
+  observe: jest.Mock;
+};
+
+describe('DOMChangesPluginLite - Conditional Changes', () => {
+  let plugin: DOMChangesPluginLite;
+  let matching: Set<string>;
+  let listeners: Map<string, Set<ChangeListener>>;
+
+  function setMatching(queries: string[]): void {
+    const previous = matching;
+    matching = new Set(queries);
+    listeners.forEach((set, query) => {
+      if (previous.has(query) !== matching.has(query)) {
+        set.forEach(listener => listener());
+      }
+    });
+  }
+
+  function createExperiment(changes: DOMChange[]): ExperimentData {
+    return {
+      name: 'conditions_test',
+      variants: [{ variables: { __dom_changes: [] } }, { variables: { __dom_changes: changes } }],
+    };
+  }
+
+  beforeEach(() => {
+    document.body.innerHTML = '<h1 class="title">Title</h1><p class="promo">Promo</p>';
+    matching = new Set();
+    listeners = new Map();
+
+    Object.defineProperty(window, 'matchMedia', {
+      configurable: true,
+      value: jest.fn((query: string) => ({
+        media: query,
+        get matches() {
+          return matching.has(query);
+        },
+        addEventListener: (_type: string, listener: ChangeListener) => {
+          if (!listeners.has(query)) listeners.set(query, new Set());
+          listeners.get(query)!.add(listener);
+        },
+        removeEventListener: (_type: string, listener: ChangeListener) => {
+          listeners.get(query)?.delete(listener);
+        },
+      })),
+    });
+  });
+
+  afterEach(() => {
+    plugin?.destroy();
+    delete (window as { matchMedia?: unknown }).matchMedia;
+  });
+
+  it('should apply changes only while their media query matches', async () => {
+    matching = new Set(['(max-width: 767px)']);
+    const { mockContext } = createTreatmentTracker(
+      [
+        createExperiment([
+          { selector: '.title', type: 'text', value: 'Mobile', conditions: { maxWidth: 767 } },
+          { selector: '.promo', type: 'text', value: 'Always' },
+        ]),
+      ],
+      { conditions_test: 1 }
+    );
+
+    plugin = new DOMChangesPluginLite({ context: mockContext, autoApply: true, spa: false });
+    await plugin.ready();
+
+    expect(document.querySelector('.title')?.textContent).toBe('Mobile');
+    expect(document.querySelector('.promo')?.textContent).toBe('Always');
+
+    setMatching([]);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(document.querySelector('.title')?.textContent).toBe('Title');
+    expect(document.querySelector('.promo')?.textContent).toBe('Always');
+    expect(plugin.getReport().experiments.conditions_test.changes.map(c => c.status)).toEqual([
+      'skipped-condition',
+      'applied',
+    ]);
+
+    setMatching(['(max-width: 767px)']);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(document.querySelector('.title')?.textContent).toBe('Mobile');
+  });
+
+  it('should check context attributes', async () => {
+    const { mockContext } = createTreatmentTracker(
+      [
+        createExperiment([
+          {
+            selector: '.title',
+            type: 'text',
+            value: 'Pro',
+            conditions: { attributes: { plan: ['pro', 'team'] } },
+          },
+          {
+            selector: '.promo',
+            type: 'text',
+            value: 'Free',
+            conditions: { attributes: { plan: 'free' } },
+          },
+        ]),
+      ],
+      { conditions_test: 1 }
+    );
+    mockContext.attribute('plan', 'pro');
+
+    plugin = new DOMChangesPluginLite({ context: mockContext, autoApply: true, spa: false });
+    await plugin.ready();
+
+    expect(document.querySelector('.title')?.textContent).toBe('Pro');
+    expect(document.querySelector('.promo')?.textContent).toBe('Promo');
+    expect(plugin.getReport().experiments.conditions_test.changes.map(c => c.status)).toEqual([
+      'applied',
+      'skipped-condition',
+    ]);
+  });
+
+  it('should stop watching media queries when changes are removed', async () => {
+    const { mockContext } = createTreatmentTracker(
+      [
+        createExperiment([
+          { selector: '.title', type: 'text', value: 'Print', conditions: { media: 'print' } },
+        ]),
+      ],
+      { conditions_test: 1 }
+    );
+
+    plugin = new DOMChangesPluginLite({ context: mockContext, autoApply: true, spa: false });
+    await plugin.ready();
+    expect(listeners.get('print')?.size).toBe(1);
+
+    plugin.removeChanges('conditions_test');
+
+    expect(listeners.get('print')?.size).toBe(0);
+  });
+
+  it('should not track visible goals again when a media query change re-applies', async () => {
+    const OriginalObserver = global.IntersectionObserver;
+    const observers: MockObserver[] = [];
+    global.IntersectionObserver = jest.fn((callback: IntersectionObserverCallback) => {
+      const observer = new OriginalObserver(callback) as MockObserver;
+      observers.push(observer);
+      return observer;
+    }) as unknown as typeof IntersectionObserver;
+    const experiment: ExperimentData = {
+      name: 'conditions_test',
+      variants: [
+        {
+          variables: {
+            __dom_changes: {
+              changes: [
+                {
+                  selector: '.title',
+                  type: 'text',
+                  value: 'Mobile',
+                  conditions: { maxWidth: 767 },
+                },
+              ],
+              goals: [{ selector: '.promo', event: 'visible', goal: 'promo_seen' }],
+            },
+          },
+        },
+      ],
+    };
+    const { mockContext } = createTreatmentTracker([experiment], { conditions_test: 0 });
+    const track = jest.spyOn(mockContext, 'track');
+
+    try {
+      plugin = new DOMChangesPluginLite({ context: mockContext, autoApply: true, spa: false });
+      await plugin.ready();
+      const promo = document.querySelector('.promo')!;
+      const observesPromo = (observer: MockObserver) =>
+        observer.observe.mock.calls.some(call => call[0] === promo);
+      const [goalObserver] = observers.filter(observesPromo);
+      const entry = { isIntersecting: true, target: promo } as IntersectionObserverEntry;
+      goalObserver.callback([entry], goalObserver);
+      expect(track).toHaveBeenCalledTimes(1);
+
+      setMatching(['(max-width: 767px)']);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(document.querySelector('.title')?.textContent).toBe('Mobile');
+      expect(observers.filter(observer => observesPromo(observer))).toEqual([goalObserver]);
+      expect(track).toHaveBeenCalledTimes(1);
+    } finally {
+      global.IntersectionObserver = OriginalObserver;
+    }
+  });
+});
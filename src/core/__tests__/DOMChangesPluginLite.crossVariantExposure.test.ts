@@ -2816,6 +2816,70 @@ describe('DOMChangesPluginLite - Comprehensive Cross-Variant Exposure Tracking',
         });
       });
 
+      describe('6D1b: Reverting a delete with viewport trigger', () => {
+        const experiment: ExperimentData = {
+          name: 'test_6d1b_delete_revert',
+          variants: [
+            { variables: {} },
+            {
+              variables: {
+                __dom_changes: [{ selector: '.target', type: 'delete', trigger_on_view: true }],
+              },
+            },
+          ],
+        };
+
+        it('user in v1 - should re-insert the element and drop the placeholder', async () => {
+          const { mockContext, treatmentSpy } = createTreatmentTracker([experiment], {
+            test_6d1b_delete_revert: 1,
+          });
+          document.body.innerHTML = '<p>Before</p><div class="target">Deleted</div><p>After</p>';
+
+          plugin = new DOMChangesPluginLite({
+            context: mockContext,
+            autoApply: true,
+            spa: false,
+            visibilityTracking: true,
+          });
+          await plugin.ready();
+          expect(document.querySelector('.target')).toBeNull();
+
+          plugin.removeChanges('test_6d1b_delete_revert');
+
+          expect(document.body.innerHTML).toBe(
+            '<p>Before</p><div class="target">Deleted</div><p>After</p>'
+          );
+          expect(treatmentSpy).not.toHaveBeenCalled();
+        });
+
+        it('user in v1 - should re-insert the element after exposure on removeAllChanges', async () => {
+          const { mockContext, treatmentSpy } = createTreatmentTracker([experiment], {
+            test_6d1b_delete_revert: 1,
+          });
+          document.body.innerHTML = '<p>Before</p><div class="target">Deleted</div><p>After</p>';
+
+          plugin = new DOMChangesPluginLite({
+            context: mockContext,
+            autoApply: true,
+            spa: false,
+            visibilityTracking: true,
+          });
+          await plugin.ready();
+          await triggerIntersection(
+            document.querySelector('[data-absmartly-delete-placeholder="true"]')!,
+            true
+          );
+          expect(treatmentSpy).toHaveBeenCalledTimes(1);
+          expect(document.querySelector('.target')).toBeNull();
+
+          await plugin.removeAllChanges();
+
+          expect(document.body.innerHTML).toBe(
+            '<p>Before</p><div class="target">Deleted</div><p>After</p>'
+          );
+        });
+      });
+
       describe('6D2: Delete with viewport trigger - element exists but never visible', () => {
         it('user in v0 - should NOT trigger (element never visible)', async () => {
           const experiment: ExperimentData = {
@@ -0,0 +1,202 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { DOMChangesPluginLite } from '../DOMChangesPluginLite';
+import { createTreatmentTracker } from '../../__tests__/sdk-helper';
+import { DOMChangesConfig, ExperimentData } from '../../types';
+
+describe('DOMChangesPluginLite - Goals', () => {
+  let plugin: DOMChangesPluginLite;
+  const originalLocation = window.location;
+  const originalPushState = history.pushState;
+
+  function createExperiment(name: string, variants: DOMChangesConfig[]): ExperimentData {
+    return {
+      name,
+      variants: variants.map(config => ({ variables: { __dom_changes: config } })),
+    };
+  }
+
+  function setTestURL(url: string): void {
+    delete (window as any).location;
+    window.location = { href: url } as any;
+  }
+
+  function click(selector: string): void {
+    (document.querySelector(selector) as HTMLElement).click();
+  }
+
+  beforeEach(() => {
+    setTestURL('https://example.com/pricing');
+    history.pushState = jest.fn((_data, _title, url) => {
+      if (url) {
+        window.location = { href: url } as any;
+      }
+    });
+    document.body.innerHTML = '<main class="plans"><button class="buy">Buy</button></main>';
+  });
+
+  afterEach(() => {
+    plugin?.destroy();
+    history.pushState = originalPushState;
+    window.location = originalLocation as any;
+  });
+
+  const pricingExperiment = () =>
+    createExperiment('pricing_cta', [
+      { changes: [], goals: [{ selector: '.buy', event: 'click', goal: 'control_buy' }] },
+      {
+        urlFilter: '/pricing',
+        changes: [
+          {
+            selector: '',
+            type: 'create',
+            element: '<a class="trial">Start trial</a>',
+            targetSelector: '.plans',
+            position: 'lastChild',
+          },
+        ],
+        goals: [
+          {
+            selector: '.trial',
+            event: 'click',
+            goal: 'trial_click',
+            properties: { source: 'pricing' },
+          },
+        ],
+      },
+    ]);
+
+  it("should track goals on elements created by the visitor's variant", async () => {
+    const { mockContext } = createTreatmentTracker([pricingExperiment()], { pricing_cta: 1 });
+    const track = jest.spyOn(mockContext, 'track');
+    const tracked = jest.fn();
+
+    plugin = new DOMChangesPluginLite({ context: mockContext, autoApply: true, spa: false });
+    plugin.on('goal_tracked', tracked);
+    await plugin.ready();
+
+    click('.trial');
+    click('.buy');
+
+    expect(track).toHaveBeenCalledTimes(1);
+    expect(track).toHaveBeenCalledWith('trial_click', { source: 'pricing' });
+    expect(tracked).toHaveBeenCalledWith({
+      experimentName: 'pricing_cta',
+      goal: 'trial_click',
+      event: 'click',
+    });
+  });
+
+  it('should remove goal listeners when the changes are reverted', async () => {
+    const { mockContext } = createTreatmentTracker([pricingExperiment()], { pricing_cta: 0 });
+    const track = jest.spyOn(mockContext, 'track');
+
+    plugin = new DOMChangesPluginLite({ context: mockContext, autoApply: true, spa: false });
+    await plugin.ready();
+
+    click('.buy');
+    plugin.removeChanges('pricing_cta');
+    click('.buy');
+
+    expect(track.mock.calls).toEqual([['control_buy', undefined]]);
+  });
+
+  it("should bind goals only where the variant's urlFilter matches", async () => {
+    setTestURL('https://example.com/');
+    document.body.innerHTML =
+      '<main class="plans"><button class="buy">Buy</button><a class="trial">Trial</a></main>';
+    const { mockContext } = createTreatmentTracker([pricingExperiment()], { pricing_cta: 1 });
+    const track = jest.spyOn(mockContext, 'track');
+
+    plugin = new DOMChangesPluginLite({ context: mockContext, autoApply: true, spa: true });
+    await plugin.ready();
+
+    click('.trial');
+    expect(track).not.toHaveBeenCalled();
+
+    history.pushState({}, '', 'https://example.com/pricing');
+    await new Promise(resolve => setTimeout(resolve, 100));
+    click('.trial');
+    expect(track).toHaveBeenCalledTimes(1);
+
+    history.pushState({}, '', 'https://example.com/');
+    await new Promise(resolve => setTimeout(resolve, 100));
+    click('.trial');
+    expect(track).toHaveBeenCalledTimes(1);
+  });
+
+  it('should track visible goals once across re-applies, and again after a revert', async () => {
+    const OriginalObserver = global.IntersectionObserver;
+    const observers: any[] = [];
+    (global as any).IntersectionObserver = jest.fn((callback: IntersectionObserverCallback) => {
+      const observer = new OriginalObserver(callback);
+      observers.push(observer);
+      return observer;
+    });
+    // Observers that still watch the element, as disconnected ones no longer report
+    const showBuy = () => {
+      const buy = document.querySelector('.buy')!;
+      for (const observer of observers) {
+        const observed = observer.observe.mock.calls.some((call: any[]) => call[0] === buy);
+        if (observed && observer.disconnect.mock.calls.length === 0) {
+          observer.callback([{ isIntersecting: true, target: buy }], observer);
+        }
+      }
+    };
+    const experiment = createExperiment('seen', [
+      { goals: [{ selector: '.buy', event: 'visible', goal: 'buy_seen' }] },
+    ]);
+    const { mockContext } = createTreatmentTracker([experiment], { seen: 0 });
+    const track = jest.spyOn(mockContext, 'track');
+
+    try {
+      plugin = new DOMChangesPluginLite({ context: mockContext, autoApply: true, spa: false });
+      await plugin.ready();
+      showBuy();
+      expect(track).toHaveBeenCalledTimes(1);
+
+      await plugin.applyChanges('seen');
+      await plugin.applyChanges();
+      showBuy();
+      expect(track).toHaveBeenCalledTimes(1);
+
+      plugin.removeChanges('seen');
+      await plugin.applyChanges('seen');
+      showBuy();
+      expect(track).toHaveBeenCalledTimes(2);
+    } finally {
+      global.IntersectionObserver = OriginalObserver;
+    }
+  });
+
+  it('should bind goals of experiments without DOM changes', async () => {
+    const experiment = createExperiment('instrumented', [
+      { goals: [{ selector: '.buy', event: 'click', goal: 'buy_click' }] },
+    ]);
+    const { mockContext } = createTreatmentTracker([experiment], { instrumented: 0 });
+    const track = jest.spyOn(mockContext, 'track');
+
+    plugin = new DOMChangesPluginLite({ context: mockContext, autoApply: true, spa: false });
+    await plugin.ready();
+
+    click('.buy');
+
+    expect(track).toHaveBeenCalledWith('buy_click', undefined);
+  });
+
+  it('should not bind goals while a variant is previewed', async () => {
+    const { mockContext } = createTreatmentTracker([pricingExperiment()], { pricing_cta: 0 });
+    const track = jest.spyOn(mockContext, 'track');
+
+    plugin = new DOMChangesPluginLite({ context: mockContext, autoApply: true, spa: false });
+    await plugin.ready();
+
+    await plugin.previewVariant('pricing_cta', 1);
+    click('.buy');
+    click('.trial');
+    expect(track).not.toHaveBeenCalled();
+
+    await plugin.clearPreview();
+    click('.buy');
+    expect(track).toHaveBeenCalledWith('control_buy', undefined);
+  });
+});
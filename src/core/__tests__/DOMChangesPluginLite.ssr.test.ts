@@ -0,0 +1,83 @@
+import { DOMChangesPluginLite } from '../DOMChangesPluginLite';
+import { createTreatmentTracker } from '../../__tests__/sdk-helper';
+import { renderDOMChanges } from '../../ssr/renderDOMChanges';
+import { DOMChange, ExperimentData } from '../../types';
+
+describe('DOMChangesPluginLite - Server-Rendered Changes', () => {
+  let plugin: DOMChangesPluginLite;
+
+  const page = '<h1 class="title">Title</h1><ul class="list"><li>One</li></ul>';
+
+  const changes: DOMChange[] = [
+    { selector: '.title', type: 'text', value: 'Sale' },
+    {
+      selector: '',
+      type: 'create',
+      element: '<li class="new">Two</li>',
+      targetSelector: '.list',
+      position: 'lastChild',
+    },
+    { selector: '.title', type: 'text', value: 'Hi {{experiment.variant}}', enabled: false },
+  ];
+
+  function createExperiment(): ExperimentData {
+    return {
+      name: 'ssr_test',
+      variants: [{ variables: { __dom_changes: [] } }, { variables: { __dom_changes: changes } }],
+    };
+  }
+
+  afterEach(() => {
+    plugin?.destroy();
+    document.body.innerHTML = '';
+  });
+
+  it('should report server-rendered changes as applied without applying them again', async () => {
+    document.body.innerHTML = renderDOMChanges(page, { ssr_test: 1 }, [createExperiment()]);
+    const { mockContext, treatmentSpy } = createTreatmentTracker([createExperiment()], {
+      ssr_test: 1,
+    });
+    const applied = jest.fn();
+
+    plugin = new DOMChangesPluginLite({ context: mockContext, autoApply: false, spa: false });
+    plugin.on('change_applied', applied);
+    await plugin.ready();
+    await plugin.applyChanges();
+
+    expect(document.querySelector('.title')?.textContent).toBe('Sale');
+    expect(document.querySelectorAll('.list li.new')).toHaveLength(1);
+    expect(plugin.getReport().experiments.ssr_test.changes.map(c => c.status)).toEqual([
+      'applied',
+      'applied',
+      'skipped-disabled',
+    ]);
+    expect(applied).toHaveBeenCalledTimes(2);
+    expect(treatmentSpy).toHaveBeenCalledWith('ssr_test');
+  });
+
+  it('should apply the changes itself when the visitor is in another variant', async () => {
+    document.body.innerHTML = renderDOMChanges(page, { ssr_test: 0 }, [createExperiment()]);
+    const { mockContext } = createTreatmentTracker([createExperiment()], { ssr_test: 1 });
+
+    plugin = new DOMChangesPluginLite({ context: mockContext, autoApply: false, spa: false });
+    await plugin.ready();
+    await plugin.applyChanges();
+
+    expect(document.querySelector('.title')?.textContent).toBe('Sale');
+    expect(document.querySelectorAll('.list li.new')).toHaveLength(1);
+  });
+
+  it('should apply changes whose server output was replaced', async () => {
+    document.body.innerHTML = renderDOMChanges(page, { ssr_test: 1 }, [createExperiment()]);
+    // A framework re-render dropped the server-rendered title
+    document.querySelector('.title')!.outerHTML = '<h1 class="title">Title</h1>';
+    const { mockContext } = createTreatmentTracker([createExperiment()], { ssr_test: 1 });
+
+    plugin = new DOMChangesPluginLite({ context: mockContext, autoApply: false, spa: false });
+    await plugin.ready();
+    await plugin.applyChanges();
+
+    expect(document.querySelector('.title')?.textContent).toBe('Sale');
+    expect(document.querySelectorAll('.list li.new')).toHaveLength(1);
+  });
+});
@@ -1,7 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { DOMChangesPluginLite } from '../DOMChangesPluginLite';
 import { TestDataFactory, TestDOMUtils } from '../../__tests__/test-utils';
-import { createTestSDK, createTestContext } from '../../__tests__/sdk-helper';
+import { createTestSDK, createTestContext, createTestExperiment } from '../../__tests__/sdk-helper';
 import {
   createEmptyContextData,
   createContextDataWithExperiments,
@@ -113,25 +113,47 @@ describe('DOMChangesPluginLite', () => {
       expect((plugin as any).initialized).toBe(initializedState);
     });
 
-    it('should setup mutation observer when spa is enabled', async () => {
+    it('should watch applied changes for replaced elements when spa is enabled', async () => {
+      TestDOMUtils.createTestPage();
+      const experiment = TestDataFactory.createExperiment(
+        'spa_watch',
+        [TestDataFactory.createTextChange('.hero-title', 'Modified Title')],
+        1
+      );
       const sdk = createTestSDK();
-      const context = createTestContext(sdk, createEmptyContextData());
+      const context = createTestContext(
+        sdk,
+        createContextDataWithExperiments([experiment] as any),
+        'test-user',
+        extractVariantOverrides([experiment])
+      );
       const plugin = createPlugin({ context, spa: true });
 
       await plugin.ready();
 
-      expect((plugin as any).mutationObserver).not.toBeNull();
-      expect((plugin as any).mutationObserver).toBeInstanceOf(MutationObserver);
+      expect((plugin as any).reapplyWatches.get('spa_watch').size).toBe(1);
+      expect(plugin.getMutationHub().getWatchCount()).toBeGreaterThan(0);
     });
 
-    it('should not setup mutation observer when spa is disabled', async () => {
+    it('should not watch for replaced elements when spa is disabled', async () => {
+      TestDOMUtils.createTestPage();
+      const experiment = TestDataFactory.createExperiment(
+        'spa_watch',
+        [TestDataFactory.createTextChange('.hero-title', 'Modified Title')],
+        1
+      );
       const sdk = createTestSDK();
-      const context = createTestContext(sdk, createEmptyContextData());
+      const context = createTestContext(
+        sdk,
+        createContextDataWithExperiments([experiment] as any),
+        'test-user',
+        extractVariantOverrides([experiment])
+      );
       const plugin = createPlugin({ context, spa: false });
 
       await plugin.ready();
 
-      expect((plugin as any).mutationObserver).toBeNull();
+      expect((plugin as any).reapplyWatches.size).toBe(0);
     });
 
     it('should apply changes automatically when autoApply is true', async () => {
@@ -182,7 +204,7 @@ describe('DOMChangesPluginLite', () => {
 
       await plugin.ready();
 
-      expect(emitSpy).toHaveBeenCalledWith('initialized');
+      expect(emitSpy).toHaveBeenCalledWith('initialized', { version: BUILD_VERSION });
     });
   });
 
@@ -899,6 +921,44 @@ describe('DOMChangesPluginLite', () => {
     });
   });
 
+  describe('CSS Variables Changes', () => {
+    it('should keep the variables through SPA navigation', async () => {
+      const change: DOMChange = {
+        selector: '',
+        type: 'cssVariables',
+        value: { '--brand-color': '#e91e63' },
+      };
+      const experiment = TestDataFactory.createExperiment('theme_exp', [change], 1);
+      const sdk = createTestSDK();
+      const overrides = extractVariantOverrides([experiment]);
+      const context = createTestContext(
+        sdk,
+        createContextDataWithExperiments([experiment] as any),
+        'test-user',
+        overrides
+      );
+
+      const plugin = createPlugin({ context, spa: true });
+      await plugin.ready();
+
+      const readVariable = () =>
+        getComputedStyle(document.documentElement).getPropertyValue('--brand-color').trim();
+      expect(readVariable()).toBe('#e91e63');
+
+      history.pushState({}, '', '/pricing');
+      await TestDOMUtils.waitForAsync(50);
+      expect(readVariable()).toBe('#e91e63');
+
+      // A router swapping the head drops the stylesheet; it is put back
+      document.getElementById('absmartly-styles-theme_exp')?.remove();
+      await TestDOMUtils.waitForAsync(0);
+      expect(readVariable()).toBe('#e91e63');
+
+      plugin.removeChanges('theme_exp');
+      expect(readVariable()).toBe('');
+    });
+  });
+
   describe('Disabled Changes', () => {
     it('should skip disabled changes', async () => {
       TestDOMUtils.createTestPage();
@@ -1038,6 +1098,621 @@ describe('DOMChangesPluginLite', () => {
     });
   });
 
+  describe('removeChanges()', () => {
+    async function setup(changes: DOMChange[]) {
+      const experiment = TestDataFactory.createExperiment('revert_exp', changes, 1);
+      const sdk = createTestSDK();
+      const context = createTestContext(
+        sdk,
+        createContextDataWithExperiments([experiment] as any),
+        'test-user',
+        extractVariantOverrides([experiment])
+      );
+      const plugin = createPlugin({ context });
+      await plugin.ready();
+      return plugin;
+    }
+
+    it('should restore the original DOM and emit change_reverted', async () => {
+      document.body.innerHTML = '<h1 class="title" style="color: red;">Title</h1>';
+      const plugin = await setup([
+        TestDataFactory.createTextChange('.title', 'New Title'),
+        TestDataFactory.createStyleChange('.title', { color: 'blue' }),
+      ]);
+      const listener = jest.fn();
+      plugin.on('change_reverted', listener);
+
+      expect(document.querySelector('.title')?.textContent).toBe('New Title');
+
+      plugin.removeChanges('revert_exp');
+
+      expect(document.querySelector('.title')?.textContent).toBe('Title');
+      expect(document.querySelector('.title')?.getAttribute('style')).toBe('color: red;');
+      expect(plugin.hasChanges('revert_exp')).toBe(false);
+      expect(listener).toHaveBeenCalledWith({ experimentName: 'revert_exp', count: 2 });
+    });
+
+    it('should remove the experiment stylesheet', async () => {
+      document.body.innerHTML = '<button class="btn">Buy</button>';
+      const plugin = await setup([
+        { selector: '.btn', type: 'styleRules', states: { hover: { color: 'red' } } },
+      ]);
+
+      expect(document.getElementById('absmartly-styles-revert_exp')).not.toBeNull();
+
+      plugin.removeChanges('revert_exp');
+
+      expect(document.getElementById('absmartly-styles-revert_exp')).toBeNull();
+    });
+
+    it('should restore the original DOM on destroy()', async () => {
+      document.body.innerHTML = '<div class="box"><p class="gone">Gone</p></div>';
+      const plugin = await setup([{ selector: '.gone', type: 'delete' }]);
+
+      expect(document.querySelector('.gone')).toBeNull();
+
+      plugin.destroy();
+
+      expect(document.querySelector('.box .gone')?.textContent).toBe('Gone');
+    });
+  });
+
+  describe('previewVariant()', () => {
+    function createPreviewContext() {
+      const experiment = TestDataFactory.createMultiVariantExperiment('preview_exp', [
+        [],
+        [TestDataFactory.createTextChange('.headline', 'Variant 1')],
+        [
+          TestDataFactory.createTextChange('.headline', 'Variant 2'),
+          TestDataFactory.createClassChange('.headline', ['bold']),
+        ],
+      ]);
+      const sdk = createTestSDK();
+      return createTestContext(
+        sdk,
+        createContextDataWithExperiments([experiment] as any),
+        'test-user',
+        extractVariantOverrides([experiment])
+      );
+    }
+
+    it('should render a variant without triggering exposure', async () => {
+      document.body.innerHTML = '<h1 class="headline">Original</h1>';
+      const context = createPreviewContext();
+      const treatmentSpy = jest.spyOn(context, 'treatment');
+      const plugin = createPlugin({ context, autoApply: false });
+      await plugin.ready();
+
+      const result = await plugin.previewVariant('preview_exp', 2);
+
+      expect(result).toBe(true);
+      expect(document.querySelector('.headline')?.textContent).toBe('Variant 2');
+      expect(document.querySelector('.headline')?.classList.contains('bold')).toBe(true);
+      expect(treatmentSpy).not.toHaveBeenCalled();
+      expect((plugin as any).exposureTracker.experiments.has('preview_exp')).toBe(false);
+    });
+
+    it('should revert the previous preview when switching variants', async () => {
+      document.body.innerHTML = '<h1 class="headline">Original</h1>';
+      const plugin = createPlugin({ context: createPreviewContext(), autoApply: false });
+      await plugin.ready();
+
+      await plugin.previewVariant('preview_exp', 2);
+      await plugin.previewVariant('preview_exp', 1);
+
+      expect(document.querySelector('.headline')?.textContent).toBe('Variant 1');
+      expect(document.querySelector('.headline')?.classList.contains('bold')).toBe(false);
+
+      await plugin.previewVariant('preview_exp', 0);
+
+      expect(document.querySelector('.headline')?.textContent).toBe('Original');
+    });
+
+    it('should restore the assigned variant on clearPreview()', async () => {
+      document.body.innerHTML = '<h1 class="headline">Original</h1>';
+      const plugin = createPlugin({ context: createPreviewContext() });
+      await plugin.ready();
+
+      expect(document.querySelector('.headline')?.textContent).toBe('Variant 1');
+
+      await plugin.previewVariant('preview_exp', 2);
+      expect(document.querySelector('.headline')?.textContent).toBe('Variant 2');
+
+      await plugin.applyChanges();
+      expect(document.querySelector('.headline')?.textContent).toBe('Variant 2');
+
+      await plugin.clearPreview();
+
+      expect(document.querySelector('.headline')?.textContent).toBe('Variant 1');
+      expect(document.querySelector('.headline')?.classList.contains('bold')).toBe(false);
+    });
+
+    it('should return false for an unknown variant', async () => {
+      document.body.innerHTML = '<h1 class="headline">Original</h1>';
+      const plugin = createPlugin({ context: createPreviewContext(), autoApply: false });
+      await plugin.ready();
+
+      expect(await plugin.previewVariant('preview_exp', 5)).toBe(false);
+      expect(await plugin.previewVariant('missing_exp', 0)).toBe(false);
+      expect(document.querySelector('.headline')?.textContent).toBe('Original');
+    });
+  });
+
+  describe('Change Dependencies', () => {
+    function createDependencyContext(changes: DOMChange[]) {
+      const experiment = TestDataFactory.createExperiment('deps_exp', changes, 1);
+      const sdk = createTestSDK();
+      return createTestContext(
+        sdk,
+        createContextDataWithExperiments([experiment] as any),
+        'test-user',
+        extractVariantOverrides([experiment])
+      );
+    }
+
+    const promoCreate: DOMChange = {
+      id: 'promo',
+      selector: '',
+      type: 'create',
+      element: '<div class="promo">Promo</div>',
+      targetSelector: '.slot',
+      position: 'lastChild',
+    };
+    const promoStyle: DOMChange = {
+      selector: '.promo',
+      type: 'style',
+      value: { color: 'red' },
+      dependsOn: ['promo'],
+    };
+
+    it('should apply a change after the change it depends on, even when listed first', async () => {
+      document.body.innerHTML = '<div class="slot"></div>';
+      const plugin = createPlugin({ context: createDependencyContext([promoStyle, promoCreate]) });
+      await plugin.ready();
+
+      const promo = document.querySelector('.promo') as HTMLElement;
+      expect(promo).not.toBeNull();
+      expect(promo.style.color).toBe('red');
+    });
+
+    it('should hold dependents until a pending dependency is applied', async () => {
+      document.body.innerHTML = '<div class="container"></div>';
+      const plugin = createPlugin({
+        context: createDependencyContext([promoStyle, promoCreate]),
+        spa: true,
+      });
+      await plugin.ready();
+
+      expect(document.querySelector('.promo')).toBeNull();
+
+      document.querySelector('.container')!.innerHTML = '<div class="slot"></div>';
+      await TestDOMUtils.waitForAsync(50);
+
+      const promo = document.querySelector('.promo') as HTMLElement;
+      expect(promo).not.toBeNull();
+      expect(promo.style.color).toBe('red');
+    });
+
+    it('should apply every pending change on one element and release their dependents', async () => {
+      const plugin = createPlugin({
+        context: createDependencyContext([
+          { selector: '.card', type: 'text', value: 'New', waitForElement: true },
+          { id: 'badge', selector: '.card', type: 'class', add: ['new'], waitForElement: true },
+          {
+            selector: '.card',
+            type: 'attribute',
+            value: { 'aria-label': 'New card' },
+            dependsOn: ['badge'],
+          },
+        ]),
+        spa: true,
+      });
+      await plugin.ready();
+
+      document.body.innerHTML = '<div class="card">Old</div>';
+      await TestDOMUtils.waitForAsync(50);
+
+      const card = document.querySelector('.card')!;
+      expect(card.textContent).toBe('New');
+      expect(card.classList.contains('new')).toBe(true);
+      expect(card.getAttribute('aria-label')).toBe('New card');
+      expect(plugin.getReport().experiments.deps_exp.changes.map(change => change.status)).toEqual([
+        'applied',
+        'applied',
+        'applied',
+      ]);
+    });
+
+    it('should skip dependents of a change that failed', async () => {
+      document.body.innerHTML = '<div class="other">Other</div>';
+      const plugin = createPlugin({
+        context: createDependencyContext([
+          promoCreate,
+          { selector: '.other', type: 'text', value: 'Changed', dependsOn: ['promo'] },
+        ]),
+      });
+      await plugin.ready();
+
+      expect(document.querySelector('.promo')).toBeNull();
+      expect(document.querySelector('.other')?.textContent).toBe('Other');
+    });
+
+    it('should emit a validation error for dependency cycles', async () => {
+      document.body.innerHTML = '<div class="a">A</div><div class="b">B</div><p>P</p>';
+      const context = createDependencyContext([
+        { id: 'a', selector: '.a', type: 'text', value: 'A2', dependsOn: ['b'] },
+        { id: 'b', selector: '.b', type: 'text', value: 'B2', dependsOn: ['a'] },
+        { selector: 'p', type: 'text', value: 'P2' },
+      ]);
+      const plugin = createPlugin({ context, autoApply: false });
+      const errors: any[] = [];
+      plugin.on('error', data => errors.push(data));
+      await plugin.ready();
+
+      await plugin.applyChanges('deps_exp');
+
+      expect(document.querySelector('.a')?.textContent).toBe('A');
+      expect(document.querySelector('.b')?.textContent).toBe('B');
+      expect(document.querySelector('p')?.textContent).toBe('P2');
+      expect(errors).toEqual([
+        expect.objectContaining({
+          type: 'validation_error',
+          experimentName: 'deps_exp',
+          reason: 'cycle',
+        }),
+        expect.objectContaining({
+          type: 'validation_error',
+          experimentName: 'deps_exp',
+          reason: 'cycle',
+        }),
+      ]);
+    });
+
+    it('should report changes depending on a change with an unknown dependency', async () => {
+      document.body.innerHTML = '<div class="a">A</div><div class="b">B</div>';
+      const context = createDependencyContext([
+        { id: 'a', selector: '.a', type: 'text', value: 'A2', dependsOn: ['missing'] },
+        { id: 'b', selector: '.b', type: 'text', value: 'B2', dependsOn: ['a'] },
+      ]);
+      const plugin = createPlugin({ context, autoApply: false });
+      const errors: any[] = [];
+      plugin.on('error', data => errors.push(data));
+      await plugin.ready();
+
+      await plugin.applyChanges('deps_exp');
+
+      expect(document.querySelector('.b')?.textContent).toBe('B');
+      expect(errors.map(error => error.reason)).toEqual([
+        'missing_dependency',
+        'missing_dependency',
+      ]);
+      const [a, b] = plugin.getReport().experiments.deps_exp.changes;
+      expect(a).toMatchObject({ status: 'failed', id: 'a' });
+      expect(b).toMatchObject({ status: 'failed', id: 'b' });
+      expect(b.lastError).toContain('invalid change "a"');
+    });
+  });
+
+  describe('Template Interpolation', () => {
+    function createTemplateContext(changes: DOMChange[]) {
+      const experiment = createTestExperiment('template_exp', [
+        { config: { __dom_changes: [] } },
+        { config: { __dom_changes: changes, price_label: '€9.99' } },
+      ]);
+      const sdk = createTestSDK();
+      const context = createTestContext(
+        sdk,
+        createContextDataWithExperiments([experiment]),
+        'test-user',
+        { template_exp: 1 }
+      );
+      context.attribute('country', 'PT');
+      return context;
+    }
+
+    it('should resolve context attributes, variables and the assigned variant', async () => {
+      document.body.innerHTML = '<h1 class="headline">Original</h1><a class="cta">Buy</a>';
+      const context = createTemplateContext([
+        {
+          selector: '.headline',
+          type: 'text',
+          value: 'Deals in {{attr.country}} from {{var:price_label}} (v{{experiment.variant}})',
+        },
+        {
+          selector: '.cta',
+          type: 'attribute',
+          value: { href: '/buy?country={{attr.country}}&ref={{query.ref | default: "none"}}' },
+        },
+      ]);
+      const plugin = createPlugin({ context });
+      await plugin.ready();
+
+      expect(document.querySelector('.headline')?.textContent).toBe('Deals in PT from €9.99 (v1)');
+      expect(document.querySelector('.cta')?.getAttribute('href')).toBe('/buy?country=PT&ref=none');
+    });
+
+    it('should escape resolved values in html and create changes', async () => {
+      document.body.innerHTML = '<div class="banner"></div><div class="slot"></div>';
+      const context = createTemplateContext([
+        { selector: '.banner', type: 'html', value: '<b>{{attr.name}}</b>' },
+        {
+          selector: '',
+          type: 'create',
+          element: '<p class="created">{{attr.name}}</p>',
+          targetSelector: '.slot',
+        },
+      ]);
+      context.attribute('name', '<img src=x onerror=alert(1)>');
+      const plugin = createPlugin({ context });
+      await plugin.ready();
+
+      expect(document.querySelector('.banner b')?.textContent).toBe('<img src=x onerror=alert(1)>');
+      expect(document.querySelector('.created')?.textContent).toBe('<img src=x onerror=alert(1)>');
+      expect(document.querySelector('img')).toBeNull();
+    });
+
+    it('should refuse templated attributes that resolve to script URLs or handlers', async () => {
+      const originalLocation = window.location;
+      delete (window as any).location;
+      window.location = {
+        href: 'https://example.com/?next=javascript:alert(document.cookie)',
+        search: '?next=javascript:alert(document.cookie)',
+      } as any;
+      document.body.innerHTML =
+        '<a class="cta" href="/home">Continue</a><form class="signup" action="/signup"></form>';
+      const context = createTemplateContext([
+        {
+          selector: '.cta',
+          type: 'attribute',
+          value: { href: '{{query.next}}', onclick: '{{query.next}}', title: '{{query.next}}' },
+        },
+        { selector: '.signup', type: 'attribute', value: { action: '{{query.next}}' } },
+      ]);
+      const plugin = createPlugin({ context });
+      const sanitized: any[] = [];
+      plugin.on('change_sanitized', data => sanitized.push(data));
+
+      try {
+        await plugin.ready();
+
+        const cta = document.querySelector('.cta')!;
+        expect(cta.getAttribute('href')).toBe('/home');
+        expect(cta.hasAttribute('onclick')).toBe(false);
+        expect(cta.getAttribute('title')).toBe('javascript:alert(document.cookie)');
+        expect(document.querySelector('.signup')?.getAttribute('action')).toBe('/signup');
+        expect(sanitized.map(event => [event.type, event.removed])).toEqual([
+          ['attribute', ['href="javascript:alert(document.cookie)"']],
+          ['attribute', ['onclick="javascript:alert(document.cookie)"']],
+          ['attribute', ['action="javascript:alert(document.cookie)"']],
+        ]);
+      } finally {
+        window.location = originalLocation as any;
+      }
+    });
+
+    it('should resolve the previewed variant while previewing', async () => {
+      document.body.innerHTML = '<h1 class="headline">Original</h1>';
+      const context = createTemplateContext([
+        { selector: '.headline', type: 'text', value: 'Variant {{experiment.variant}}' },
+      ]);
+      const plugin = createPlugin({ context, autoApply: false });
+      await plugin.ready();
+
+      await plugin.previewVariant('template_exp', 1);
+
+      expect(document.querySelector('.headline')?.textContent).toBe('Variant 1');
+    });
+
+    it('should revert templated changes to the original content', async () => {
+      document.body.innerHTML = '<h1 class="headline">Original</h1>';
+      const context = createTemplateContext([
+        { selector: '.headline', type: 'text', value: 'Hello {{attr.country}}' },
+      ]);
+      const plugin = createPlugin({ context });
+      await plugin.ready();
+
+      expect(document.querySelector('.headline')?.textContent).toBe('Hello PT');
+
+      plugin.removeChanges('template_exp');
+
+      expect(document.querySelector('.headline')?.textContent).toBe('Original');
+    });
+  });
+
+  describe('Selector Types', () => {
+    function createSelectorContext(changes: DOMChange[]) {
+      const experiment = TestDataFactory.createExperiment('selector_exp', changes, 1);
+      const sdk = createTestSDK();
+      return createTestContext(
+        sdk,
+        createContextDataWithExperiments([experiment] as any),
+        'test-user',
+        extractVariantOverrides([experiment])
+      );
+    }
+
+    it('should apply changes with xpath and text selectors', async () => {
+      document.body.innerHTML =
+        '<ul><li>First</li><li>Second</li></ul><div><button><span>Sign up</span></button></div>';
+      const context = createSelectorContext([
+        { selector: '//ul/li[2]', selectorType: 'xpath', type: 'text', value: 'Changed' },
+        { selector: 'Sign up', selectorType: 'text', type: 'class', add: ['highlight'] },
+      ]);
+      const plugin = createPlugin({ context });
+      await plugin.ready();
+
+      const items = document.querySelectorAll('li');
+      expect(items[0].textContent).toBe('First');
+      expect(items[1].textContent).toBe('Changed');
+      expect(document.querySelector('span')?.classList.contains('highlight')).toBe(true);
+      expect(document.querySelector('button')?.classList.contains('highlight')).toBe(false);
+    });
+
+    it('should apply changes through shadow-piercing selectors', async () => {
+      document.body.innerHTML = '<my-card></my-card>';
+      const shadow = document.querySelector('my-card')!.attachShadow({ mode: 'open' });
+      shadow.innerHTML = '<h2 class="title">Original</h2>';
+
+      const context = createSelectorContext([
+        { selector: 'my-card >>> .title', type: 'text', value: 'Pierced' },
+      ]);
+      const plugin = createPlugin({ context });
+      await plugin.ready();
+
+      expect(shadow.querySelector('.title')?.textContent).toBe('Pierced');
+    });
+
+    it('should wait for elements matched by non-CSS selectors', async () => {
+      document.body.innerHTML = '<div class="container"></div>';
+      const context = createSelectorContext([
+        {
+          selector: '//p[@data-role="promo"]',
+          selectorType: 'xpath',
+          type: 'text',
+          value: 'Late promo',
+        },
+      ]);
+      const plugin = createPlugin({ context, spa: true });
+      await plugin.ready();
+
+      document.querySelector('.container')!.innerHTML = '<p data-role="promo">Original</p>';
+      await TestDOMUtils.waitForAsync(50);
+
+      expect(document.querySelector('p')?.textContent).toBe('Late promo');
+    });
+  });
+
+  describe('Shadow DOM', () => {
+    function createShadowContext(changes: DOMChange[]) {
+      const experiment = TestDataFactory.createExperiment('shadow_exp', changes, 1);
+      const sdk = createTestSDK();
+      return createTestContext(
+        sdk,
+        createContextDataWithExperiments([experiment] as any),
+        'test-user',
+        extractVariantOverrides([experiment])
+      );
+    }
+
+    function attachCard(host: Element): ShadowRoot {
+      const shadow = host.attachShadow({ mode: 'open' });
+      shadow.innerHTML = '<h2 class="title">Original</h2><button class="cta">Buy</button>';
+      return shadow;
+    }
+
+    it('should apply changes inside the shadow root of a shadowHost', async () => {
+      document.body.innerHTML = '<ds-card></ds-card>';
+      const shadow = attachCard(document.querySelector('ds-card')!);
+      const context = createShadowContext([
+        { selector: '.title', shadowHost: 'ds-card', type: 'text', value: 'Changed' },
+        { selector: '.cta', shadowHost: 'ds-card', type: 'class', add: ['primary'] },
+      ]);
+      const plugin = createPlugin({ context });
+      await plugin.ready();
+
+      expect(shadow.querySelector('.title')?.textContent).toBe('Changed');
+      expect(shadow.querySelector('.cta')?.classList.contains('primary')).toBe(true);
+
+      plugin.removeChanges('shadow_exp');
+
+      expect(shadow.querySelector('.title')?.textContent).toBe('Original');
+      expect(shadow.querySelector('.cta')?.classList.contains('primary')).toBe(false);
+    });
+
+    it('should adopt styleRules into the shadow root instead of the document', async () => {
+      document.body.innerHTML = '<ds-card></ds-card>';
+      const shadow = attachCard(document.querySelector('ds-card')!);
+      const context = createShadowContext([
+        {
+          selector: '.cta',
+          shadowHost: 'ds-card',
+          type: 'styleRules',
+          states: { hover: { color: 'red' } },
+        },
+      ]);
+      const plugin = createPlugin({ context });
+      await plugin.ready();
+
+      const sheet = shadow.querySelector('style[data-absmartly-styles]');
+      expect(sheet?.textContent).toContain('.cta:hover');
+      expect(document.head.querySelector('#absmartly-styles-shadow_exp')).toBeNull();
+
+      plugin.removeChanges('shadow_exp');
+
+      expect(shadow.querySelector('style[data-absmartly-styles]')).toBeNull();
+    });
+
+    it('should apply pending changes once a custom element host is upgraded', async () => {
+      document.body.innerHTML = '<ds-upgrade-card></ds-upgrade-card>';
+      const context = createShadowContext([
+        { selector: '.title', shadowHost: 'ds-upgrade-card', type: 'text', value: 'Upgraded' },
+        {
+          selector: '.title',
+          shadowHost: 'ds-upgrade-card',
+          type: 'styleRules',
+          states: { normal: { color: 'red' } },
+        },
+      ]);
+      const plugin = createPlugin({ context, spa: true });
+      await plugin.ready();
+
+      // Tests compile to ES5, so the element constructor is built without class syntax
+      function UpgradeCard(): HTMLElement {
+        const element = Reflect.construct(HTMLElement, [], UpgradeCard);
+        attachCard(element);
+        return element;
+      }
+      UpgradeCard.prototype = Object.create(HTMLElement.prototype);
+      customElements.define('ds-upgrade-card', UpgradeCard as any);
+      await TestDOMUtils.waitForAsync(50);
+
+      const shadow = document.querySelector('ds-upgrade-card')!.shadowRoot!;
+      expect(shadow.querySelector('.title')?.textContent).toBe('Upgraded');
+      expect(shadow.querySelector('style[data-absmartly-styles]')?.textContent).toContain(
+        'color: red'
+      );
+    });
+
+    it('should apply pending changes to content rendered later inside a shadow root', async () => {
+      document.body.innerHTML = '<ds-lazy></ds-lazy>';
+      const shadow = document.querySelector('ds-lazy')!.attachShadow({ mode: 'open' });
+      const context = createShadowContext([
+        { selector: '.title', shadowHost: 'ds-lazy', type: 'text', value: 'Lazy' },
+      ]);
+      const plugin = createPlugin({ context, spa: true });
+      await plugin.ready();
+
+      shadow.innerHTML = '<h2 class="title">Original</h2>';
+      await TestDOMUtils.waitForAsync(50);
+
+      expect(shadow.querySelector('.title')?.textContent).toBe('Lazy');
+    });
+
+    it('should re-apply persisted styles overwritten inside a shadow root', async () => {
+      document.body.innerHTML = '<ds-card></ds-card>';
+      const shadow = attachCard(document.querySelector('ds-card')!);
+      const context = createShadowContext([
+        {
+          selector: '.cta',
+          shadowHost: 'ds-card',
+          type: 'style',
+          value: { color: 'red' },
+          persistStyle: true,
+        },
+      ]);
+      const plugin = createPlugin({ context });
+      await plugin.ready();
+
+      const cta = shadow.querySelector('.cta') as HTMLElement;
+      expect(cta.style.color).toBe('red');
+
+      cta.style.color = 'blue';
+      await TestDOMUtils.waitForAsync(50);
+
+      expect(cta.style.color).toBe('red');
+    });
+  });
+
   describe('Pending Changes', () => {
     it('should wait for elements with waitForElement flag', async () => {
       document.body.innerHTML = '<div class="container"></div>';
@@ -1073,6 +1748,433 @@ describe('DOMChangesPluginLite', () => {
       // Pending change should have been applied
       expect(document.querySelector('.pending-element')?.textContent).toBe('Pending Text');
     });
+
+    it('should drop changes still waiting for their elements in removeAllChanges()', async () => {
+      document.body.innerHTML = '<div class="container"></div>';
+
+      const experiment = TestDataFactory.createExperiment(
+        'test_exp',
+        [{ selector: '.late', type: 'text', value: 'Old route' }],
+        1
+      );
+      const sdk = createTestSDK();
+      const context = createTestContext(
+        sdk,
+        createContextDataWithExperiments([experiment] as any),
+        'test-user',
+        extractVariantOverrides([experiment])
+      );
+
+      const plugin = createPlugin({ context, spa: true });
+      await plugin.ready();
+      await plugin.removeAllChanges();
+
+      document.querySelector('.container')!.innerHTML = '<div class="late">New route</div>';
+      await TestDOMUtils.waitForAsync(50);
+
+      expect(document.querySelector('.late')?.textContent).toBe('New route');
+    });
+  });
+
+  describe('Sanitizer', () => {
+    function createSanitizeContext(config: Record<string, unknown>) {
+      const experiment = createTestExperiment('sanitize_exp', [{ config: {} }, { config }]);
+      const sdk = createTestSDK();
+      return createTestContext(sdk, createContextDataWithExperiments([experiment]), 'test-user', {
+        sanitize_exp: 1,
+      });
+    }
+
+    const changes: DOMChange[] = [
+      {
+        selector: '.banner',
+        type: 'html',
+        value: '<b onclick="steal()">Sale</b><script>steal()</script>',
+      },
+      {
+        selector: '',
+        type: 'create',
+        element: '<a class="created" href="javascript:steal()">Shop</a>',
+        targetSelector: '.slot',
+      },
+    ];
+
+    it('should insert html and create changes unchanged when sanitize is off', async () => {
+      document.body.innerHTML = '<div class="banner"></div><div class="slot"></div>';
+      const plugin = createPlugin({
+        context: createSanitizeContext({ __dom_changes: changes }),
+      });
+      await plugin.ready();
+
+      expect(document.querySelector('.banner b')?.getAttribute('onclick')).toBe('steal()');
+      expect(document.querySelector('.created')?.getAttribute('href')).toBe('javascript:steal()');
+    });
+
+    it('should strip unsafe markup in strict mode and report it', async () => {
+      document.body.innerHTML = '<div class="banner"></div><div class="slot"></div>';
+      const plugin = createPlugin({
+        context: createSanitizeContext({ __dom_changes: changes }),
+        sanitize: 'strict',
+      });
+      const events: any[] = [];
+      plugin.on('change_sanitized', data => events.push(data));
+      await plugin.ready();
+
+      expect(document.querySelector('.banner')?.innerHTML).toBe('<b>Sale</b>');
+      expect(document.querySelector('.created')?.hasAttribute('href')).toBe(false);
+      expect(document.querySelector('.created')?.textContent).toBe('Shop');
+
+      expect(events).toHaveLength(2);
+      expect(events[0]).toMatchObject({
+        experimentName: 'sanitize_exp',
+        type: 'html',
+        removed: ['onclick on <b>', '<script>'],
+        change: changes[0],
+      });
+      expect(events[1]).toMatchObject({ experimentName: 'sanitize_exp', type: 'create' });
+    });
+
+    it('should restore the original content when a sanitized change is removed', async () => {
+      document.body.innerHTML = '<div class="banner">Original</div><div class="slot"></div>';
+      const plugin = createPlugin({
+        context: createSanitizeContext({ __dom_changes: changes }),
+        sanitize: 'strict',
+      });
+      await plugin.ready();
+
+      plugin.removeChanges('sanitize_exp');
+
+      expect(document.querySelector('.banner')?.innerHTML).toBe('Original');
+      expect(document.querySelector('.created')).toBeNull();
+    });
+
+    it('should use a custom sanitize function with the change target', async () => {
+      document.body.innerHTML = '<div class="banner"></div><div class="slot"></div>';
+      const sanitize = jest.fn((html: string) => html.replace(/<script>.*?<\/script>/g, ''));
+      const plugin = createPlugin({
+        context: createSanitizeContext({ __dom_changes: changes }),
+        sanitize,
+      });
+      const events: any[] = [];
+      plugin.on('change_sanitized', data => events.push(data));
+      await plugin.ready();
+
+      expect(sanitize).toHaveBeenCalledWith(changes[0].value, {
+        target: 'html',
+        experimentName: 'sanitize_exp',
+      });
+      expect(sanitize).toHaveBeenCalledWith(changes[1].element, {
+        target: 'create',
+        experimentName: 'sanitize_exp',
+      });
+      expect(document.querySelector('.banner')?.innerHTML).toBe('<b onclick="steal()">Sale</b>');
+      // Only the html change was modified
+      expect(events).toHaveLength(1);
+      expect(events[0].type).toBe('html');
+    });
+
+    it('should sanitize HTML injections as injections', async () => {
+      const plugin = createPlugin({
+        context: createSanitizeContext({
+          __inject_html: {
+            headEnd: '<style>.promo{color:red}</style><script>steal()</script>',
+          },
+        }),
+        sanitize: 'strict',
+      });
+      const events: any[] = [];
+      plugin.on('change_sanitized', data => events.push(data));
+      await plugin.ready();
+
+      const injected = document.querySelector('[data-absmartly-injection]');
+      expect(injected?.innerHTML).toBe('<style>.promo{color:red}</style>');
+      expect(events).toEqual([
+        expect.objectContaining({
+          experimentName: 'sanitize_exp',
+          type: 'injection',
+          removed: ['<script>'],
+        }),
+      ]);
+    });
+  });
+
+  describe('Application Report', () => {
+    function createReportContext(config: Record<string, unknown>) {
+      const experiment = createTestExperiment('report_exp', [{ config: {} }, { config }]);
+      const sdk = createTestSDK();
+      return createTestContext(sdk, createContextDataWithExperiments([experiment]), 'test-user', {
+        report_exp: 1,
+      });
+    }
+
+    it('should report the status, element count and error of each change', async () => {
+      document.body.innerHTML = '<p class="item">A</p><p class="item">B</p>';
+      const plugin = createPlugin({
+        context: createReportContext({
+          __dom_changes: [
+            { selector: '.item', type: 'text', value: 'Changed' },
+            { selector: '.missing', type: 'text', value: 'Never', waitForElement: true },
+            { selector: '.item', type: 'class', add: ['off'], enabled: false },
+            { selector: '.item', type: 'text', value: 'x', id: 'b', dependsOn: ['unknown'] },
+          ],
+        }),
+        spa: false,
+      });
+      await plugin.ready();
+
+      const report = plugin.getReport();
+      expect(report.url).toBe(window.location.href);
+      expect(report.experiments.report_exp).toMatchObject({
+        experimentName: 'report_exp',
+        variant: 1,
+        urlMatches: true,
+      });
+      const [text, missing, disabled, invalid] = report.experiments.report_exp.changes;
+      expect(text).toMatchObject({ status: 'applied', elementCount: 2 });
+      expect(text.duration).toBeGreaterThanOrEqual(0);
+      expect(missing).toMatchObject({ status: 'pending', elementCount: 0 });
+      expect(disabled.status).toBe('skipped-disabled');
+      expect(invalid).toMatchObject({ status: 'failed', id: 'b' });
+      expect(invalid.lastError).toContain('unknown');
+    });
+
+    it('should report URL mismatches', async () => {
+      const plugin = createPlugin({
+        context: createReportContext({
+          __dom_changes: {
+            changes: [{ selector: '.item', type: 'text', value: 'Changed' }],
+            urlFilter: '/checkout',
+          },
+        }),
+        spa: false,
+      });
+      await plugin.ready();
+
+      const report = plugin.getReport().experiments.report_exp;
+      expect(report.urlMatches).toBe(false);
+      expect(report.changes[0].status).toBe('skipped-url');
+    });
+
+    it('should emit report_updated when pending changes land and when reverted', async () => {
+      document.body.innerHTML = '<div class="app"></div>';
+      const plugin = createPlugin({
+        context: createReportContext({
+          __dom_changes: [
+            { selector: '.late', type: 'text', value: 'Loaded', waitForElement: true },
+          ],
+        }),
+        spa: false,
+      });
+      const updates: any[] = [];
+      plugin.on('report_updated', data => updates.push(data));
+      await plugin.ready();
+
+      expect(updates).toHaveLength(1);
+      expect(updates[0].report.changes[0].status).toBe('pending');
+
+      const late = document.createElement('p');
+      late.className = 'late';
+      document.querySelector('.app')!.appendChild(late);
+      await TestDOMUtils.waitForAsync(50);
+
+      expect(late.textContent).toBe('Loaded');
+      expect(updates[updates.length - 1].report.changes[0]).toMatchObject({
+        status: 'applied',
+        elementCount: 1,
+      });
+
+      plugin.removeChanges('report_exp');
+
+      expect(updates[updates.length - 1]).toMatchObject({ experimentName: 'report_exp' });
+      expect(plugin.getReport().experiments.report_exp.changes[0].status).toBe('reverted');
+    });
+  });
+
+  describe('Typed Events', () => {
+    function createEventsContext(config: Record<string, unknown>) {
+      const experiment = createTestExperiment('events_exp', [{ config: {} }, { config }]);
+      const sdk = createTestSDK();
+      return createTestContext(sdk, createContextDataWithExperiments([experiment]), 'test-user', {
+        events_exp: 1,
+      });
+    }
+
+    it('should emit change_applied, change_pending and change_failed for each change', async () => {
+      document.body.innerHTML = '<p class="item">A</p>';
+      const plugin = createPlugin({
+        context: createEventsContext({
+          __dom_changes: [
+            { selector: '.item', type: 'text', value: 'Changed' },
+            { selector: '.late', type: 'text', value: 'Late', waitForElement: true },
+            { selector: '.item', type: 'text', value: 'x', dependsOn: ['missing'] },
+          ],
+        }),
+        spa: false,
+      });
+      const applied: Array<{ selector: string; elementCount: number }> = [];
+      const pending: string[] = [];
+      const failed: string[] = [];
+      plugin.on('change_applied', ({ change, elementCount }) =>
+        applied.push({ selector: change.selector, elementCount })
+      );
+      plugin.on('change_pending', ({ change, waitingFor }) =>
+        pending.push(`${change.selector}:${waitingFor}`)
+      );
+      plugin.on('change_failed', ({ reason }) => failed.push(reason));
+      await plugin.ready();
+
+      expect(applied).toEqual([{ selector: '.item', elementCount: 1 }]);
+      expect(pending).toEqual(['.late:element']);
+      expect(failed).toHaveLength(1);
+      expect(failed[0]).toContain('missing');
+
+      const late = document.createElement('p');
+      late.className = 'late';
+      document.body.appendChild(late);
+      await TestDOMUtils.waitForAsync(50);
+
+      expect(applied).toContainEqual({ selector: '.late', elementCount: 1 });
+    });
+
+    it('should emit exposure_triggered when exposure is recorded', async () => {
+      document.body.innerHTML = '<p class="item">A</p>';
+      const plugin = createPlugin({
+        context: createEventsContext({
+          __dom_changes: [{ selector: '.item', type: 'text', value: 'Changed' }],
+        }),
+        spa: false,
+      });
+      const exposures: any[] = [];
+      plugin.on('exposure_triggered', data => exposures.push(data));
+      await plugin.ready();
+      await TestDOMUtils.waitForAsync(10);
+
+      expect(exposures).toEqual([
+        { experimentName: 'events_exp', variant: 1, trigger: 'immediate' },
+      ]);
+    });
+
+    it('should emit injection_applied for newly injected HTML', async () => {
+      const plugin = createPlugin({
+        context: createEventsContext({
+          __inject_html: { headEnd: '<style>.a{}</style>', bodyEnd: '<div>footer</div>' },
+        }),
+        spa: false,
+      });
+      const injections: any[] = [];
+      plugin.on('injection_applied', data => injections.push(data));
+      await plugin.ready();
+
+      expect(injections).toHaveLength(1);
+      expect(injections[0].count).toBe(2);
+      expect(injections[0].locations.sort()).toEqual(['bodyEnd', 'headEnd']);
+    });
+
+    it('should emit url_changed on SPA navigation', async () => {
+      const plugin = createPlugin({ context: createEventsContext({}), spa: true });
+      const urlChanges: any[] = [];
+      plugin.on('url_changed', data => urlChanges.push(data));
+      await plugin.ready();
+      const previousUrl = window.location.href;
+
+      history.pushState({}, '', '/events-page');
+      history.replaceState({}, '', '/events-page');
+
+      expect(urlChanges).toEqual([{ url: window.location.href, previousUrl, source: 'pushState' }]);
+      history.replaceState({}, '', previousUrl);
+    });
+
+    it('should follow the router hook instead of patching history', async () => {
+      const originalPushState = history.pushState;
+      let notify: () => void = () => {};
+      const plugin = createPlugin({
+        context: createEventsContext({}),
+        spa: true,
+        routerHook: (callback: () => void) => {
+          notify = callback;
+        },
+      });
+      const urlChanges: any[] = [];
+      plugin.on('url_changed', data => urlChanges.push(data));
+      await plugin.ready();
+      const previousUrl = window.location.href;
+
+      expect(history.pushState).toBe(originalPushState);
+      history.pushState({}, '', '/router-page');
+      expect(urlChanges).toHaveLength(0);
+
+      notify();
+      expect(urlChanges).toEqual([{ url: window.location.href, previousUrl, source: 'router' }]);
+      history.replaceState({}, '', previousUrl);
+    });
+
+    it('should only accept known event names', () => {
+      const plugin = createPlugin({ context: createEventsContext({}) });
+
+      // @ts-expect-error unknown events are rejected at compile time
+      plugin.on('not_an_event', () => {});
+    });
+  });
+
+  describe('Config Validation', () => {
+    it('should emit config_invalid with diagnostics for each broken variant', async () => {
+      document.body.innerHTML = '<p class="item">A</p>';
+      const experiment = createTestExperiment('broken_exp', [
+        { config: { __dom_changes: [{ selector: 'p[', type: 'text', value: 'x' }] } },
+        {
+          config: {
+            __dom_changes: {
+              changes: [{ selector: '.item', type: 'txet', value: 'Changed' }],
+              urlFilter: { include: ['(unclosed'], mode: 'regex' },
+            },
+          },
+        },
+      ]);
+      const context = createTestContext(
+        createTestSDK(),
+        createContextDataWithExperiments([experiment]),
+        'test-user',
+        { broken_exp: 1 }
+      );
+      const plugin = createPlugin({ context, spa: false });
+      const invalid: any[] = [];
+      plugin.on('config_invalid', data => invalid.push(data));
+      await plugin.ready();
+
+      expect(invalid.map(({ experimentName, variant }) => [experimentName, variant])).toEqual([
+        ['broken_exp', 0],
+        ['broken_exp', 1],
+      ]);
+      expect(invalid[0].diagnostics).toEqual([
+        { path: '$[0].selector', severity: 'error', message: 'Invalid css selector "p["' },
+      ]);
+      expect(invalid[1].diagnostics.map((d: any) => d.path)).toEqual([
+        '$.changes[0].type',
+        '$.urlFilter.include[0]',
+      ]);
+
+      // Reported once per experiment, not on every re-application
+      await plugin.applyChanges();
+      expect(invalid).toHaveLength(2);
+    });
+
+    it('should not emit config_invalid for valid configs', async () => {
+      const experiment = createTestExperiment('valid_exp', [
+        { config: { __dom_changes: [{ selector: '.item', type: 'text', value: 'x' }] } },
+      ]);
+      const context = createTestContext(
+        createTestSDK(),
+        createContextDataWithExperiments([experiment]),
+        'test-user',
+        { valid_exp: 0 }
+      );
+      const plugin = createPlugin({ context, spa: false });
+      const listener = jest.fn();
+      plugin.on('config_invalid', listener);
+      await plugin.ready();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
   });
 
   describe('SPA Support', () => {
@@ -1126,7 +2228,7 @@ describe('DOMChangesPluginLite', () => {
       const plugin = createPlugin({ context, spa: false });
       await plugin.ready();
 
-      expect((plugin as any).mutationObserver).toBeNull();
+      expect((plugin as any).reapplyWatches.size).toBe(0);
     });
   });
 
@@ -1349,6 +2451,32 @@ describe('DOMChangesPluginLite', () => {
       document.body.innerHTML = '';
     });
 
+    it('should set the configured CSP nonce on the anti-flicker style', () => {
+      const sdk = createTestSDK();
+      const context = createTestContext(sdk, createEmptyContextData());
+
+      createPlugin({ context, hideUntilReady: 'body', cspNonce: 'abc123' });
+
+      expect(document.getElementById('absmartly-antiflicker')?.getAttribute('nonce')).toBe(
+        'abc123'
+      );
+    });
+
+    it('should detect the CSP nonce from the page scripts', () => {
+      const pageScript = document.createElement('script');
+      pageScript.setAttribute('nonce', 'from-page');
+      document.head.appendChild(pageScript);
+      const sdk = createTestSDK();
+      const context = createTestContext(sdk, createEmptyContextData());
+
+      const plugin = createPlugin({ context, hideUntilReady: 'body' });
+
+      expect((plugin as any).config.cspNonce).toBe('from-page');
+      expect(document.getElementById('absmartly-antiflicker')?.getAttribute('nonce')).toBe(
+        'from-page'
+      );
+    });
+
     it('should not inject anti-flicker style when hideUntilReady is false', () => {
       const sdk = createTestSDK();
       const context = createTestContext(sdk, createEmptyContextData());
@@ -1617,5 +2745,86 @@ describe('DOMChangesPluginLite', () => {
         antiFlickerStyle?.remove();
       }
     });
+
+    describe("hideUntilReady: 'auto'", () => {
+      function createAutoHideContext(changes: DOMChange[]) {
+        const experiment = TestDataFactory.createExperiment('auto_exp', changes, 1);
+        const sdk = createTestSDK();
+        return createTestContext(
+          sdk,
+          createContextDataWithExperiments([experiment] as any),
+          'test-user',
+          extractVariantOverrides([experiment])
+        );
+      }
+
+      const getHiddenCss = () =>
+        document.getElementById('absmartly-antiflicker')?.textContent || '';
+
+      it('should hide only the targets of pending changes after applying', async () => {
+        document.body.innerHTML = '<h1 class="title">Title</h1><div class="container"></div>';
+        const context = createAutoHideContext([
+          { selector: '.title', type: 'text', value: 'New title' },
+          TestDataFactory.createPendingChange('.late', 'text', 'Late text'),
+        ]);
+
+        const plugin = createPlugin({ context, hideUntilReady: 'auto', spa: true });
+        expect(getHiddenCss()).toBe('');
+
+        await plugin.ready();
+
+        expect(document.querySelector('.title')?.textContent).toBe('New title');
+        expect(getHiddenCss()).not.toContain('.title');
+        expect(getHiddenCss()).toContain('.late { visibility: hidden !important; }');
+        expect(getHiddenCss()).not.toContain('body');
+
+        document.querySelector('.container')!.innerHTML = '<p class="late">Original</p>';
+        await TestDOMUtils.waitForAsync(50);
+
+        expect(document.querySelector('.late')?.textContent).toBe('Late text');
+        expect(getHiddenCss()).toBe('');
+        expect((plugin as any).antiFlickerTimeout).toBeNull();
+      });
+
+      it('should reveal targets still pending when the timeout expires', async () => {
+        const context = createAutoHideContext([
+          TestDataFactory.createPendingChange('.never', 'text', 'Never shown'),
+        ]);
+
+        const plugin = createPlugin({
+          context,
+          hideUntilReady: 'auto',
+          hideTimeout: 30,
+          spa: true,
+        });
+        await plugin.ready();
+        expect(getHiddenCss()).toContain('.never');
+
+        await TestDOMUtils.waitForAsync(60);
+
+        expect(getHiddenCss()).toBe('');
+      });
+
+      it('should not hide targets it cannot express in CSS or that are not changed', async () => {
+        document.body.innerHTML = '<p class="off">Off</p><main></main>';
+        const context = createAutoHideContext([
+          { selector: '.off', type: 'text', value: 'On', enabled: false },
+          {
+            selector: '//p',
+            selectorType: 'xpath',
+            type: 'text',
+            value: 'X',
+            waitForElement: true,
+          },
+          { selector: '', type: 'create', element: '<b>New</b>', targetSelector: 'main' },
+        ]);
+
+        const plugin = createPlugin({ context, hideUntilReady: 'auto' });
+        await plugin.ready();
+
+        expect(getHiddenCss()).toBe('');
+        expect((plugin as any).antiFlickerTimeout).toBeNull();
+      });
+    });
   });
 });
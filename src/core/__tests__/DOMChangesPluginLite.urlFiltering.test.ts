@@ -1092,6 +1092,53 @@ describe('DOMChangesPluginLite - URL Filtering', () => {
       expect(document.querySelector('.content')?.textContent).toBe('Home');
     });
 
+    it('should restore the original DOM when navigating to a non-matching URL', async () => {
+      const experiment = createExperimentWithURLFilters({
+        experimentName: 'spa_revert_test',
+        variants: [
+          {
+            urlFilter: '/products',
+            changes: [
+              { selector: '.title', type: 'text', value: 'Products Title' },
+              { selector: '.title', type: 'class', add: ['highlight'] },
+              { selector: '.banner', type: 'delete' },
+              {
+                selector: '',
+                type: 'create',
+                element: '<div class="promo">Promo</div>',
+                targetSelector: '.container',
+              },
+            ],
+          },
+        ],
+      });
+
+      setTestURL('https://example.com/products');
+      const { mockContext } = createTreatmentTracker([experiment], { spa_revert_test: 0 });
+      document.body.innerHTML = `
+        <div class="container">
+          <h1 class="title">Title</h1>
+          <div class="banner">Banner</div>
+        </div>
+      `;
+
+      plugin = new DOMChangesPluginLite({ context: mockContext, autoApply: true, spa: true });
+      await plugin.ready();
+
+      expect(document.querySelector('.title')?.textContent).toBe('Products Title');
+      expect(document.querySelector('.banner')).toBeNull();
+      expect(document.querySelector('.promo')).not.toBeNull();
+
+      setTestURL('https://example.com/about');
+      history.pushState({}, '', 'https://example.com/about');
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(document.querySelector('.title')?.textContent).toBe('Title');
+      expect(document.querySelector('.title')?.classList.contains('highlight')).toBe(false);
+      expect(document.querySelector('.banner')?.textContent).toBe('Banner');
+      expect(document.querySelector('.promo')).toBeNull();
+    });
+
     it('should remove previous changes and apply new changes on URL change', async () => {
       const experiment = createExperimentWithURLFilters({
         experimentName: 'spa_multi_page_test',
@@ -1151,4 +1198,285 @@ describe('DOMChangesPluginLite - URL Filtering', () => {
       expect(document.querySelector('.checkout')?.textContent).toBe('Checkout Content');
     });
   });
+
+  describe('Pages and per-change URL filters', () => {
+    function createPagesExperiment(
+      variants: Array<DOMChangesConfig | DOMChange[]>
+    ): ExperimentData {
+      return {
+        name: 'pages_test',
+        variants: variants.map(data => ({ variables: { __dom_changes: data } })),
+      };
+    }
+
+    const treatment: DOMChangesConfig = {
+      changes: [{ selector: '.banner', type: 'text', value: 'Everywhere' }],
+      pages: [
+        {
+          urlFilter: '/products/*',
+          changes: [
+            { selector: '.title', type: 'text', value: 'Product' },
+            {
+              selector: '.price',
+              type: 'text',
+              value: 'Sale price',
+              urlFilter: '/products/sale-*',
+            },
+          ],
+        },
+        { urlFilter: '/list', changes: [{ selector: '.title', type: 'text', value: 'Listing' }] },
+      ],
+    };
+
+    beforeEach(() => {
+      document.body.innerHTML =
+        '<div class="banner">Banner</div><h1 class="title">Title</h1><p class="price">Price</p>';
+    });
+
+    afterEach(() => {
+      plugin?.destroy();
+    });
+
+    it('should apply only the changes of pages matching the current URL', async () => {
+      setTestURL('https://example.com/products/123');
+      const { mockContext } = createTreatmentTracker([createPagesExperiment([[], treatment])], {
+        pages_test: 1,
+      });
+
+      plugin = new DOMChangesPluginLite({ context: mockContext, autoApply: true, spa: false });
+      await plugin.ready();
+
+      expect(document.querySelector('.banner')?.textContent).toBe('Everywhere');
+      expect(document.querySelector('.title')?.textContent).toBe('Product');
+      // The change's own urlFilter overrides the page's
+      expect(document.querySelector('.price')?.textContent).toBe('Price');
+
+      const report = plugin.getReport().experiments.pages_test;
+      expect(report.urlMatches).toBe(true);
+      expect(report.changes.map(c => c.status)).toEqual([
+        'applied',
+        'applied',
+        'skipped-url',
+        'skipped-url',
+      ]);
+    });
+
+    it('should support urlFilter on individual changes of the legacy array format', async () => {
+      setTestURL('https://example.com/list');
+      const { mockContext } = createTreatmentTracker(
+        [
+          createPagesExperiment([
+            [],
+            [
+              { selector: '.title', type: 'text', value: 'Listing', urlFilter: '/list' },
+              { selector: '.price', type: 'text', value: 'Product', urlFilter: '/products/*' },
+            ],
+          ]),
+        ],
+        { pages_test: 1 }
+      );
+
+      plugin = new DOMChangesPluginLite({ context: mockContext, autoApply: true, spa: false });
+      await plugin.ready();
+
+      expect(document.querySelector('.title')?.textContent).toBe('Listing');
+      expect(document.querySelector('.price')?.textContent).toBe('Price');
+    });
+
+    it('should track all variants only on URLs covered by some page', async () => {
+      const pagesOnly: DOMChangesConfig = {
+        pages: [
+          { urlFilter: '/products/*', changes: [{ selector: '.title', type: 'text', value: 'P' }] },
+        ],
+      };
+
+      setTestURL('https://example.com/about');
+      let tracker = createTreatmentTracker([createPagesExperiment([[], pagesOnly])], {
+        pages_test: 0,
+      });
+      plugin = new DOMChangesPluginLite({ context: tracker.mockContext, spa: false });
+      await plugin.ready();
+      expect(tracker.treatmentSpy).not.toHaveBeenCalled();
+      plugin.destroy();
+
+      setTestURL('https://example.com/products/1');
+      tracker = createTreatmentTracker([createPagesExperiment([[], pagesOnly])], {
+        pages_test: 0,
+      });
+      plugin = new DOMChangesPluginLite({ context: tracker.mockContext, spa: false });
+      await plugin.ready();
+      expect(tracker.treatmentSpy).toHaveBeenCalledTimes(1);
+      expect(tracker.treatmentSpy).toHaveBeenCalledWith('pages_test');
+    });
+
+    it('should decide exposure triggers from the changes of the current page only', async () => {
+      const config: DOMChangesConfig = {
+        pages: [
+          {
+            urlFilter: '/list',
+            changes: [{ selector: '.title', type: 'text', value: 'L', trigger_on_view: true }],
+          },
+          { urlFilter: '/products/*', changes: [{ selector: '.title', type: 'text', value: 'P' }] },
+        ],
+      };
+
+      setTestURL('https://example.com/list');
+      const { mockContext, treatmentSpy } = createTreatmentTracker(
+        [createPagesExperiment([[], config])],
+        { pages_test: 1 }
+      );
+      plugin = new DOMChangesPluginLite({ context: mockContext, spa: false });
+      await plugin.ready();
+
+      // The immediate change belongs to another page, so exposure waits for the viewport
+      expect(treatmentSpy).not.toHaveBeenCalled();
+      expect(document.querySelector('.title')?.textContent).toBe('L');
+    });
+
+    it('should re-evaluate pages on SPA navigation', async () => {
+      const originalPushState = history.pushState;
+      history.pushState = jest.fn((_data, _title, url) => {
+        if (url) {
+          window.location = { href: url } as any;
+        }
+      });
+
+      try {
+        setTestURL('https://example.com/products/1');
+        const { mockContext } = createTreatmentTracker([createPagesExperiment([[], treatment])], {
+          pages_test: 1,
+        });
+        plugin = new DOMChangesPluginLite({ context: mockContext, autoApply: true, spa: true });
+        await plugin.ready();
+        expect(document.querySelector('.title')?.textContent).toBe('Product');
+
+        history.pushState({}, '', 'https://example.com/list');
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        expect(document.querySelector('.title')?.textContent).toBe('Listing');
+        expect(document.querySelector('.banner')?.textContent).toBe('Everywhere');
+      } finally {
+        plugin.destroy();
+        history.pushState = originalPushState;
+      }
+    });
+  });
+
+  describe('SPA navigation strategy', () => {
+    let originalPushState: typeof history.pushState;
+
+    beforeEach(() => {
+      originalPushState = history.pushState;
+      history.pushState = jest.fn((_data, _title, url) => {
+        if (url) {
+          window.location = { href: url } as any;
+        }
+      });
+      (window as any).__jsRuns = 0;
+      setTestURL('https://example.com/');
+      document.body.innerHTML = '<div class="content">Home</div><div class="promo">Promo</div>';
+    });
+
+    afterEach(() => {
+      plugin?.destroy();
+      history.pushState = originalPushState;
+      delete (window as any).__jsRuns;
+    });
+
+    function createExperiments(): ExperimentData[] {
+      return [
+        createExperimentWithURLFilters({
+          experimentName: 'everywhere',
+          variants: [
+            {
+              changes: [
+                {
+                  selector: '.content',
+                  type: 'javascript',
+                  value: 'window.__jsRuns = window.__jsRuns + 1',
+                },
+              ],
+            },
+          ],
+        }),
+        createExperimentWithURLFilters({
+          experimentName: 'products_only',
+          variants: [
+            {
+              urlFilter: '/products',
+              changes: [{ selector: '.promo', type: 'text', value: 'Product promo' }],
+            },
+          ],
+        }),
+      ];
+    }
+
+    async function navigate(url: string): Promise<void> {
+      history.pushState({}, '', url);
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    it('should only revert or apply experiments whose URL match changed by default', async () => {
+      const { mockContext } = createTreatmentTracker(createExperiments(), {
+        everywhere: 0,
+        products_only: 0,
+      });
+      plugin = new DOMChangesPluginLite({ context: mockContext, autoApply: true, spa: true });
+      await plugin.ready();
+      const reverted: string[] = [];
+      plugin.on('change_reverted', data => reverted.push(data.experimentName));
+
+      await navigate('https://example.com/products');
+      expect(document.querySelector('.promo')?.textContent).toBe('Product promo');
+
+      await navigate('https://example.com/about');
+      expect(document.querySelector('.promo')?.textContent).toBe('Promo');
+
+      expect((window as any).__jsRuns).toBe(1);
+      expect(plugin.hasChanges('everywhere')).toBe(true);
+      expect(reverted).not.toContain('everywhere');
+    });
+
+    it('should re-apply query templates when only the query string changes', async () => {
+      history.pushState = jest.fn((_data, _title, url) => {
+        window.location = { href: url, search: new URL(url as string).search } as any;
+      });
+      window.location = { href: 'https://example.com/search?q=a', search: '?q=a' } as any;
+      const experiment = createExperimentWithURLFilters({
+        experimentName: 'search_heading',
+        variants: [
+          {
+            changes: [{ selector: '.content', type: 'text', value: 'Results for {{query.q}}' }],
+          },
+        ],
+      });
+      const { mockContext } = createTreatmentTracker([experiment], { search_heading: 0 });
+      plugin = new DOMChangesPluginLite({ context: mockContext, autoApply: true, spa: true });
+      await plugin.ready();
+      expect(document.querySelector('.content')?.textContent).toBe('Results for a');
+
+      await navigate('https://example.com/search?q=b');
+
+      expect(document.querySelector('.content')?.textContent).toBe('Results for b');
+    });
+
+    it('should revert and re-apply everything with the reset strategy', async () => {
+      const { mockContext } = createTreatmentTracker(createExperiments(), {
+        everywhere: 0,
+        products_only: 0,
+      });
+      plugin = new DOMChangesPluginLite({
+        context: mockContext,
+        autoApply: true,
+        spa: true,
+        navigationStrategy: 'reset',
+      });
+      await plugin.ready();
+
+      await navigate('https://example.com/products');
+
+      expect(document.querySelector('.promo')?.textContent).toBe('Product promo');
+      expect((window as any).__jsRuns).toBe(2);
+    });
+  });
 });
@@ -485,6 +485,312 @@ describe('DOMManipulatorLite', () => {
     });
   });
 
+  describe('JavaScript Cleanup', () => {
+    let calls: string[];
+
+    beforeEach(() => {
+      calls = [];
+      (window as any).__calls = calls;
+      document.body.innerHTML = '<div class="target">Content</div>';
+    });
+
+    afterEach(() => {
+      delete (window as any).__calls;
+    });
+
+    it('should run cleanups registered with onCleanup when the change is reverted', () => {
+      const change: DOMChange = {
+        selector: '.target',
+        type: 'javascript',
+        value: `
+          window.__calls.push('run');
+          onCleanup(() => window.__calls.push('first'));
+          onCleanup(() => window.__calls.push('second'));
+        `,
+      };
+
+      manipulator.applyChange(change, 'js_exp');
+      manipulator.removeChanges('js_exp');
+      manipulator.removeChanges('js_exp');
+
+      expect(calls).toEqual(['run', 'second', 'first']);
+    });
+
+    it('should run a returned cleanup function when all changes are removed', () => {
+      const change: DOMChange = {
+        selector: '.target',
+        type: 'javascript',
+        value: `return () => window.__calls.push('returned');`,
+      };
+
+      manipulator.applyChange(change, 'js_exp');
+      expect(calls).toEqual([]);
+
+      manipulator.removeAllChanges();
+      expect(calls).toEqual(['returned']);
+    });
+
+    it('should clean up before running again on the same element', () => {
+      const change: DOMChange = {
+        selector: '.target',
+        type: 'javascript',
+        value: `
+          const run = window.__calls.filter(call => call.startsWith('run')).length + 1;
+          window.__calls.push('run ' + run);
+          onCleanup(() => window.__calls.push('cleanup ' + run));
+        `,
+      };
+
+      manipulator.applyChange(change, 'js_exp');
+      manipulator.applyChange(change, 'js_exp');
+
+      expect(calls).toEqual(['run 1', 'cleanup 1', 'run 2']);
+    });
+
+    it('should clean up elements that left the page when the change runs again', () => {
+      const change: DOMChange = {
+        selector: '.target',
+        type: 'javascript',
+        value: `onCleanup(() => window.__calls.push('cleanup ' + element.textContent));`,
+      };
+
+      manipulator.applyChange(change, 'js_exp');
+      document.body.innerHTML = '<div class="target">Replaced</div>';
+      manipulator.applyChange(change, 'js_exp');
+
+      expect(calls).toEqual(['cleanup Content']);
+    });
+
+    it('should run cleanups on destroy', () => {
+      manipulator.applyChange(
+        {
+          selector: '.target',
+          type: 'javascript',
+          value: `onCleanup(() => window.__calls.push('gone'));`,
+        },
+        'js_exp'
+      );
+
+      plugin.destroy();
+
+      expect(calls).toEqual(['gone']);
+    });
+
+    it('should report failing cleanups and still run the others', () => {
+      const errors: CustomEvent[] = [];
+      const handler = (event: Event) => errors.push(event as CustomEvent);
+      document.addEventListener('absmartly:js-error', handler);
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      try {
+        manipulator.applyChange(
+          {
+            selector: '.target',
+            type: 'javascript',
+            value: `
+              onCleanup(() => window.__calls.push('cleaned'));
+              onCleanup(() => { throw new Error('boom'); });
+            `,
+          },
+          'js_exp'
+        );
+        manipulator.removeChanges('js_exp');
+      } finally {
+        document.removeEventListener('absmartly:js-error', handler);
+      }
+
+      expect(calls).toEqual(['cleaned']);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].detail.error).toBe('Cleanup failed: boom');
+    });
+  });
+
+  describe('JavaScript Helper API', () => {
+    let context: any;
+    let received: any;
+
+    beforeEach(() => {
+      context = (plugin as any).config.context;
+      received = null;
+      (window as any).__receive = (value: unknown) => (received = value);
+      document.body.innerHTML = '<div class="target">Content</div>';
+    });
+
+    afterEach(() => {
+      delete (window as any).__receive;
+    });
+
+    function runWithHelper(code: string, experimentName = 'js_exp'): void {
+      manipulator.applyChange(
+        { selector: '.target', type: 'javascript', value: code },
+        experimentName
+      );
+    }
+
+    it('should pass a frozen absmartly helper with the experiment and variant', () => {
+      runWithHelper('window.__receive(absmartly);');
+
+      expect(Object.isFrozen(received)).toBe(true);
+      expect(received.experimentName).toBe('js_exp');
+      expect(received.variant).toBe(context.peek('js_exp'));
+    });
+
+    it('should track goals and read variables through the context', () => {
+      const track = jest.spyOn(context, 'track').mockImplementation(() => {});
+      const peekVariableValue = jest.spyOn(context, 'peekVariableValue');
+      const variableValue = jest.spyOn(context, 'variableValue');
+
+      runWithHelper(`
+        absmartly.track('cta_shown', { position: 'hero' });
+        window.__receive(absmartly.variable('button.color', 'blue'));
+      `);
+
+      expect(track).toHaveBeenCalledWith('cta_shown', { position: 'hero' });
+      expect(peekVariableValue).toHaveBeenCalledWith('button.color', 'blue');
+      expect(variableValue).not.toHaveBeenCalled();
+      expect(received).toBe('blue');
+    });
+
+    it('should wait for elements with waitFor', async () => {
+      runWithHelper('absmartly.waitFor(".late").then(window.__receive);');
+
+      const late = document.createElement('p');
+      late.className = 'late';
+      document.body.appendChild(late);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(received).toBe(late);
+    });
+
+    it('should stop waiting when the change is reverted', async () => {
+      runWithHelper('absmartly.waitFor(".late").then(window.__receive);');
+      expect(plugin.getMutationHub().getWatchCount()).toBe(1);
+
+      manipulator.removeChanges('js_exp');
+
+      expect(plugin.getMutationHub().getWatchCount()).toBe(0);
+    });
+
+    it('should call onVisible once the element enters the viewport', () => {
+      const observers: any[] = [];
+      const OriginalObserver = global.IntersectionObserver;
+      (global as any).IntersectionObserver = jest.fn((callback: IntersectionObserverCallback) => {
+        const observer = new OriginalObserver(callback);
+        observers.push(observer);
+        return observer;
+      });
+
+      try {
+        runWithHelper('absmartly.onVisible(window.__receive);');
+      } finally {
+        global.IntersectionObserver = OriginalObserver;
+      }
+
+      const [observer] = observers;
+      const target = document.querySelector('.target')!;
+      expect(observer.observe).toHaveBeenCalledWith(target);
+      expect(received).toBeNull();
+
+      observer.callback([{ isIntersecting: true, target }], observer);
+      expect(received).toBe(target);
+      expect(observer.disconnect).toHaveBeenCalled();
+    });
+
+    it('should register cleanups through the helper', () => {
+      runWithHelper(`absmartly.onCleanup(() => window.__receive('cleaned'));`);
+
+      manipulator.removeChanges('js_exp');
+
+      expect(received).toBe('cleaned');
+    });
+  });
+
+  describe('Trusted Types', () => {
+    // Mimics `require-trusted-types-for 'script'`: innerHTML only accepts policy output
+    class FakeTrustedValue {
+      constructor(readonly value: string) {}
+
+      toString(): string {
+        return this.value;
+      }
+    }
+
+    const innerHTML = Object.getOwnPropertyDescriptor(Element.prototype, 'innerHTML')!;
+    let createScript: jest.Mock;
+
+    beforeEach(() => {
+      createScript = jest.fn((input: string) => new FakeTrustedValue(input));
+      (window as any).trustedTypes = {
+        createPolicy: (_name: string, rules: any) => ({
+          createHTML: (input: string) => new FakeTrustedValue(rules.createHTML(input)),
+          createScript: (input: string) => createScript(rules.createScript(input)),
+        }),
+      };
+      Object.defineProperty(Element.prototype, 'innerHTML', {
+        ...innerHTML,
+        set(value: unknown) {
+          if (!(value instanceof FakeTrustedValue)) {
+            throw new TypeError("This document requires 'TrustedHTML' assignment.");
+          }
+          innerHTML.set!.call(this, value.value);
+        },
+      });
+
+      const sdk = createTestSDK();
+      const context = createTestContext(sdk, createEmptyContextData());
+      plugin = new DOMChangesPluginLite({
+        context,
+        spa: false,
+        trustedTypesPolicyName: 'tt-manipulator',
+      });
+      manipulator = (plugin as any).domManipulator;
+    });
+
+    afterEach(() => {
+      Object.defineProperty(Element.prototype, 'innerHTML', innerHTML);
+      delete (window as any).trustedTypes;
+    });
+
+    it('applies and reverts html changes through the policy', () => {
+      innerHTML.set!.call(document.body, '<div class="target">Original</div>');
+
+      const change: DOMChange = { selector: '.target', type: 'html', value: '<b>New</b>' };
+      expect(manipulator.applyChange(change, 'tt_exp')).toBe(true);
+      expect(innerHTML.get!.call(document.querySelector('.target'))).toBe('<b>New</b>');
+
+      manipulator.removeChanges('tt_exp');
+      expect(innerHTML.get!.call(document.querySelector('.target'))).toBe('Original');
+    });
+
+    it('creates elements through the policy', () => {
+      innerHTML.set!.call(document.body, '<div class="slot"></div>');
+
+      const change: DOMChange = {
+        selector: '',
+        type: 'create',
+        element: '<p class="created">Hi</p>',
+        targetSelector: '.slot',
+      };
+
+      expect(manipulator.applyChange(change, 'tt_exp')).toBe(true);
+      expect(document.querySelector('.slot .created')?.textContent).toBe('Hi');
+    });
+
+    it('passes JavaScript changes through the policy', () => {
+      innerHTML.set!.call(document.body, '<div class="target">Original</div>');
+
+      const change: DOMChange = {
+        selector: '.target',
+        type: 'javascript',
+        value: 'element.textContent = "Ran";',
+      };
+
+      expect(manipulator.applyChange(change, 'tt_exp')).toBe(true);
+      expect(document.querySelector('.target')?.textContent).toBe('Ran');
+      expect(createScript).toHaveBeenCalledWith(expect.stringContaining('element.textContent'));
+    });
+  });
+
   describe('JavaScript Changes — CSP fallback & error surfacing', () => {
     const originalFunction = global.Function;
     const originalConsoleWarn = console.warn;
@@ -523,6 +829,38 @@ describe('DOMManipulatorLite', () => {
       expect(document.querySelector('.target')?.textContent).toBe('Fallback executed');
     });
 
+    it('passes the helper and registers cleanups in the <script> tag fallback', () => {
+      document.body.innerHTML = '<div class="target">Original</div>';
+      const calls: string[] = [];
+      (window as any).__calls = calls;
+
+      const originalFn = global.Function;
+      (global as any).Function = function () {
+        throw new EvalError("Refused to evaluate: CSP blocks 'unsafe-eval'");
+      } as any;
+      (global as any).Function.prototype = originalFn.prototype;
+
+      try {
+        manipulator.applyChange(
+          {
+            selector: '.target',
+            type: 'javascript',
+            value: `
+              absmartly.onCleanup(() => window.__calls.push('helper'));
+              return () => window.__calls.push('returned');
+            `,
+          },
+          'csp_exp'
+        );
+        global.Function = originalFn;
+        manipulator.removeChanges('csp_exp');
+      } finally {
+        delete (window as any).__calls;
+      }
+
+      expect(calls).toEqual(['returned', 'helper']);
+    });
+
     it('logs a production warning and dispatches absmartly:js-error when both eval paths fail', () => {
       document.body.innerHTML = '<div class="target">Content</div>';
       const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
@@ -1005,6 +1343,64 @@ describe('DOMManipulatorLite', () => {
     });
   });
 
+  describe('CSS Variables Changes', () => {
+    it('should set custom properties on :root when the selector is empty', () => {
+      const result = manipulator.applyChange(
+        {
+          selector: '',
+          type: 'cssVariables',
+          value: { '--brand-color': '#e91e63', radius: '8px' },
+        },
+        'test_exp'
+      );
+
+      expect(result).toBe(true);
+      expect(plugin.getStyleManager('test_exp').getCssText()).toBe(
+        ':root {\n  --brand-color: #e91e63 !important;\n  --radius: 8px !important;\n}'
+      );
+    });
+
+    it('should scope custom properties to a selector', () => {
+      document.body.innerHTML = '<section class="pricing"></section>';
+
+      manipulator.applyChange(
+        {
+          selector: '.pricing',
+          type: 'cssVariables',
+          value: { '--cardGap': '24px' },
+          important: false,
+        },
+        'test_exp'
+      );
+
+      expect(plugin.getStyleManager('test_exp').getCssText()).toBe(
+        '.pricing {\n  --cardGap: 24px;\n}'
+      );
+      expect(
+        getComputedStyle(document.querySelector('.pricing')!).getPropertyValue('--cardGap').trim()
+      ).toBe('24px');
+    });
+
+    it('should fail without variables', () => {
+      expect(manipulator.applyChange({ selector: '', type: 'cssVariables' }, 'test_exp')).toBe(
+        false
+      );
+    });
+
+    it('should drop the variables when reverted', () => {
+      manipulator.applyChange(
+        { selector: ':root', type: 'cssVariables', value: { '--brand-color': 'red' } },
+        'test_exp'
+      );
+      const manager = plugin.getStyleManager('test_exp');
+      expect(manager.getRulesCount()).toBe(1);
+
+      manipulator.removeChanges('test_exp');
+
+      expect(manager.getRulesCount()).toBe(0);
+    });
+  });
+
   describe('Disabled Changes', () => {
     it('should skip disabled changes', () => {
       document.body.innerHTML = '<div class="target">Original</div>';
@@ -1172,6 +1568,172 @@ describe('DOMManipulatorLite', () => {
     });
   });
 
+  describe('Reverting Changes', () => {
+    it('should restore text, html, style, class and attribute changes', () => {
+      document.body.innerHTML = `
+        <div class="text">Original <b>text</b></div>
+        <div class="html"><span>Original</span></div>
+        <div class="style" style="color: red;">Styled</div>
+        <div class="klass a b">Classed</div>
+        <a class="link" href="/original">Link</a>
+      `;
+
+      manipulator.applyChange({ selector: '.text', type: 'text', value: 'New' }, 'test_exp');
+      manipulator.applyChange({ selector: '.html', type: 'html', value: '<p>New</p>' }, 'test_exp');
+      manipulator.applyChange(
+        { selector: '.style', type: 'style', value: { color: 'blue', fontSize: '20px' } },
+        'test_exp'
+      );
+      manipulator.applyChange(
+        { selector: '.klass', type: 'class', add: ['c'], remove: ['a'] },
+        'test_exp'
+      );
+      manipulator.applyChange(
+        { selector: '.link', type: 'attribute', value: { href: '/new', target: '_blank' } },
+        'test_exp'
+      );
+
+      manipulator.removeChanges('test_exp');
+
+      expect(document.querySelector('.text')?.innerHTML).toBe('Original <b>text</b>');
+      expect(document.querySelector('.html')?.innerHTML).toBe('<span>Original</span>');
+      expect(document.querySelector('.style')?.getAttribute('style')).toBe('color: red;');
+      expect(document.querySelector('.klass')?.className).toBe('klass a b');
+      expect(document.querySelector('.link')?.getAttribute('href')).toBe('/original');
+      expect(document.querySelector('.link')?.hasAttribute('target')).toBe(false);
+      expect(manipulator.hasChanges('test_exp')).toBe(false);
+    });
+
+    it('should keep the first snapshot when a change is re-applied', () => {
+      document.body.innerHTML = '<div class="target">Original</div>';
+      const change: DOMChange = { selector: '.target', type: 'text', value: 'Modified' };
+
+      manipulator.applyChange(change, 'test_exp');
+      manipulator.applyChange(change, 'test_exp');
+      manipulator.removeChanges('test_exp');
+
+      expect(document.querySelector('.target')?.textContent).toBe('Original');
+    });
+
+    it('should move moved elements back to their original position', () => {
+      document.body.innerHTML = `
+        <div class="source"><span class="first">1</span><span class="item">2</span><span class="last">3</span></div>
+        <div class="destination"></div>
+      `;
+
+      manipulator.applyChange(
+        TestDataFactory.createMoveChange('.item', '.destination', 'lastChild'),
+        'test_exp'
+      );
+      expect(document.querySelector('.destination .item')).not.toBeNull();
+
+      manipulator.removeChanges('test_exp');
+
+      const children = Array.from(document.querySelector('.source')!.children);
+      expect(children.map(el => el.className)).toEqual(['first', 'item', 'last']);
+      expect(document.querySelector('.destination')?.children).toHaveLength(0);
+    });
+
+    it('should re-insert deleted elements', () => {
+      document.body.innerHTML =
+        '<ul class="list"><li class="a">A</li><li class="b">B</li><li class="c">C</li></ul>';
+
+      manipulator.applyChange({ selector: '.b', type: 'delete' }, 'test_exp');
+      expect(document.querySelector('.b')).toBeNull();
+
+      manipulator.removeChanges('test_exp');
+
+      const items = Array.from(document.querySelectorAll('.list li'));
+      expect(items.map(el => el.className)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should remove created elements', () => {
+      document.body.innerHTML = '<div class="container"><p class="existing">Existing</p></div>';
+
+      manipulator.applyChange(
+        {
+          selector: '',
+          type: 'create',
+          element: '<span class="new-1">One</span><span class="new-2">Two</span>',
+          targetSelector: '.container',
+        },
+        'test_exp'
+      );
+      expect(document.querySelectorAll('.container span')).toHaveLength(2);
+
+      manipulator.removeChanges('test_exp');
+
+      expect(document.querySelector('.container')?.innerHTML).toBe(
+        '<p class="existing">Existing</p>'
+      );
+    });
+
+    it('should drop styleRules for the experiment', () => {
+      document.body.innerHTML = '<button class="btn">Click</button>';
+
+      manipulator.applyChange(
+        { selector: '.btn', type: 'styleRules', states: { hover: { color: 'red' } } },
+        'test_exp'
+      );
+      const manager = plugin.getStyleManager('test_exp');
+      expect(manager.getRulesCount()).toBe(1);
+
+      manipulator.removeChanges('test_exp');
+
+      expect(manager.getRulesCount()).toBe(0);
+    });
+
+    it('should unwind stacked changes on the same element', () => {
+      document.body.innerHTML = '<div class="target" style="color: red;">Original</div>';
+
+      manipulator.applyChange(
+        { selector: '.target', type: 'style', value: { color: 'blue' } },
+        'test_exp'
+      );
+      manipulator.applyChange(
+        { selector: '.target', type: 'style', value: { color: 'green' } },
+        'test_exp'
+      );
+      manipulator.removeChanges('test_exp');
+
+      expect(document.querySelector('.target')?.getAttribute('style')).toBe('color: red;');
+    });
+
+    it('should only revert the requested experiment', () => {
+      document.body.innerHTML = '<div class="one">One</div><div class="two">Two</div>';
+
+      manipulator.applyChange({ selector: '.one', type: 'text', value: 'Changed 1' }, 'exp_1');
+      manipulator.applyChange({ selector: '.two', type: 'text', value: 'Changed 2' }, 'exp_2');
+
+      manipulator.removeChanges('exp_1');
+
+      expect(document.querySelector('.one')?.textContent).toBe('One');
+      expect(document.querySelector('.two')?.textContent).toBe('Changed 2');
+
+      manipulator.removeAllChanges();
+
+      expect(document.querySelector('.two')?.textContent).toBe('Two');
+    });
+
+    it('should discard pending changes so they are not applied after revert', async () => {
+      document.body.innerHTML = '<div class="container"></div>';
+
+      manipulator.applyChange(
+        TestDataFactory.createPendingChange('.late', 'text', 'Modified'),
+        'test_exp'
+      );
+      manipulator.removeChanges('test_exp');
+
+      const late = document.createElement('div');
+      late.className = 'late';
+      late.textContent = 'Original';
+      document.querySelector('.container')!.appendChild(late);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(late.textContent).toBe('Original');
+    });
+  });
+
   describe('Performance', () => {
     it('should handle bulk changes efficiently', () => {
       // Create 100 elements
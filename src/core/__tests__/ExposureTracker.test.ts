@@ -225,6 +225,39 @@ describe('ExposureTracker', () => {
       // Should track parent containers, not the button itself
       expect(tracker.needsViewportTracking('exp1')).toBe(true);
     });
+
+    it('should track viewport elements matched by non-CSS selectors', () => {
+      document.body.innerHTML = '<ul><li>One</li><li>Two</li></ul><my-card></my-card>';
+      const shadow = document.querySelector('my-card')!.attachShadow({ mode: 'open' });
+      shadow.innerHTML = '<p class="title">Title</p>';
+
+      const changes: DOMChange[] = [
+        {
+          selector: '//li[2]',
+          selectorType: 'xpath',
+          type: 'text',
+          value: 'Changed',
+          trigger_on_view: true,
+        },
+        { selector: 'my-card >>> .title', type: 'text', value: 'Hi', trigger_on_view: true },
+      ];
+      const allVariantChanges = [changes, changes];
+
+      const flags = calculateTriggerFlags(allVariantChanges);
+      tracker.registerExperiment(
+        'exp1',
+        0,
+        changes,
+        allVariantChanges,
+        flags.hasImmediateTrigger,
+        flags.hasViewportTrigger
+      );
+
+      const trackedElements = (tracker as any).trackedElements as Map<Element, unknown>;
+      expect(trackedElements.has(document.querySelectorAll('li')[1])).toBe(true);
+      expect(trackedElements.has(document.querySelectorAll('li')[0])).toBe(false);
+      expect(trackedElements.has(shadow.querySelector('.title')!)).toBe(true);
+    });
   });
 
   describe('viewport triggering', () => {
@@ -298,6 +331,167 @@ describe('ExposureTracker', () => {
     });
   });
 
+  describe('view criteria', () => {
+    const OriginalObserver = global.IntersectionObserver;
+    let observers: any[];
+    let visibilityState: DocumentVisibilityState;
+
+    beforeEach(() => {
+      document.body.innerHTML = '<div class="teaser">Teaser</div>';
+      observers = [];
+      (global as any).IntersectionObserver = jest.fn(
+        (callback: IntersectionObserverCallback, options?: IntersectionObserverInit) => {
+          const observer = new OriginalObserver(callback, options);
+          observers.push(observer);
+          return observer;
+        }
+      );
+      visibilityState = 'visible';
+      Object.defineProperty(document, 'visibilityState', {
+        configurable: true,
+        get: () => visibilityState,
+      });
+
+      tracker.destroy();
+      tracker = new ExposureTracker(mockContext, false);
+    });
+
+    afterEach(() => {
+      global.IntersectionObserver = OriginalObserver;
+      delete (document as any).visibilityState;
+    });
+
+    function registerTeaser(view: Partial<DOMChange> = {}): void {
+      const changes: DOMChange[] = [
+        { selector: '.teaser', type: 'text', value: 'Seen', trigger_on_view: true, ...view },
+      ];
+      tracker.registerExperiment('exp1', 0, changes, [changes, changes], false, true);
+    }
+
+    function observerFor(threshold: number): any {
+      return observers.find(observer => observer.options?.threshold === threshold);
+    }
+
+    function intersect(observer: any, ratio: number): void {
+      const target = document.querySelector('.teaser')!;
+      observer.callback(
+        [{ target, isIntersecting: ratio > 0, intersectionRatio: ratio }],
+        observer
+      );
+    }
+
+    const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    it('should default to 1% of the element in view, with no margin', async () => {
+      registerTeaser();
+
+      const observer = observerFor(0.01);
+      expect(observer.options).toEqual({ threshold: 0.01, rootMargin: '0px' });
+      expect(observer.observe).toHaveBeenCalledWith(document.querySelector('.teaser'));
+
+      intersect(observer, 0.02);
+      await wait(0);
+      expect(tracker.isTriggered('exp1')).toBe(true);
+    });
+
+    it('should only count the element once the threshold ratio is in view', async () => {
+      registerTeaser({ viewThreshold: 0.5, rootMargin: '0px 0px -20% 0px' });
+
+      const observer = observerFor(0.5);
+      expect(observer.options.rootMargin).toBe('0px 0px -20% 0px');
+
+      // Still intersecting after dropping below the threshold
+      intersect(observer, 0.3);
+      await wait(0);
+      expect(tracker.isTriggered('exp1')).toBe(false);
+
+      intersect(observer, 0.6);
+      await wait(0);
+      expect(tracker.isTriggered('exp1')).toBe(true);
+      expect(observer.unobserve).toHaveBeenCalledWith(document.querySelector('.teaser'));
+    });
+
+    it('should require the element to stay in view for viewDuration', async () => {
+      registerTeaser({ viewDuration: 50 });
+      const observer = observerFor(0.01);
+
+      intersect(observer, 1);
+      await wait(20);
+      intersect(observer, 0);
+      await wait(60);
+      expect(tracker.isTriggered('exp1')).toBe(false);
+
+      intersect(observer, 1);
+      await wait(80);
+      expect(tracker.isTriggered('exp1')).toBe(true);
+    });
+
+    it('should only count elements while the page is visible', async () => {
+      registerTeaser({ viewDuration: 30 });
+      const observer = observerFor(0.01);
+
+      visibilityState = 'hidden';
+      intersect(observer, 1);
+      await wait(50);
+      expect(tracker.isTriggered('exp1')).toBe(false);
+
+      visibilityState = 'visible';
+      document.dispatchEvent(new Event('visibilitychange'));
+      await wait(10);
+      visibilityState = 'hidden';
+      document.dispatchEvent(new Event('visibilitychange'));
+      await wait(50);
+      expect(tracker.isTriggered('exp1')).toBe(false);
+
+      visibilityState = 'visible';
+      document.dispatchEvent(new Event('visibilitychange'));
+      await wait(50);
+      expect(tracker.isTriggered('exp1')).toBe(true);
+    });
+
+    it('should use the tracker defaults and ignore invalid values', async () => {
+      tracker.destroy();
+      tracker = new ExposureTracker(mockContext, false, undefined, undefined, {
+        viewThreshold: 0.75,
+        viewDuration: 0,
+        rootMargin: '100px',
+      });
+      registerTeaser({ viewThreshold: 2, rootMargin: 'auto' });
+
+      const observer = observerFor(0.75);
+      expect(observer.options).toEqual({ threshold: 0.75, rootMargin: '100px' });
+
+      intersect(observer, 0.8);
+      await wait(0);
+      expect(tracker.isTriggered('exp1')).toBe(true);
+    });
+
+    it('should measure every variant with the criteria of the first change for a selector', () => {
+      const control: DOMChange[] = [
+        {
+          selector: '.teaser',
+          type: 'text',
+          value: 'A',
+          trigger_on_view: true,
+          viewThreshold: 0.5,
+        },
+      ];
+      const treatment: DOMChange[] = [
+        {
+          selector: '.teaser',
+          type: 'text',
+          value: 'B',
+          trigger_on_view: true,
+          viewThreshold: 0.9,
+        },
+      ];
+      tracker.registerExperiment('exp1', 1, treatment, [control, treatment], false, true);
+
+      expect(observerFor(0.5).observe).toHaveBeenCalledWith(document.querySelector('.teaser'));
+      expect(observerFor(0.9)).toBeUndefined();
+    });
+  });
+
   describe('cross-variant viewport tracking', () => {
     it('should track viewport elements from ALL variants, not just current variant', () => {
       document.body.innerHTML = `
@@ -593,6 +787,28 @@ describe('ExposureTracker', () => {
       expect(tracker.needsViewportTracking('exp1')).toBe(false);
     });
 
+    it('should put back elements removed by deletes when an experiment is unregistered', () => {
+      document.body.innerHTML =
+        '<ul><li class="first">1</li><li class="gone">2</li><li class="last">3</li></ul>';
+      const changes: DOMChange[] = [{ selector: '.gone', type: 'delete', trigger_on_view: true }];
+      const gone = document.querySelector('.gone');
+
+      tracker.registerExperiment('exp1', 0, changes, [changes], false, true);
+      expect(document.querySelector('.gone')).toBeNull();
+      expect(document.querySelector('[data-absmartly-placeholder]')).not.toBeNull();
+
+      tracker.unregisterExperiment('exp1');
+
+      expect(document.querySelector('.gone')).toBe(gone);
+      expect(Array.from(document.querySelectorAll('li')).map(li => li.className)).toEqual([
+        'first',
+        'gone',
+        'last',
+      ]);
+      expect(document.querySelector('[data-absmartly-placeholder]')).toBeNull();
+      expect(tracker.needsViewportTracking('exp1')).toBe(false);
+    });
+
     it('should clean up all resources on destroy', () => {
       const changes: DOMChange[] = [
         {
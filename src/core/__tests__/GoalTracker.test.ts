@@ -0,0 +1,185 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { GoalTracker } from '../GoalTracker';
+import { MutationHub } from '../MutationHub';
+
+describe('GoalTracker', () => {
+  let hub: MutationHub;
+  let context: { track: jest.Mock };
+  let onTracked: jest.Mock;
+  let tracker: GoalTracker;
+  let observers: any[];
+  const OriginalObserver = global.IntersectionObserver;
+
+  beforeEach(() => {
+    document.body.innerHTML = '<button class="cta">Buy <span>now</span></button>';
+    hub = new MutationHub();
+    context = { track: jest.fn() };
+    onTracked = jest.fn();
+    tracker = new GoalTracker(context as any, hub, false, onTracked);
+
+    observers = [];
+    (global as any).IntersectionObserver = jest.fn((callback: IntersectionObserverCallback) => {
+      const observer = new OriginalObserver(callback);
+      observers.push(observer);
+      return observer;
+    });
+  });
+
+  afterEach(() => {
+    tracker.destroy();
+    hub.destroy();
+    global.IntersectionObserver = OriginalObserver;
+  });
+
+  const waitForFrame = () => new Promise(resolve => setTimeout(resolve, 50));
+
+  describe('click and submit goals', () => {
+    it('should track clicks on matching elements and their descendants', () => {
+      tracker.bind('exp', [
+        { selector: '.cta', event: 'click', goal: 'cta_click', properties: { position: 'hero' } },
+      ]);
+
+      (document.querySelector('.cta span') as HTMLElement).click();
+      document.body.click();
+
+      expect(context.track).toHaveBeenCalledTimes(1);
+      expect(context.track).toHaveBeenCalledWith('cta_click', { position: 'hero' });
+      expect(onTracked).toHaveBeenCalledWith('exp', expect.objectContaining({ goal: 'cta_click' }));
+    });
+
+    it('should cover elements rendered after binding', () => {
+      tracker.bind('exp', [{ selector: '.late', event: 'click', goal: 'late_click' }]);
+
+      document.body.innerHTML = '<a class="late">Late</a>';
+      (document.querySelector('.late') as HTMLElement).click();
+
+      expect(context.track).toHaveBeenCalledWith('late_click', undefined);
+    });
+
+    it('should track clicks that the app stops from propagating', () => {
+      document.querySelector('.cta')!.addEventListener('click', event => event.stopPropagation());
+      tracker.bind('exp', [{ selector: '.cta', event: 'click', goal: 'cta_click' }]);
+
+      (document.querySelector('.cta') as HTMLElement).click();
+
+      expect(context.track).toHaveBeenCalledTimes(1);
+    });
+
+    it('should track form submissions', () => {
+      document.body.innerHTML = '<form class="signup"><input name="email"></form>';
+      tracker.bind('exp', [{ selector: '.signup', event: 'submit', goal: 'signup' }]);
+
+      document.querySelector('.signup')!.dispatchEvent(new Event('submit', { bubbles: true }));
+
+      expect(context.track).toHaveBeenCalledWith('signup', undefined);
+    });
+
+    it('should match text and xpath selectors', () => {
+      tracker.bind('exp', [
+        { selector: 'Buy now', selectorType: 'text', event: 'click', goal: 'text_click' },
+        { selector: '//button', selectorType: 'xpath', event: 'click', goal: 'xpath_click' },
+      ]);
+
+      (document.querySelector('.cta span') as HTMLElement).click();
+
+      expect(context.track.mock.calls.map(call => call[0])).toEqual(['text_click', 'xpath_click']);
+    });
+  });
+
+  describe('visible goals', () => {
+    it('should track once when a matching element enters the viewport', () => {
+      tracker.bind('exp', [{ selector: '.cta', event: 'visible', goal: 'cta_seen' }]);
+
+      const [observer] = observers;
+      const cta = document.querySelector('.cta')!;
+      expect(observer.observe).toHaveBeenCalledWith(cta);
+
+      observer.callback([{ isIntersecting: false, target: cta }], observer);
+      expect(context.track).not.toHaveBeenCalled();
+
+      observer.callback([{ isIntersecting: true, target: cta }], observer);
+      expect(context.track).toHaveBeenCalledWith('cta_seen', undefined);
+      expect(observer.disconnect).toHaveBeenCalled();
+      expect(hub.getWatchCount()).toBe(0);
+    });
+
+    it('should observe matching elements added later', async () => {
+      tracker.bind('exp', [{ selector: '.banner', event: 'visible', goal: 'banner_seen' }]);
+
+      const banner = document.createElement('div');
+      banner.className = 'banner';
+      document.body.appendChild(banner);
+      await waitForFrame();
+
+      expect(observers[0].observe).toHaveBeenCalledWith(banner);
+    });
+
+    it('should not track a reached goal again when re-bound, until reset', () => {
+      const goals = [{ selector: '.cta', event: 'visible' as const, goal: 'cta_seen' }];
+      const cta = document.querySelector('.cta')!;
+      tracker.bind('exp', goals);
+      observers[0].callback([{ isIntersecting: true, target: cta }], observers[0]);
+
+      tracker.bind('exp', goals);
+      expect(observers).toHaveLength(1);
+
+      tracker.reset('exp');
+      tracker.bind('exp', goals);
+      observers[1].callback([{ isIntersecting: true, target: cta }], observers[1]);
+
+      expect(context.track).toHaveBeenCalledTimes(2);
+    });
+
+    it('should track as soon as an element exists without IntersectionObserver', () => {
+      delete (global as any).IntersectionObserver;
+
+      tracker.bind('exp', [{ selector: '.cta', event: 'visible', goal: 'cta_seen' }]);
+
+      expect(context.track).toHaveBeenCalledWith('cta_seen', undefined);
+      expect(hub.getWatchCount()).toBe(0);
+    });
+  });
+
+  it('should remove listeners and watches when unbound', () => {
+    tracker.bind('exp', [
+      { selector: '.cta', event: 'click', goal: 'cta_click' },
+      { selector: '.cta', event: 'visible', goal: 'cta_seen' },
+    ]);
+    tracker.bind('other', [{ selector: '.cta', event: 'click', goal: 'other_click' }]);
+
+    tracker.unbind('exp');
+    (document.querySelector('.cta') as HTMLElement).click();
+
+    expect(context.track.mock.calls).toEqual([['other_click', undefined]]);
+    expect(observers[0].disconnect).toHaveBeenCalled();
+    expect(hub.getWatchCount()).toBe(0);
+
+    tracker.unbind();
+    (document.querySelector('.cta') as HTMLElement).click();
+    expect(context.track).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replace the goals bound before for the same experiment', () => {
+    tracker.bind('exp', [{ selector: '.cta', event: 'click', goal: 'first' }]);
+    tracker.bind('exp', [{ selector: '.cta', event: 'click', goal: 'second' }]);
+
+    (document.querySelector('.cta') as HTMLElement).click();
+
+    expect(context.track.mock.calls).toEqual([['second', undefined]]);
+  });
+
+  it('should skip invalid goals and survive tracking errors', () => {
+    context.track.mockImplementation(() => {
+      throw new Error('Context is finalized');
+    });
+    tracker.bind('exp', [
+      { selector: '.cta', event: 'hover', goal: 'hover' } as any,
+      { selector: '.cta', event: 'click', goal: '' },
+      { selector: '.cta', event: 'click', goal: 'cta_click' },
+    ]);
+
+    expect(() => (document.querySelector('.cta') as HTMLElement).click()).not.toThrow();
+    expect(context.track).toHaveBeenCalledTimes(1);
+    expect(onTracked).not.toHaveBeenCalled();
+  });
+});
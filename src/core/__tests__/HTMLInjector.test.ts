@@ -168,6 +168,7 @@ describe('HTMLInjector', () => {
         code: '<script>console.log("test")</script>',
         priority: 0,
         location: 'headStart',
+        experimentName: 'exp1',
       });
     });
 
@@ -421,6 +422,47 @@ describe('HTMLInjector', () => {
       expect(document.head.querySelectorAll('[data-absmartly-injection]')).toHaveLength(2);
       expect(document.body.querySelectorAll('[data-absmartly-injection]')).toHaveLength(2);
     });
+
+    it('should set the CSP nonce on injected scripts and styles', () => {
+      injector = new HTMLInjector(false, undefined, undefined, 'abc123');
+      const injections = new Map<InjectionLocation, InjectionItem[]>([
+        [
+          'headEnd',
+          [
+            {
+              code: '<style>.a{}</style><script>run()</script><script nonce="own">x()</script>',
+              priority: 0,
+              location: 'headEnd',
+            },
+          ],
+        ],
+      ]);
+
+      injector.inject(injections);
+
+      const [style, script, ownScript] = Array.from(
+        document.head.querySelectorAll('[data-absmartly-injection] style, script')
+      );
+      expect(style.getAttribute('nonce')).toBe('abc123');
+      expect(script.getAttribute('nonce')).toBe('abc123');
+      expect(ownScript.getAttribute('nonce')).toBe('own');
+    });
+
+    it('should take over containers already in the page instead of injecting them again', () => {
+      const injections = new Map<InjectionLocation, InjectionItem[]>([
+        ['bodyEnd', [{ code: '<p>Server</p>', priority: 0, location: 'bodyEnd' }]],
+      ]);
+      new HTMLInjector(false, undefined, undefined, '', document).inject(injections);
+      const rendered = document.body.querySelector('[data-absmartly-injection]');
+
+      const result = injector.inject(injections);
+
+      expect(result.count).toBe(0);
+      expect(document.body.querySelectorAll('[data-absmartly-injection]')).toHaveLength(1);
+
+      injector.destroy();
+      expect(rendered?.isConnected).toBe(false);
+    });
   });
 
   describe('destroy', () => {
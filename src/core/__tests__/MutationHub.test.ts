@@ -0,0 +1,241 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { MutationHub, getIndexKeys } from '../MutationHub';
+
+describe('MutationHub', () => {
+  let hub: MutationHub;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    hub = new MutationHub();
+  });
+
+  afterEach(() => {
+    hub.destroy();
+    jest.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  const waitForFrame = () => new Promise(resolve => setTimeout(resolve, 50));
+
+  describe('getIndexKeys', () => {
+    it('should key selectors by the id, class or tag of their last compound', () => {
+      expect(getIndexKeys('#main .card > h2.title#headline')).toEqual([
+        { kind: 'id', value: 'headline' },
+      ]);
+      expect(getIndexKeys('.list li.item:not(.done)')).toEqual([{ kind: 'class', value: 'item' }]);
+      expect(getIndexKeys('main BUTTON[data-x="a b"]')).toEqual([{ kind: 'tag', value: 'button' }]);
+      expect(getIndexKeys('.a, #b')).toEqual([
+        { kind: 'class', value: 'a' },
+        { kind: 'id', value: 'b' },
+      ]);
+    });
+
+    it('should not key selectors that need a query', () => {
+      expect(getIndexKeys('[data-test="x"]')).toBeNull();
+      expect(getIndexKeys('.a, [data-test]')).toBeNull();
+      expect(getIndexKeys('my-app >>> .title')).toBeNull();
+      expect(getIndexKeys('#a\\:b')).toBeNull();
+      expect(getIndexKeys('//div', 'xpath')).toBeNull();
+      expect(getIndexKeys('Buy now', 'text')).toBeNull();
+    });
+  });
+
+  describe('watch', () => {
+    it('should report added elements and their matching descendants once per frame', async () => {
+      const onAdded = jest.fn();
+      hub.watch({ selector: '.card', onAdded });
+
+      const list = document.createElement('div');
+      list.innerHTML = '<p class="card">1</p><p class="card">2</p><p>3</p>';
+      document.body.appendChild(list);
+      const third = document.createElement('p');
+      third.className = 'card';
+      list.appendChild(third);
+
+      await waitForFrame();
+
+      expect(onAdded).toHaveBeenCalledTimes(1);
+      expect(onAdded.mock.calls[0][0]).toHaveLength(3);
+    });
+
+    it('should only match added elements against candidate selectors', async () => {
+      const matches = jest.spyOn(Element.prototype, 'matches');
+      const onCard = jest.fn();
+      const onOther = jest.fn();
+      hub.watch({ selector: '.card', onAdded: onCard });
+      hub.watch({ selector: '#other', onAdded: onOther });
+
+      document.body.innerHTML = '<div><span class="card"></span><span></span></div>';
+      hub.flush();
+
+      expect(onCard).toHaveBeenCalledWith([document.querySelector('.card')]);
+      expect(onOther).not.toHaveBeenCalled();
+      expect(matches).toHaveBeenCalledTimes(1);
+    });
+
+    it('should query selectors without an index key', () => {
+      const onAdded = jest.fn();
+      hub.watch({ selector: '[data-test="x"]', onAdded });
+      hub.watch({ selector: '//em', selectorType: 'xpath', onAdded });
+
+      document.body.innerHTML = '<div data-test="x"><em>Hi</em></div>';
+      hub.flush();
+
+      expect(onAdded).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only report elements inside the root', () => {
+      document.body.innerHTML = '<div id="root"></div><div id="outside"></div>';
+      const onAdded = jest.fn();
+      hub.watch({ selector: '.card', root: document.getElementById('root')!, onAdded });
+
+      document.getElementById('outside')!.innerHTML = '<p class="card"></p>';
+      hub.flush();
+      expect(onAdded).not.toHaveBeenCalled();
+
+      document.getElementById('root')!.innerHTML = '<p class="card"></p>';
+      hub.flush();
+      expect(onAdded).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report elements added to observed shadow roots', () => {
+      const host = document.createElement('div');
+      const shadowRoot = host.attachShadow({ mode: 'open' });
+      document.body.appendChild(host);
+      const onAdded = jest.fn();
+      hub.watch({ selector: '.card', onAdded });
+      hub.observe(shadowRoot);
+
+      shadowRoot.innerHTML = '<p class="card"></p>';
+      hub.flush();
+
+      expect(onAdded).toHaveBeenCalledWith([shadowRoot.querySelector('.card')]);
+    });
+
+    it('should skip elements removed before the frame', () => {
+      const onAdded = jest.fn();
+      hub.watch({ selector: '.card', onAdded });
+
+      document.body.innerHTML = '<p class="card"></p>';
+      document.body.innerHTML = '';
+      hub.flush();
+
+      expect(onAdded).not.toHaveBeenCalled();
+    });
+
+    it('should stop reporting and observing once stopped', async () => {
+      const onAdded = jest.fn();
+      const stop = hub.watch({ selector: '.card', onAdded });
+      expect(hub.getWatchCount()).toBe(1);
+
+      stop();
+      document.body.innerHTML = '<p class="card"></p>';
+      await waitForFrame();
+
+      expect(onAdded).not.toHaveBeenCalled();
+      expect(hub.getWatchCount()).toBe(0);
+      expect((hub as any).observer).toBeNull();
+    });
+
+    it('should keep calling other watches when a callback throws', () => {
+      const onAdded = jest.fn();
+      hub.watch({
+        selector: '.card',
+        onAdded: () => {
+          throw new Error('boom');
+        },
+      });
+      hub.watch({ selector: 'p', onAdded });
+
+      document.body.innerHTML = '<p class="card"></p>';
+      hub.flush();
+
+      expect(onAdded).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('onAttributes', () => {
+    it('should deliver attribute mutations right away without waiting for a frame', async () => {
+      document.body.innerHTML = '<p class="card"></p>';
+      const listener = jest.fn();
+      hub.onAttributes(listener);
+
+      document.querySelector('.card')!.setAttribute('style', 'color: red');
+      await Promise.resolve();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0][0]).toMatchObject({
+        type: 'attributes',
+        attributeName: 'style',
+        oldValue: null,
+      });
+    });
+
+    it('should not lose attribute mutations when watches change the observer options', () => {
+      document.body.innerHTML = '<p class="card"></p>';
+      const listener = jest.fn();
+      hub.onAttributes(listener);
+
+      document.querySelector('.card')!.setAttribute('title', 'x');
+      hub.watch({ selector: '.card', onAdded: jest.fn() });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('benchmark', () => {
+    // A large page: 200 sections of 25 elements, with 300 watched selectors of which only a
+    // few match. Every added element would be matched against every selector without the index.
+    function renderLargePage(): number {
+      const sections: string[] = [];
+      for (let i = 0; i < 200; i++) {
+        const items = Array.from(
+          { length: 8 },
+          (_, j) => `<li class="item item-${j}"><a href="#">Item</a><span>${j}</span></li>`
+        ).join('');
+        sections.push(`<section class="section s-${i}"><ul>${items}</ul></section>`);
+      }
+      document.body.innerHTML = `<main>${sections.join('')}</main>`;
+      return document.body.getElementsByTagName('*').length;
+    }
+
+    it('should match a large DOM against many watched selectors with few checks', () => {
+      const watched = Array.from({ length: 300 }, (_, i) => `.s-${i} .item-3`);
+      const calls: number[] = [];
+      for (const selector of watched) {
+        hub.watch({ selector, onAdded: elements => calls.push(elements.length) });
+      }
+      const matches = jest.spyOn(Element.prototype, 'matches');
+
+      const elementCount = renderLargePage();
+      const start = performance.now();
+      hub.flush();
+      const duration = performance.now() - start;
+
+      expect(elementCount).toBeGreaterThan(5000);
+      // One watch per rendered section, each with its one item-3
+      expect(calls).toHaveLength(200);
+      expect(calls.every(count => count === 1)).toBe(true);
+      // Only the item-3 elements are candidates: 200 elements x 300 selectors on the
+      // same class, instead of 5000+ elements x 300 selectors
+      expect(matches.mock.calls.length).toBeLessThanOrEqual(200 * 300);
+      expect(matches.mock.calls.length).toBeLessThan(elementCount * watched.length * 0.05);
+      expect(duration).toBeLessThan(3000);
+    });
+
+    it('should skip unrelated DOM churn without matching', () => {
+      for (let i = 0; i < 300; i++) {
+        hub.watch({ selector: `#target-${i}`, onAdded: jest.fn() });
+      }
+      const matches = jest.spyOn(Element.prototype, 'matches');
+
+      renderLargePage();
+      const start = performance.now();
+      hub.flush();
+      const duration = performance.now() - start;
+
+      expect(matches).not.toHaveBeenCalled();
+      expect(duration).toBeLessThan(3000);
+    });
+  });
+});
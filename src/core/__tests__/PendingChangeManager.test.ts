@@ -405,4 +405,90 @@ describe('PendingChangeManager', () => {
       expect(manager.getAppliedCount()).toBe(1);
     });
   });
+  describe('dependencies', () => {
+    it('should hold a blocked change until its dependency resolves', () => {
+      document.body.innerHTML = '<div class="target"></div>';
+      const change: DOMChange = {
+        selector: '.target',
+        type: 'text',
+        value: 'After',
+        dependsOn: ['first'],
+      };
+
+      manager.addBlocked({ change, experimentName: 'test-exp' }, ['first']);
+
+      expect(applyFnMock).not.toHaveBeenCalled();
+      expect(manager.isPending(change, 'test-exp')).toBe(true);
+
+      manager.resolveDependency('other-exp', 'first');
+      expect(applyFnMock).not.toHaveBeenCalled();
+
+      manager.resolveDependency('test-exp', 'first');
+      expect(applyFnMock).toHaveBeenCalledWith(change, 'test-exp');
+      expect(manager.isPending(change, 'test-exp')).toBe(false);
+    });
+
+    it('should release dependents when a pending change with an id is applied', async () => {
+      const create: DOMChange = {
+        id: 'promo',
+        selector: '',
+        type: 'create',
+        element: '<div class="promo"></div>',
+        targetSelector: '.slot',
+      };
+      const style: DOMChange = {
+        selector: '.promo',
+        type: 'style',
+        value: { color: 'red' },
+        dependsOn: ['promo'],
+      };
+
+      manager.addPending({ change: create, experimentName: 'test-exp' });
+      manager.addBlocked({ change: style, experimentName: 'test-exp' }, ['promo']);
+
+      const slot = document.createElement('div');
+      slot.className = 'slot';
+      document.body.appendChild(slot);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(applyFnMock).toHaveBeenCalledWith(create, 'test-exp', slot);
+      expect(applyFnMock).toHaveBeenCalledWith(style, 'test-exp');
+    });
+
+    it('should apply every pending change on one element before releasing dependents', async () => {
+      const text: DOMChange = { selector: '.card', type: 'text', value: 'New' };
+      const badge: DOMChange = { id: 'badge', selector: '.card', type: 'class', add: ['new'] };
+      const label: DOMChange = {
+        selector: '.card',
+        type: 'attribute',
+        value: { 'aria-label': 'New' },
+        dependsOn: ['badge'],
+      };
+
+      manager.addPending({ change: text, experimentName: 'test-exp' });
+      manager.addPending({ change: badge, experimentName: 'test-exp' });
+      manager.addBlocked({ change: label, experimentName: 'test-exp' }, ['badge']);
+
+      const card = document.createElement('div');
+      card.className = 'card';
+      document.body.appendChild(card);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(applyFnMock).toHaveBeenCalledWith(text, 'test-exp', card);
+      expect(applyFnMock).toHaveBeenCalledWith(badge, 'test-exp', card);
+      expect(applyFnMock).toHaveBeenCalledWith(label, 'test-exp');
+      expect(manager.getPendingCount()).toBe(0);
+      expect(manager.isPending(label, 'test-exp')).toBe(false);
+    });
+
+    it('should drop blocked changes with removeAllPending', () => {
+      const change: DOMChange = { selector: '.x', type: 'text', value: 'x', dependsOn: ['a'] };
+
+      manager.addBlocked({ change, experimentName: 'test-exp' }, ['a']);
+      manager.removeAllPending('test-exp');
+      manager.resolveDependency('test-exp', 'a');
+
+      expect(applyFnMock).not.toHaveBeenCalled();
+    });
+  });
 });
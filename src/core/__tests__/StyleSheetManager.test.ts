@@ -276,6 +276,30 @@ describe('StyleSheetManager', () => {
     });
   });
 
+  describe('persist()', () => {
+    it('should restore the stylesheet when it is removed from the head', async () => {
+      manager.persist();
+      manager.setRule('vars', ':root { --brand: red; }');
+      manager.ensure().remove();
+
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      const restored = document.getElementById(testId);
+      expect(restored && document.head.contains(restored)).toBe(true);
+      expect(restored?.textContent).toBe(':root { --brand: red; }');
+    });
+
+    it('should stop restoring after destroy', async () => {
+      manager.persist();
+      manager.setRule('vars', ':root { --brand: red; }');
+      manager.destroy();
+
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(document.getElementById(testId)).toBeNull();
+    });
+  });
+
   describe('destroy()', () => {
     it('should clear all rules and remove style element', () => {
       manager.setRule('test-rule', '.test { color: red; }');
@@ -318,6 +342,77 @@ describe('StyleSheetManager', () => {
     });
   });
 
+  describe('CSP nonce', () => {
+    it('should set the nonce on document and shadow root style elements', () => {
+      const nonceManager = new StyleSheetManager('nonce-test', false, 'document', 'abc123');
+      const host = document.createElement('div');
+      document.body.appendChild(host);
+      const shadowRoot = host.attachShadow({ mode: 'open' });
+
+      nonceManager.setRule('rule', '.a { color: red; }');
+      nonceManager.adoptInto(shadowRoot);
+
+      expect(document.getElementById('nonce-test')?.getAttribute('nonce')).toBe('abc123');
+      expect(shadowRoot.querySelector('style')?.getAttribute('nonce')).toBe('abc123');
+
+      nonceManager.destroy();
+      document.body.innerHTML = '';
+    });
+
+    it('should not set a nonce attribute without a nonce', () => {
+      manager.setRule('rule', '.a { color: red; }');
+
+      expect(document.getElementById(testId)?.hasAttribute('nonce')).toBe(false);
+    });
+  });
+
+  describe('adoptInto()', () => {
+    function createShadowRoot(): ShadowRoot {
+      const host = document.createElement('div');
+      document.body.appendChild(host);
+      return host.attachShadow({ mode: 'open' });
+    }
+
+    afterEach(() => {
+      document.body.innerHTML = '';
+    });
+
+    it('should render rules inside the shadow root and keep them in sync', () => {
+      const shadowRoot = createShadowRoot();
+      manager.setRule('first', '.a { color: red; }');
+
+      manager.adoptInto(shadowRoot);
+      const styleEl = shadowRoot.querySelector('style')!;
+      expect(styleEl.textContent).toBe('.a { color: red; }');
+
+      manager.setRule('second', '.b { color: blue; }');
+      expect(styleEl.textContent).toContain('.b { color: blue; }');
+    });
+
+    it('should not adopt into the same shadow root twice', () => {
+      const shadowRoot = createShadowRoot();
+
+      manager.adoptInto(shadowRoot);
+      manager.adoptInto(shadowRoot);
+
+      expect(shadowRoot.querySelectorAll('style')).toHaveLength(1);
+    });
+
+    it('should not render shadow-scoped sheets into the document head', () => {
+      const shadowManager = new StyleSheetManager('shadow-test', false, 'shadow');
+      const shadowRoot = createShadowRoot();
+
+      shadowManager.adoptInto(shadowRoot);
+      shadowManager.setRule('rule', '.a { color: red; }');
+
+      expect(document.getElementById('shadow-test')).toBeNull();
+      expect(shadowRoot.querySelector('style')?.textContent).toBe('.a { color: red; }');
+
+      shadowManager.destroy();
+      expect(shadowRoot.querySelector('style')).toBeNull();
+    });
+  });
+
   describe('utility methods', () => {
     describe('getRulesCount()', () => {
       it('should return correct count', () => {
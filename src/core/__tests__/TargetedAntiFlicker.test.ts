@@ -0,0 +1,80 @@
+import { TargetedAntiFlicker, getHideSelector } from '../TargetedAntiFlicker';
+
+describe('TargetedAntiFlicker', () => {
+  const styleId = 'test-antiflicker';
+  const getCss = () => document.getElementById(styleId)?.textContent || '';
+  let antiFlicker: TargetedAntiFlicker;
+
+  beforeEach(() => {
+    document.head.innerHTML = '';
+    antiFlicker = new TargetedAntiFlicker(styleId, false);
+  });
+
+  afterEach(() => {
+    antiFlicker.destroy();
+  });
+
+  describe('getHideSelector', () => {
+    it('should return the selector of element changes', () => {
+      expect(getHideSelector({ selector: '.title', type: 'text', value: 'x' })).toBe('.title');
+      expect(getHideSelector({ selector: '.cta', type: 'delete' })).toBe('.cta');
+    });
+
+    it('should skip changes that cannot or need not be hidden', () => {
+      expect(
+        getHideSelector({ selector: '', type: 'create', element: '<b></b>', targetSelector: 'a' })
+      ).toBeNull();
+      expect(getHideSelector({ selector: '.a', type: 'styleRules', value: '.a{}' })).toBeNull();
+      expect(
+        getHideSelector({ selector: '//p', selectorType: 'xpath', type: 'delete' })
+      ).toBeNull();
+      expect(getHideSelector({ selector: '.a', shadowHost: 'my-app', type: 'delete' })).toBeNull();
+      expect(getHideSelector({ selector: '.a', type: 'delete', trigger_on_view: true })).toBeNull();
+      expect(getHideSelector({ selector: '.a', type: 'delete', enabled: false })).toBeNull();
+    });
+  });
+
+  it('should keep a selector hidden until every experiment holding it reveals it', () => {
+    antiFlicker.hide('exp_a', ['.hero', '.price']);
+    antiFlicker.hide('exp_b', ['.hero']);
+
+    expect(getCss()).toContain('.hero { visibility: hidden !important; }');
+    expect(antiFlicker.getHiddenSelectors('exp_b')).toEqual(['.hero']);
+
+    antiFlicker.reveal('exp_a', '.hero');
+    expect(getCss()).toContain('.hero');
+
+    antiFlicker.reveal('exp_b', '.hero');
+    expect(getCss()).not.toContain('.hero');
+    expect(antiFlicker.getHiddenSelectors()).toEqual(['.price']);
+  });
+
+  it('should reveal an experiment or everything at once', () => {
+    antiFlicker.hide('exp_a', ['.hero']);
+    antiFlicker.hide('exp_b', ['.price']);
+
+    antiFlicker.revealExperiment('exp_a');
+    expect(antiFlicker.getHiddenSelectors()).toEqual(['.price']);
+
+    antiFlicker.revealAll();
+    expect(getCss()).toBe('');
+  });
+
+  it('should fade targets in when a transition is configured', () => {
+    jest.useFakeTimers();
+    const fading = new TargetedAntiFlicker('fading-antiflicker', '0.2s ease-in');
+    const fadingCss = () => document.getElementById('fading-antiflicker')?.textContent || '';
+
+    fading.hide('exp', ['.hero']);
+    expect(fadingCss()).toContain('opacity: 0 !important');
+
+    fading.reveal('exp', '.hero');
+    expect(fadingCss()).toContain('opacity: 1 !important; transition: opacity 0.2s ease-in');
+
+    jest.advanceTimersByTime(200);
+    expect(fadingCss()).toBe('');
+
+    fading.destroy();
+    jest.useRealTimers();
+  });
+});
@@ -11,5 +11,7 @@ export * from '../types';
 export { DOMChangesPluginLite };
 export { DOMChangesPluginLite as DOMChangesPlugin }; // Alias for backward compatibility
 
+export { validateDOMChangesConfig } from '../parsers/configValidator';
+
 // Default export for UMD builds
 export default DOMChangesPluginLite;
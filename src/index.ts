@@ -26,6 +26,13 @@ export {
   URLRedirectPlugin,
 };
 
+// Export DOM changes config validation
+export { validateDOMChangesConfig } from './parsers/configValidator';
+
+// Export server-side rendering of DOM changes
+export { renderDOMChanges } from './ssr/renderDOMChanges';
+export type { RenderDOMChangesOptions } from './ssr/renderDOMChanges';
+
 // Export cookie utilities
 export {
   getCookie,
@@ -5,12 +5,20 @@ import {
   ABsmartlyContext,
   ExperimentData,
   DOMChangesData,
-  DOMChangesConfig,
   RawInjectionData,
   InjectionDataWithFilter,
+  ExperimentVariant,
+  ConfigDiagnostic,
 } from '../types';
 import { logDebug } from '../utils/debug';
-import { URLMatcher } from '../utils/URLMatcher';
+import { validateDOMChangesConfig } from './configValidator';
+import {
+  flattenChanges,
+  getURLFilterMatches,
+  hasURLScope,
+  isDOMChangesConfig,
+  matchesURLScope,
+} from '../utils/urlScope';
 
 export class VariantExtractor {
   private context: ABsmartlyContext;
@@ -208,10 +216,9 @@ export class VariantExtractor {
       }
     }
 
-    // Check if it's the new wrapped format (DOMChangesConfig)
-    if (data && typeof data === 'object' && !Array.isArray(data) && 'changes' in data) {
-      const config = data as DOMChangesConfig;
-      return this.parseChanges(config.changes);
+    // Check if it's the new wrapped format (DOMChangesConfig), whose pages add more changes
+    if (isDOMChangesConfig(data)) {
+      return this.parseChanges(flattenChanges(data));
     }
 
     // Legacy array format
@@ -283,7 +290,7 @@ export class VariantExtractor {
     const obj = change as Record<string, unknown>;
 
     // Check required fields
-    // Note: selector can be empty string for 'create' and 'styleRules' types
+    // Note: selector can be empty string for 'create', 'styleRules' and 'cssVariables' types
     if (obj.selector === undefined || obj.selector === null || !obj.type) {
       return false;
     }
@@ -300,6 +307,7 @@ export class VariantExtractor {
       'create',
       'delete',
       'styleRules',
+      'cssVariables',
     ];
     if (!validTypes.includes(obj.type as string)) {
       return false;
@@ -333,6 +341,7 @@ export class VariantExtractor {
 
       case 'style':
       case 'attribute':
+      case 'cssVariables':
         if (!obj.value || typeof obj.value !== 'object') {
           return false;
         }
@@ -413,25 +422,7 @@ export class VariantExtractor {
         const variant = experiment.variants[i];
         if (!variant) continue;
 
-        let changesData = null;
-
-        // First check variant.variables
-        if (variant.variables && variant.variables[this.variableName]) {
-          changesData = variant.variables[this.variableName];
-        }
-        // Then check variant.config
-        else if (variant.config) {
-          try {
-            const config =
-              typeof variant.config === 'string' ? JSON.parse(variant.config) : variant.config;
-
-            if (config && config[this.variableName]) {
-              changesData = config[this.variableName];
-            }
-          } catch (e) {
-            logDebug('[VariantExtractor] Failed to parse variant.config:', e);
-          }
-        }
+        let changesData = this.getRawChangesData(variant);
 
         // Store ALL variants for cross-variant tracking, even if they have no DOM changes
         // This is critical for SRM prevention - we must track ALL variants
@@ -461,6 +452,67 @@ export class VariantExtractor {
     return variantsData;
   }
 
+  /**
+   * Names of all experiments in the context data, with or without DOM changes
+   */
+  getExperimentNames(): string[] {
+    try {
+      const contextData = this.context.data() as ContextData;
+      return contextData?.experiments?.map(exp => exp.name) || [];
+    } catch (error) {
+      logDebug('[VariantExtractor] Failed to read experiment names:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Validate the raw DOM changes payload of every variant of an experiment. Returns the
+   * diagnostics of the variants that have problems, keyed by variant index.
+   */
+  validateExperiment(experimentName: string): Map<number, ConfigDiagnostic[]> {
+    const diagnosticsByVariant = new Map<number, ConfigDiagnostic[]>();
+    const experiment = this.getExperiment(experimentName);
+
+    experiment?.variants?.forEach((variant, index) => {
+      const changesData = variant ? this.getRawChangesData(variant) : null;
+      if (!changesData) {
+        return;
+      }
+      const diagnostics = validateDOMChangesConfig(changesData);
+      if (diagnostics.length > 0) {
+        diagnosticsByVariant.set(index, diagnostics);
+      }
+    });
+
+    return diagnosticsByVariant;
+  }
+
+  /**
+   * The DOM changes payload of a variant as stored, from variant.variables or variant.config
+   */
+  private getRawChangesData(variant: ExperimentVariant): unknown {
+    // First check variant.variables
+    if (variant.variables && variant.variables[this.variableName]) {
+      return variant.variables[this.variableName];
+    }
+
+    // Then check variant.config
+    if (variant.config) {
+      try {
+        const config =
+          typeof variant.config === 'string' ? JSON.parse(variant.config) : variant.config;
+
+        if (config && config[this.variableName]) {
+          return config[this.variableName];
+        }
+      } catch (e) {
+        logDebug('[VariantExtractor] Failed to parse variant.config:', e);
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Check if any variant of an experiment has changes that match the current URL
    * This is critical for SRM prevention - if ANY variant matches URL, ALL variants must be tracked
@@ -471,18 +523,14 @@ export class VariantExtractor {
     let hasAnyURLFilter = false;
 
     for (const [, data] of variantsData) {
-      // Check if this variant has URL filter in wrapped format
-      if (data && typeof data === 'object' && !Array.isArray(data) && 'urlFilter' in data) {
-        const config = data as DOMChangesConfig;
-        if (config.urlFilter) {
-          hasAnyURLFilter = true;
-          if (URLMatcher.matches(config.urlFilter, url)) {
-            return true; // At least one variant matches this URL
-          }
+      // URL filters can be set on the variant, on its pages or on individual changes
+      if (hasURLScope(data)) {
+        hasAnyURLFilter = true;
+        if (matchesURLScope(data, url)) {
+          return true; // At least one variant has something to do on this URL
         }
       }
-      // Note: Legacy array format or wrapped format without urlFilter doesn't affect matching
-      // We only check URL filters that exist
+      // Note: Variants without any URL filter don't affect matching
     }
 
     // If NO variant has a URL filter, match all URLs (legacy behavior)
@@ -490,6 +538,21 @@ export class VariantExtractor {
     return !hasAnyURLFilter;
   }
 
+  /**
+   * Whether the experiment's variants get the same changes on both URLs, going by which of
+   * their URL filters match
+   */
+  matchesURLsAlike(experimentName: string, url: string, otherURL: string): boolean {
+    for (const [, data] of this.getAllVariantsData(experimentName)) {
+      const matches = getURLFilterMatches(data, url);
+      const otherMatches = getURLFilterMatches(data, otherURL);
+      if (matches.some((match, index) => match !== otherMatches[index])) {
+        return false;
+      }
+    }
+    return true;
+  }
+
   /**
    * Extract __inject_html from all variants for all experiments
    * Checks both variant.variables and variant.config
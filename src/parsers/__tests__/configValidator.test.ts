@@ -0,0 +1,268 @@
+import { validateDOMChangesConfig } from '../configValidator';
+
+describe('validateDOMChangesConfig', () => {
+  it('should return no diagnostics for valid payloads', () => {
+    expect(
+      validateDOMChangesConfig([
+        { selector: '.title', type: 'text', value: 'Hello' },
+        { selector: '.cta', type: 'class', add: ['primary'] },
+        { selector: '', type: 'create', element: '<div></div>', targetSelector: 'main' },
+      ])
+    ).toEqual([]);
+
+    expect(
+      validateDOMChangesConfig({
+        changes: [{ selector: '.box', type: 'style', value: { color: 'red' } }],
+        urlFilter: { include: ['^/products/\\d+$'], mode: 'regex', matchType: 'path' },
+        waitForElement: true,
+      })
+    ).toEqual([]);
+  });
+
+  it('should accept the payload as a JSON string', () => {
+    expect(validateDOMChangesConfig('[{"selector":".a","type":"delete"}]')).toEqual([]);
+    expect(validateDOMChangesConfig('{not json')).toEqual([
+      { path: '$', severity: 'error', message: 'Payload is not valid JSON' },
+    ]);
+  });
+
+  it('should reject payloads that are neither an array nor a changes object', () => {
+    expect(validateDOMChangesConfig(42)[0]).toMatchObject({ path: '$', severity: 'error' });
+    expect(validateDOMChangesConfig({ urlFilter: '/home' })).toEqual([
+      { path: '$.changes', severity: 'error', message: 'changes must be an array' },
+    ]);
+  });
+
+  it('should report unknown and missing change types', () => {
+    const diagnostics = validateDOMChangesConfig([
+      { selector: '.a', type: 'blink' },
+      { selector: '.b' },
+      'not a change',
+    ]);
+
+    expect(diagnostics).toEqual([
+      { path: '$[0].type', severity: 'error', message: 'Unknown change type "blink"' },
+      { path: '$[1].type', severity: 'error', message: 'Missing change type' },
+      { path: '$[2]', severity: 'error', message: 'Change must be an object' },
+    ]);
+  });
+
+  it('should report missing fields per change type', () => {
+    const diagnostics = validateDOMChangesConfig({
+      changes: [
+        { selector: '.a', type: 'text' },
+        { selector: '.b', type: 'style', value: 'color: red' },
+        { selector: '.c', type: 'class' },
+        { selector: '.d', type: 'move' },
+        { selector: '', type: 'create', targetSelector: 'main' },
+        { selector: '.f', type: 'styleRules' },
+        { type: 'html', value: '<b>hi</b>' },
+      ],
+    });
+
+    expect(diagnostics.map(d => [d.path, d.severity])).toEqual([
+      ['$.changes[0].value', 'error'],
+      ['$.changes[1].value', 'error'],
+      ['$.changes[2]', 'error'],
+      ['$.changes[3].targetSelector', 'error'],
+      ['$.changes[4].element', 'error'],
+      ['$.changes[5]', 'error'],
+      ['$.changes[6].selector', 'error'],
+    ]);
+  });
+
+  it('should test-parse selectors', () => {
+    const diagnostics = validateDOMChangesConfig([
+      { selector: 'div[', type: 'delete' },
+      { selector: '//div[', selectorType: 'xpath', type: 'delete' },
+      { selector: 'my-app >>> [[x', type: 'delete' },
+      { selector: '.ok', type: 'move', targetSelector: '>>>', position: 'inside' },
+      { selector: 'Buy now', selectorType: 'text', type: 'delete' },
+    ]);
+
+    expect(diagnostics).toEqual([
+      { path: '$[0].selector', severity: 'error', message: 'Invalid css selector "div["' },
+      { path: '$[1].selector', severity: 'error', message: 'Invalid xpath selector "//div["' },
+      { path: '$[2].selector', severity: 'error', message: 'Invalid css selector "[[x"' },
+      { path: '$[3].targetSelector', severity: 'error', message: 'Selector is empty' },
+      {
+        path: '$[3].position',
+        severity: 'error',
+        message: 'Unknown position "inside", expected before, after, firstChild, lastChild',
+      },
+    ]);
+  });
+
+  it('should report invalid regex URL filters and unknown filter options', () => {
+    const diagnostics = validateDOMChangesConfig({
+      changes: [],
+      urlFilter: { include: ['^/ok$', '/products/(\\d+'], mode: 'regex', matchtype: 'path' },
+    });
+
+    expect(diagnostics).toEqual([
+      {
+        path: '$.urlFilter.matchtype',
+        severity: 'warning',
+        message: 'Unknown key "matchtype" is ignored',
+      },
+      {
+        path: '$.urlFilter.include[1]',
+        severity: 'error',
+        message: expect.stringContaining('Invalid regular expression'),
+      },
+    ]);
+  });
+
+  it('should not treat simple URL patterns as regexes', () => {
+    expect(validateDOMChangesConfig({ changes: [], urlFilter: ['/products/(*'] })).toEqual([]);
+  });
+
+  it('should warn about unknown keys', () => {
+    const diagnostics = validateDOMChangesConfig({
+      changes: [{ selector: '.a', type: 'delete', persistStlye: true, 'data-note': 'x' }],
+      waitForElemnt: true,
+    });
+
+    expect(diagnostics).toEqual([
+      {
+        path: '$.waitForElemnt',
+        severity: 'warning',
+        message: 'Unknown key "waitForElemnt" is ignored',
+      },
+      {
+        path: '$.changes[0].persistStlye',
+        severity: 'warning',
+        message: 'Unknown key "persistStlye" is ignored',
+      },
+      {
+        path: '$.changes[0]["data-note"]',
+        severity: 'warning',
+        message: 'Unknown key "data-note" is ignored',
+      },
+    ]);
+  });
+
+  it('should validate pages and per-change URL filters', () => {
+    const diagnostics = validateDOMChangesConfig({
+      pages: [
+        { urlFilter: '/products/*', changes: [{ selector: '.a', type: 'delete' }] },
+        { changes: [{ selector: '.b', type: 'delete', urlFilter: 42 }], title: 'x' },
+        'listing',
+      ],
+    });
+
+    expect(diagnostics.map(d => [d.path, d.severity])).toEqual([
+      ['$.pages[1].title', 'warning'],
+      ['$.pages[1].urlFilter', 'warning'],
+      ['$.pages[1].changes[0].urlFilter', 'error'],
+      ['$.pages[2]', 'error'],
+    ]);
+  });
+
+  it('should validate goals', () => {
+    const diagnostics = validateDOMChangesConfig({
+      goals: [
+        { selector: '.cta', event: 'click', goal: 'cta_click', properties: { position: 'hero' } },
+        { selector: 'form', event: 'hover', goal: '', properties: 'x' },
+        { selector: '.a[', event: 'visible', goal: 'seen', once: true },
+        'cta_click',
+      ],
+    });
+
+    expect(diagnostics.map(d => [d.path, d.severity])).toEqual([
+      ['$.goals[1].event', 'error'],
+      ['$.goals[1].goal', 'error'],
+      ['$.goals[1].properties', 'error'],
+      ['$.goals[2].once', 'warning'],
+      ['$.goals[2].selector', 'error'],
+      ['$.goals[3]', 'error'],
+    ]);
+    expect(validateDOMChangesConfig({ goals: {} })).toEqual([
+      { path: '$.goals', severity: 'error', message: 'goals must be an array' },
+    ]);
+  });
+
+  it('should warn about view criteria that are ignored', () => {
+    const diagnostics = validateDOMChangesConfig({
+      changes: [
+        { selector: '.a', type: 'delete', trigger_on_view: true, viewThreshold: 0.5 },
+        { selector: '.b', type: 'delete', viewThreshold: 50, viewDuration: '1s' },
+        { selector: '.c', type: 'delete', rootMargin: '0px 0px -20% 0px' },
+      ],
+      viewDuration: 1000,
+      rootMargin: '10em',
+    });
+
+    expect(diagnostics.map(d => [d.path, d.severity])).toEqual([
+      ['$.changes[1].viewThreshold', 'warning'],
+      ['$.changes[1].viewDuration', 'warning'],
+      ['$.rootMargin', 'warning'],
+    ]);
+  });
+
+  it('should validate change conditions', () => {
+    const diagnostics = validateDOMChangesConfig([
+      {
+        selector: '.a',
+        type: 'delete',
+        conditions: { media: '(hover: hover)', minWidth: 768, attributes: { plan: ['pro', 1] } },
+      },
+      {
+        selector: '.b',
+        type: 'delete',
+        conditions: { minWidth: '768px', attributes: { plan: { is: 'pro' } }, device: 'mobile' },
+      },
+      { selector: '.c', type: 'delete', conditions: 'mobile' },
+    ]);
+
+    expect(diagnostics.map(d => [d.path, d.severity])).toEqual([
+      ['$[1].conditions.device', 'warning'],
+      ['$[1].conditions.minWidth', 'error'],
+      ['$[1].conditions.attributes.plan', 'error'],
+      ['$[2].conditions', 'error'],
+    ]);
+  });
+
+  it('should validate nested styleRules states', () => {
+    const diagnostics = validateDOMChangesConfig([
+      {
+        selector: '.row',
+        type: 'styleRules',
+        states: {
+          focusVisible: { outline: 'none' },
+          nthChild: { odd: { hover: { color: 'red' } }, 'every other': { normal: {} } },
+          media: { '(max-width: 767px)': { before: 'none', pressed: {} } },
+          supports: [],
+        },
+      },
+    ]);
+
+    expect(diagnostics.map(d => [d.path, d.severity])).toEqual([
+      ['$[0].states.nthChild["every other"]', 'error'],
+      ['$[0].states.media["(max-width: 767px)"].before', 'error'],
+      ['$[0].states.media["(max-width: 767px)"].pressed', 'warning'],
+      ['$[0].states.supports', 'error'],
+    ]);
+  });
+
+  it('should validate cssVariables changes', () => {
+    const diagnostics = validateDOMChangesConfig([
+      { selector: '', type: 'cssVariables', value: { '--brand': '#000', gap: 8 } },
+      { selector: '.card', type: 'cssVariables', value: { '--radius': ['4px'] } },
+      { selector: '', type: 'cssVariables', value: {} },
+    ]);
+
+    expect(diagnostics).toEqual([
+      {
+        path: '$[1].value["--radius"]',
+        severity: 'error',
+        message: '--radius must be a string or number',
+      },
+      {
+        path: '$[2].value',
+        severity: 'error',
+        message: 'cssVariables change needs an object of variables',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,597 @@
+import type { ChangeType, ConfigDiagnostic, DOMGoalEvent, SelectorType } from '../types';
+import { SelectorEngine } from '../utils/SelectorEngine';
+import { STYLE_RULE_NESTED_KEYS, STYLE_RULE_STATE_SELECTORS } from '../utils/styleRules';
+import { resolveViewCriteria } from '../utils/viewCriteria';
+
+const CHANGE_TYPES: ChangeType[] = [
+  'text',
+  'html',
+  'style',
+  'styleRules',
+  'cssVariables',
+  'class',
+  'attribute',
+  'javascript',
+  'move',
+  'create',
+  'delete',
+];
+
+const EMPTY_SELECTOR_TYPES = ['create', 'styleRules', 'cssVariables'];
+
+const SELECTOR_TYPES: SelectorType[] = ['css', 'xpath', 'text'];
+
+const POSITIONS = ['before', 'after', 'firstChild', 'lastChild'];
+
+// Keys of the wrapped format ({ changes, pages, goals, urlFilter, ...global defaults })
+const CONFIG_KEYS = new Set([
+  'changes',
+  'pages',
+  'goals',
+  'urlFilter',
+  'waitForElement',
+  'persistStyle',
+  'persistAttribute',
+  'persistScript',
+  'important',
+  'observerRoot',
+  'viewThreshold',
+  'viewDuration',
+  'rootMargin',
+]);
+
+const CHANGE_KEYS = new Set([
+  'selector',
+  'selectorType',
+  'shadowHost',
+  'type',
+  'value',
+  'enabled',
+  'id',
+  'dependsOn',
+  'add',
+  'remove',
+  'targetSelector',
+  'position',
+  'element',
+  'states',
+  'important',
+  'observerRoot',
+  'waitForElement',
+  'persistStyle',
+  'persistAttribute',
+  'persistScript',
+  'trigger_on_view',
+  'viewThreshold',
+  'viewDuration',
+  'rootMargin',
+  'urlFilter',
+  'conditions',
+]);
+
+const PAGE_KEYS = new Set(['urlFilter', 'changes']);
+
+const GOAL_KEYS = new Set(['selector', 'selectorType', 'event', 'goal', 'properties']);
+
+const GOAL_EVENTS: DOMGoalEvent[] = ['click', 'submit', 'visible'];
+
+const BOOLEAN_KEYS = [
+  'enabled',
+  'important',
+  'waitForElement',
+  'persistStyle',
+  'persistAttribute',
+  'persistScript',
+  'trigger_on_view',
+];
+
+const CONDITION_KEYS = new Set(['media', 'minWidth', 'maxWidth', 'attributes']);
+
+const NESTED_KEY_NAMES: Record<string, string> = {
+  nthChild: 'nth-child formula',
+  media: 'media query',
+  supports: 'feature query',
+};
+
+const URL_FILTER_KEYS = new Set(['include', 'exclude', 'mode', 'matchType']);
+
+const URL_MATCH_TYPES = ['full-url', 'path', 'domain', 'query', 'hash'];
+
+type Report = (path: string, severity: ConfigDiagnostic['severity'], message: string) => void;
+
+/**
+ * Validate a `__dom_changes` payload (legacy array, wrapped `{ changes, urlFilter }` object, or
+ * either as a JSON string) and describe every problem found, with its JSON path from `$`, the
+ * payload itself. Selectors and regex URL filters are test-parsed without touching the page.
+ *
+ * Errors mark changes that are dropped or can't do anything; warnings mark unknown keys and
+ * values that are ignored. An empty result means the payload is valid.
+ */
+export function validateDOMChangesConfig(data: unknown): ConfigDiagnostic[] {
+  const diagnostics: ConfigDiagnostic[] = [];
+  const report: Report = (path, severity, message) => diagnostics.push({ path, severity, message });
+
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      report('$', 'error', 'Payload is not valid JSON');
+      return diagnostics;
+    }
+  }
+
+  if (Array.isArray(data)) {
+    validateChanges(data, '$', report);
+    return diagnostics;
+  }
+
+  if (!isObject(data)) {
+    report('$', 'error', 'Payload must be an array of changes or an object with a changes array');
+    return diagnostics;
+  }
+
+  for (const key of Object.keys(data)) {
+    if (!CONFIG_KEYS.has(key)) {
+      report(childPath('$', key), 'warning', `Unknown key "${key}" is ignored`);
+    }
+  }
+
+  if (Array.isArray(data.changes)) {
+    validateChanges(data.changes, '$.changes', report);
+  } else if (data.changes !== undefined || (data.pages === undefined && data.goals === undefined)) {
+    report('$.changes', 'error', 'changes must be an array');
+  }
+
+  if (Array.isArray(data.pages)) {
+    data.pages.forEach((page, index) => validatePage(page, `$.pages[${index}]`, report));
+  } else if (data.pages !== undefined) {
+    report('$.pages', 'error', 'pages must be an array');
+  }
+
+  if (Array.isArray(data.goals)) {
+    data.goals.forEach((goal, index) => validateGoal(goal, `$.goals[${index}]`, report));
+  } else if (data.goals !== undefined) {
+    report('$.goals', 'error', 'goals must be an array');
+  }
+
+  if (data.urlFilter !== undefined) {
+    validateURLFilter(data.urlFilter, '$.urlFilter', report);
+  }
+  if (data.observerRoot !== undefined) {
+    validateSelector(data.observerRoot, 'css', '$.observerRoot', report);
+  }
+  validateViewCriteria(data, '$', report);
+  validateBooleans(
+    data,
+    BOOLEAN_KEYS.filter(key => CONFIG_KEYS.has(key)),
+    '$',
+    report
+  );
+
+  return diagnostics;
+}
+
+function validateChanges(changes: unknown[], path: string, report: Report): void {
+  changes.forEach((change, index) => validateChange(change, `${path}[${index}]`, report));
+}
+
+function validateChange(change: unknown, path: string, report: Report): void {
+  if (!isObject(change)) {
+    report(path, 'error', 'Change must be an object');
+    return;
+  }
+
+  for (const key of Object.keys(change)) {
+    if (!CHANGE_KEYS.has(key)) {
+      report(childPath(path, key), 'warning', `Unknown key "${key}" is ignored`);
+    }
+  }
+
+  const type = change.type as ChangeType;
+  if (type === undefined) {
+    report(`${path}.type`, 'error', 'Missing change type');
+    return;
+  }
+  if (!CHANGE_TYPES.includes(type)) {
+    report(`${path}.type`, 'error', `Unknown change type "${String(type)}"`);
+    return;
+  }
+
+  let selectorType: SelectorType = 'css';
+  if (change.selectorType !== undefined) {
+    if (SELECTOR_TYPES.includes(change.selectorType as SelectorType)) {
+      selectorType = change.selectorType as SelectorType;
+    } else {
+      report(
+        `${path}.selectorType`,
+        'error',
+        `Unknown selector type "${String(change.selectorType)}"`
+      );
+    }
+  }
+
+  // create, raw-CSS styleRules and :root cssVariables may leave the selector empty, but it
+  // must be present
+  if (typeof change.selector !== 'string') {
+    report(`${path}.selector`, 'error', `${type} change needs a selector`);
+  } else if (change.selector !== '' || !EMPTY_SELECTOR_TYPES.includes(type)) {
+    validateSelector(change.selector, selectorType, `${path}.selector`, report);
+  }
+
+  if (change.shadowHost !== undefined) {
+    validateSelector(change.shadowHost, 'css', `${path}.shadowHost`, report);
+  }
+  if (change.observerRoot !== undefined) {
+    validateSelector(change.observerRoot, 'css', `${path}.observerRoot`, report);
+  }
+  validateViewCriteria(change, path, report);
+  if (change.urlFilter !== undefined) {
+    validateURLFilter(change.urlFilter, `${path}.urlFilter`, report);
+  }
+  if (change.conditions !== undefined) {
+    validateConditions(change.conditions, `${path}.conditions`, report);
+  }
+  if (change.id !== undefined && typeof change.id !== 'string') {
+    report(`${path}.id`, 'error', 'id must be a string');
+  }
+  if (
+    change.dependsOn !== undefined &&
+    !(Array.isArray(change.dependsOn) && change.dependsOn.every(id => typeof id === 'string'))
+  ) {
+    report(`${path}.dependsOn`, 'error', 'dependsOn must be an array of change ids');
+  }
+  validateBooleans(change, BOOLEAN_KEYS, path, report);
+
+  switch (type) {
+    case 'text':
+      if (!['string', 'number', 'boolean'].includes(typeof change.value)) {
+        report(`${path}.value`, 'error', 'text change needs a text value');
+      }
+      break;
+
+    case 'html':
+    case 'javascript':
+      if (typeof change.value !== 'string') {
+        report(`${path}.value`, 'error', `${type} change needs a string value`);
+      }
+      break;
+
+    case 'style':
+    case 'attribute':
+      if (!isObject(change.value)) {
+        report(`${path}.value`, 'error', `${type} change needs an object value`);
+      }
+      break;
+
+    case 'cssVariables':
+      if (!isObject(change.value) || Object.keys(change.value).length === 0) {
+        report(`${path}.value`, 'error', 'cssVariables change needs an object of variables');
+        break;
+      }
+      for (const [name, value] of Object.entries(change.value)) {
+        if (typeof value !== 'string' && typeof value !== 'number') {
+          report(childPath(`${path}.value`, name), 'error', `${name} must be a string or number`);
+        } else if (!name.replace(/^--/, '')) {
+          report(childPath(`${path}.value`, name), 'error', 'Variable name is empty');
+        }
+      }
+      break;
+
+    case 'class':
+      if (change.add === undefined && change.remove === undefined) {
+        report(path, 'error', 'class change needs add or remove');
+      }
+      for (const key of ['add', 'remove']) {
+        if (change[key] !== undefined && !isStringArray(change[key])) {
+          report(`${path}.${key}`, 'error', `${key} must be an array of class names`);
+        }
+      }
+      break;
+
+    case 'move':
+    case 'create':
+      if (type === 'create' && typeof change.element !== 'string') {
+        report(`${path}.element`, 'error', 'create change needs an element HTML string');
+      }
+      if (typeof change.targetSelector !== 'string') {
+        report(`${path}.targetSelector`, 'error', `${type} change needs a targetSelector`);
+      } else {
+        validateSelector(change.targetSelector, 'css', `${path}.targetSelector`, report);
+      }
+      if (change.position !== undefined && !POSITIONS.includes(change.position as string)) {
+        report(
+          `${path}.position`,
+          'error',
+          `Unknown position "${String(change.position)}", expected ${POSITIONS.join(', ')}`
+        );
+      }
+      break;
+
+    case 'styleRules':
+      if (change.states !== undefined) {
+        validateStates(change.states, `${path}.states`, report);
+      } else if (typeof change.value !== 'string' || !change.value.trim()) {
+        report(path, 'error', 'styleRules change needs states or a CSS string value');
+      }
+      break;
+  }
+}
+
+function validatePage(page: unknown, path: string, report: Report): void {
+  if (!isObject(page)) {
+    report(path, 'error', 'Page must be an object with urlFilter and changes');
+    return;
+  }
+
+  for (const key of Object.keys(page)) {
+    if (!PAGE_KEYS.has(key)) {
+      report(childPath(path, key), 'warning', `Unknown key "${key}" is ignored`);
+    }
+  }
+
+  if (page.urlFilter === undefined) {
+    report(
+      `${path}.urlFilter`,
+      'warning',
+      'Page has no urlFilter, so its changes apply on every URL'
+    );
+  } else {
+    validateURLFilter(page.urlFilter, `${path}.urlFilter`, report);
+  }
+
+  if (!Array.isArray(page.changes)) {
+    report(`${path}.changes`, 'error', 'changes must be an array');
+  } else {
+    validateChanges(page.changes, `${path}.changes`, report);
+  }
+}
+
+function validateGoal(goal: unknown, path: string, report: Report): void {
+  if (!isObject(goal)) {
+    report(path, 'error', 'Goal must be an object with selector, event and goal');
+    return;
+  }
+
+  for (const key of Object.keys(goal)) {
+    if (!GOAL_KEYS.has(key)) {
+      report(childPath(path, key), 'warning', `Unknown key "${key}" is ignored`);
+    }
+  }
+
+  let selectorType: SelectorType = 'css';
+  if (goal.selectorType !== undefined) {
+    if (SELECTOR_TYPES.includes(goal.selectorType as SelectorType)) {
+      selectorType = goal.selectorType as SelectorType;
+    } else {
+      report(
+        `${path}.selectorType`,
+        'error',
+        `Unknown selector type "${String(goal.selectorType)}"`
+      );
+    }
+  }
+
+  if (typeof goal.selector !== 'string' || !goal.selector) {
+    report(`${path}.selector`, 'error', 'Goal needs a selector');
+  } else {
+    validateSelector(goal.selector, selectorType, `${path}.selector`, report);
+  }
+
+  if (!GOAL_EVENTS.includes(goal.event as DOMGoalEvent)) {
+    report(
+      `${path}.event`,
+      'error',
+      `Unknown goal event "${String(goal.event)}", expected ${GOAL_EVENTS.join(', ')}`
+    );
+  }
+  if (typeof goal.goal !== 'string' || !goal.goal) {
+    report(`${path}.goal`, 'error', 'Goal needs a goal name');
+  }
+  if (goal.properties !== undefined && !isObject(goal.properties)) {
+    report(`${path}.properties`, 'error', 'properties must be an object');
+  }
+}
+
+function validateStates(states: unknown, path: string, report: Report): void {
+  if (!isObject(states)) {
+    report(path, 'error', 'states must be an object');
+    return;
+  }
+
+  for (const [state, value] of Object.entries(states)) {
+    const statePath = childPath(path, state);
+    if (STYLE_RULE_NESTED_KEYS.includes(state)) {
+      validateNestedStates(state, value, statePath, report);
+    } else if (!(state in STYLE_RULE_STATE_SELECTORS)) {
+      report(statePath, 'warning', `Unknown state "${state}" is ignored`);
+    } else if (!isObject(value)) {
+      report(statePath, 'error', `${state} must be an object of CSS properties`);
+    }
+  }
+}
+
+// `nthChild`, `media` and `supports` map a formula or query to more states
+function validateNestedStates(key: string, value: unknown, path: string, report: Report): void {
+  if (!isObject(value)) {
+    report(path, 'error', `${key} must be an object of states keyed by ${NESTED_KEY_NAMES[key]}`);
+    return;
+  }
+
+  for (const [name, nested] of Object.entries(value)) {
+    const nestedPath = childPath(path, name);
+    if (key === 'nthChild' && SelectorEngine.validate(`*:nth-child(${name})`)) {
+      report(nestedPath, 'error', `Invalid nth-child formula "${name}"`);
+    } else if (!name.trim()) {
+      report(nestedPath, 'error', `Empty ${NESTED_KEY_NAMES[key]}`);
+    }
+    validateStates(nested, nestedPath, report);
+  }
+}
+
+function validateConditions(conditions: unknown, path: string, report: Report): void {
+  if (!isObject(conditions)) {
+    report(path, 'error', 'conditions must be an object');
+    return;
+  }
+
+  for (const key of Object.keys(conditions)) {
+    if (!CONDITION_KEYS.has(key)) {
+      report(childPath(path, key), 'warning', `Unknown key "${key}" is ignored`);
+    }
+  }
+
+  if (conditions.media !== undefined && typeof conditions.media !== 'string') {
+    report(`${path}.media`, 'error', 'media must be a media query string');
+  }
+  for (const key of ['minWidth', 'maxWidth']) {
+    if (conditions[key] !== undefined && typeof conditions[key] !== 'number') {
+      report(`${path}.${key}`, 'error', `${key} must be a number of pixels`);
+    }
+  }
+
+  if (conditions.attributes === undefined) {
+    return;
+  }
+  if (!isObject(conditions.attributes)) {
+    report(`${path}.attributes`, 'error', 'attributes must be an object');
+    return;
+  }
+  for (const [name, accepted] of Object.entries(conditions.attributes)) {
+    const values = Array.isArray(accepted) ? accepted : [accepted];
+    if (!values.every(value => ['string', 'number', 'boolean'].includes(typeof value))) {
+      report(
+        childPath(`${path}.attributes`, name),
+        'error',
+        `${name} must be a string, number or boolean, or an array of them`
+      );
+    }
+  }
+}
+
+// Invalid values fall back to the plugin's, so they are only warned about
+function validateViewCriteria(object: Record<string, unknown>, path: string, report: Report): void {
+  const criteria = resolveViewCriteria(object, {
+    viewThreshold: -1,
+    viewDuration: -1,
+    rootMargin: '',
+  });
+
+  if (object.viewThreshold !== undefined && criteria.viewThreshold === -1) {
+    report(`${path}.viewThreshold`, 'warning', 'viewThreshold should be a ratio from 0 to 1');
+  }
+  if (object.viewDuration !== undefined && criteria.viewDuration === -1) {
+    report(`${path}.viewDuration`, 'warning', 'viewDuration should be a number of milliseconds');
+  }
+  if (object.rootMargin !== undefined && criteria.rootMargin === '') {
+    report(`${path}.rootMargin`, 'warning', 'rootMargin should be 1 to 4 px or % values');
+  }
+}
+
+function validateURLFilter(filter: unknown, path: string, report: Report): void {
+  if (typeof filter === 'string') {
+    return;
+  }
+  if (Array.isArray(filter)) {
+    validatePatterns(filter, path, false, report);
+    return;
+  }
+  if (!isObject(filter)) {
+    report(path, 'error', 'urlFilter must be a string, an array of patterns or an object');
+    return;
+  }
+
+  for (const key of Object.keys(filter)) {
+    if (!URL_FILTER_KEYS.has(key)) {
+      report(childPath(path, key), 'warning', `Unknown key "${key}" is ignored`);
+    }
+  }
+
+  if (filter.mode !== undefined && filter.mode !== 'simple' && filter.mode !== 'regex') {
+    report(
+      `${path}.mode`,
+      'error',
+      `Unknown mode "${String(filter.mode)}", expected simple or regex`
+    );
+  }
+  if (filter.matchType !== undefined && !URL_MATCH_TYPES.includes(filter.matchType as string)) {
+    report(
+      `${path}.matchType`,
+      'error',
+      `Unknown matchType "${String(filter.matchType)}", expected ${URL_MATCH_TYPES.join(', ')}`
+    );
+  }
+
+  for (const key of ['include', 'exclude']) {
+    if (filter[key] === undefined) continue;
+    if (!Array.isArray(filter[key])) {
+      report(`${path}.${key}`, 'error', `${key} must be an array of patterns`);
+      continue;
+    }
+    validatePatterns(filter[key] as unknown[], `${path}.${key}`, filter.mode === 'regex', report);
+  }
+}
+
+function validatePatterns(
+  patterns: unknown[],
+  path: string,
+  isRegex: boolean,
+  report: Report
+): void {
+  patterns.forEach((pattern, index) => {
+    if (typeof pattern !== 'string') {
+      report(`${path}[${index}]`, 'error', 'URL pattern must be a string');
+      return;
+    }
+    if (!isRegex) {
+      return; // Simple patterns are escaped before matching, so any string works
+    }
+    try {
+      new RegExp(pattern);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      report(`${path}[${index}]`, 'error', `Invalid regular expression: ${message}`);
+    }
+  });
+}
+
+function validateSelector(
+  selector: unknown,
+  selectorType: SelectorType,
+  path: string,
+  report: Report
+): void {
+  if (typeof selector !== 'string') {
+    report(path, 'error', 'Selector must be a string');
+    return;
+  }
+  const error = SelectorEngine.validate(selector, selectorType);
+  if (error) {
+    report(path, 'error', error);
+  }
+}
+
+function validateBooleans(
+  object: Record<string, unknown>,
+  keys: string[],
+  path: string,
+  report: Report
+): void {
+  for (const key of keys) {
+    if (object[key] !== undefined && typeof object[key] !== 'boolean') {
+      report(childPath(path, key), 'warning', `${key} should be true or false`);
+    }
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+// `$.changes` for identifiers, `$["data-x"]` otherwise
+function childPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
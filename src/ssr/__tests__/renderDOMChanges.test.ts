@@ -0,0 +1,179 @@
+import { renderDOMChanges } from '../renderDOMChanges';
+import { readSSRManifest } from '../hydration';
+import { DOMChange, ExperimentData } from '../../types';
+
+describe('renderDOMChanges', () => {
+  const page =
+    '<!DOCTYPE html><html><head><title>Shop</title></head><body>' +
+    '<h1 class="title">Title</h1><p class="promo">Promo</p><ul class="list"><li>One</li></ul>' +
+    '</body></html>';
+
+  function createExperiment(name: string, changes: unknown, extra: object = {}): ExperimentData {
+    return {
+      name,
+      variants: [
+        { variables: { __dom_changes: [] } },
+        { variables: { __dom_changes: changes, ...extra } },
+      ],
+    };
+  }
+
+  function parse(html: string): Document {
+    return new DOMParser().parseFromString(html, 'text/html');
+  }
+
+  it('should apply element changes and mark them for hydration', () => {
+    const changes: DOMChange[] = [
+      { selector: '.title', type: 'text', value: 'Sale' },
+      { selector: '.title', type: 'class', add: ['hot'] },
+      { selector: '.promo', type: 'delete' },
+      {
+        selector: '',
+        type: 'create',
+        element: '<li class="new">Two</li>',
+        targetSelector: '.list',
+        position: 'lastChild',
+      },
+      { selector: '.title', type: 'style', value: { fontSize: '2em' } },
+    ];
+
+    const doc = parse(renderDOMChanges(page, { hero: 1 }, [createExperiment('hero', changes)]));
+    const title = doc.querySelector('.title')!;
+
+    expect(title.textContent).toBe('Sale');
+    expect(title.className).toBe('title hot');
+    expect((title as HTMLElement).style.fontSize).toBe('2em');
+    expect(title.getAttribute('data-absmartly-ssr')).toBe('hero:0 hero:1 hero:4');
+    expect(doc.querySelector('.promo')).toBeNull();
+    expect(doc.querySelector('.list li.new')?.getAttribute('data-absmartly-ssr')).toBe('hero:3');
+    expect(readSSRManifest(doc)).toEqual({ hero: { variant: 1, changes: [0, 1, 2, 3, 4] } });
+  });
+
+  it('should leave changes that need the browser to the client', () => {
+    const changes: DOMChange[] = [
+      { selector: '.title', type: 'javascript', value: 'element.remove()' },
+      { selector: '.title', type: 'text', value: 'Hi {{attr.name}}' },
+      { selector: '.title', type: 'text', value: 'Mobile', conditions: { maxWidth: 767 } },
+      { selector: '.promo', type: 'delete', trigger_on_view: true },
+      { selector: '.missing', type: 'text', value: 'Nope' },
+      { selector: '.promo', type: 'text', value: 'Promo!' },
+    ];
+
+    const doc = parse(renderDOMChanges(page, { hero: 1 }, [createExperiment('hero', changes)]));
+
+    expect(doc.querySelector('.title')?.textContent).toBe('Title');
+    expect(doc.querySelector('.promo')?.textContent).toBe('Promo!');
+    expect(readSSRManifest(doc)).toEqual({ hero: { variant: 1, changes: [5] } });
+  });
+
+  it('should only render the assigned variant', () => {
+    const experiment = createExperiment('hero', [
+      { selector: '.title', type: 'text', value: 'Sale' },
+    ]);
+
+    const control = renderDOMChanges(page, { hero: 0 }, [experiment]);
+    const unassigned = renderDOMChanges(page, {}, { experiments: [experiment] });
+
+    expect(parse(control).querySelector('.title')?.textContent).toBe('Title');
+    expect(control).not.toContain('absmartly-ssr');
+    expect(unassigned).not.toContain('absmartly-ssr');
+  });
+
+  it('should render style rules and CSS variables into a marked stylesheet', () => {
+    const changes: DOMChange[] = [
+      { selector: '.title', type: 'styleRules', states: { hover: { color: 'red' } } },
+      { selector: '', type: 'cssVariables', value: { brand: '#f00' } },
+    ];
+
+    const doc = parse(
+      renderDOMChanges(page, { theme: 1 }, [createExperiment('theme', changes)], {
+        cspNonce: 'abc',
+      })
+    );
+    const style = doc.head.querySelector('style')!;
+
+    expect(style.getAttribute('data-absmartly-ssr')).toBe('theme:0 theme:1');
+    expect(style.getAttribute('nonce')).toBe('abc');
+    expect(style.textContent).toContain('.title:hover {\n  color: red !important;\n}');
+    expect(style.textContent).toContain(':root {\n  --brand: #f00 !important;\n}');
+  });
+
+  it('should apply URL-scoped changes only when the URL is given', () => {
+    const config = {
+      changes: [{ selector: '.title', type: 'text', value: 'All pages' }],
+      pages: [
+        {
+          urlFilter: '/products/*',
+          changes: [{ selector: '.promo', type: 'text', value: 'Products' }],
+        },
+      ],
+    };
+    const experiments = [createExperiment('scoped', config)];
+
+    const withoutURL = parse(renderDOMChanges(page, { scoped: 1 }, experiments));
+    const onProducts = parse(
+      renderDOMChanges(page, { scoped: 1 }, experiments, {
+        url: 'https://shop.example/products/1',
+      })
+    );
+    const onHome = parse(
+      renderDOMChanges(page, { scoped: 1 }, experiments, { url: 'https://shop.example/' })
+    );
+
+    expect(readSSRManifest(withoutURL)).toBeNull();
+    expect(onProducts.querySelector('.promo')?.textContent).toBe('Products');
+    expect(readSSRManifest(onProducts)).toEqual({ scoped: { variant: 1, changes: [0, 1] } });
+    expect(onHome.querySelector('.promo')?.textContent).toBe('Promo');
+    expect(readSSRManifest(onHome)).toEqual({ scoped: { variant: 1, changes: [0] } });
+  });
+
+  it('should sanitize HTML the same way as the plugin', () => {
+    const changes: DOMChange[] = [
+      {
+        selector: '.promo',
+        type: 'html',
+        value: '<b onclick="steal()">Bold</b><script>x</script>',
+      },
+    ];
+
+    const doc = parse(
+      renderDOMChanges(page, { hero: 1 }, [createExperiment('hero', changes)], {
+        sanitize: 'strict',
+      })
+    );
+
+    expect(doc.querySelector('.promo')?.innerHTML).toBe('<b>Bold</b>');
+  });
+
+  it('should inject body HTML with the container ids the plugin uses', () => {
+    const experiment = createExperiment('banner', [], {
+      __inject_html: { bodyStart: '<div class="banner">Hello</div>', headEnd: '<meta name="x">' },
+    });
+
+    const doc = parse(renderDOMChanges(page, { banner: 1 }, [experiment]));
+    const banner = doc.body.firstElementChild!;
+
+    expect(banner.id).toMatch(/^absmartly-inject-bodyStart-/);
+    expect(banner.getAttribute('data-absmartly-injection')).toBe('true');
+    expect(banner.innerHTML).toBe('<div class="banner">Hello</div>');
+    // A <div> container would be moved out of <head> when the page is parsed
+    expect(doc.querySelector('[id^="absmartly-inject-headEnd-"]')).toBeNull();
+  });
+
+  it('should keep the doctype of pages and return fragments as fragments', () => {
+    const experiments = [createExperiment('hero', [{ selector: 'h1', type: 'text', value: 'Hi' }])];
+
+    expect(renderDOMChanges(page, { hero: 1 }, experiments)).toMatch(/^<!DOCTYPE html><html>/);
+
+    const fragment = renderDOMChanges('<h1>Title</h1>', { hero: 1 }, experiments);
+    expect(fragment).toMatch(/^<h1 data-absmartly-ssr="hero:0">Hi<\/h1><script /);
+  });
+
+  it('should use the given document factory', () => {
+    const createDocument = jest.fn(parse);
+
+    renderDOMChanges(page, {}, [], { createDocument });
+
+    expect(createDocument).toHaveBeenCalledWith(page);
+  });
+});
@@ -0,0 +1,65 @@
+import type { DOMChange } from '../types';
+import { logDebug } from '../utils/debug';
+
+// Attribute carrying the tokens of the server-rendered changes that touched an element
+export const SSR_MARKER_ATTRIBUTE = 'data-absmartly-ssr';
+
+// Id of the JSON script listing the server-rendered changes of each experiment
+export const SSR_MANIFEST_ID = 'absmartly-ssr';
+
+export interface SSRExperimentManifest {
+  variant: number;
+  changes: number[]; // Indexes into the variant's changes, pages included, as the client flattens them
+}
+
+export type SSRManifest = Record<string, SSRExperimentManifest>;
+
+/**
+ * Token marking an element touched by a server-rendered change. Experiment names are encoded
+ * so tokens never contain whitespace or quotes.
+ */
+export function getSSRToken(experimentName: string, index: number): string {
+  return `${encodeURIComponent(experimentName)}:${index}`;
+}
+
+export function addSSRToken(element: Element, token: string): void {
+  const tokens = (element.getAttribute(SSR_MARKER_ATTRIBUTE) || '').split(/\s+/).filter(Boolean);
+  if (!tokens.includes(token)) {
+    element.setAttribute(SSR_MARKER_ATTRIBUTE, [...tokens, token].join(' '));
+  }
+}
+
+export function readSSRManifest(doc: Document = document): SSRManifest | null {
+  const script = doc.getElementById(SSR_MANIFEST_ID);
+  if (!script?.textContent) {
+    return null;
+  }
+
+  try {
+    const manifest = JSON.parse(script.textContent);
+    return manifest && typeof manifest === 'object' ? (manifest as SSRManifest) : null;
+  } catch (error) {
+    logDebug('[ABsmartly] Failed to parse server-rendered changes manifest:', error);
+    return null;
+  }
+}
+
+/**
+ * Whether a change listed in the manifest is still in effect on the page: its marker is on an
+ * element, or for deletes, nothing matches the selector anymore. Framework re-renders can
+ * drop server output, in which case the client applies the change itself.
+ */
+export function isRenderedChange(
+  change: DOMChange,
+  token: string,
+  doc: Document = document
+): boolean {
+  try {
+    if (change.type === 'delete') {
+      return doc.querySelector(change.selector) === null;
+    }
+    return doc.querySelector(`[${SSR_MARKER_ATTRIBUTE}~="${token}"]`) !== null;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,387 @@
+import type {
+  ABsmartlyContext,
+  ContextData,
+  DOMChange,
+  ExperimentData,
+  InjectionDataWithFilter,
+  SanitizeOption,
+  SanitizeTarget,
+} from '../types';
+import { VariantExtractor } from '../parsers/VariantExtractor';
+import { HTMLInjector } from '../core/HTMLInjector';
+import { buildStateRules, buildVariablesRule } from '../utils/styleRules';
+import {
+  changeMatchesURL,
+  flattenChanges,
+  hasURLScope,
+  isDOMChangesConfig,
+} from '../utils/urlScope';
+import { URLMatcher } from '../utils/URLMatcher';
+import { hasTemplate } from '../utils/templates';
+import { sanitizeHTML } from '../utils/sanitizer';
+import { DEFAULT_TRUSTED_TYPES_POLICY } from '../utils/trustedTypes';
+import { applyCSPNonce } from '../utils/cspNonce';
+import { logDebug, logProductionWarn } from '../utils/debug';
+import {
+  addSSRToken,
+  getSSRToken,
+  SSR_MANIFEST_ID,
+  SSR_MARKER_ATTRIBUTE,
+  SSRManifest,
+} from './hydration';
+
+export interface RenderDOMChangesOptions {
+  /**
+   * URL of the page being rendered, for `urlFilter`s. Without it, variants and injections
+   * scoped by URL are left to the client.
+   */
+  url?: string;
+  /**
+   * Parse the HTML into a document. Defaults to `DOMParser`, so runtimes without one
+   * (Node, most edge runtimes) pass a DOM implementation such as linkedom or jsdom.
+   */
+  createDocument?: (html: string) => Document;
+  variableName?: string; // Default: '__dom_changes', as for the plugin
+  sanitize?: SanitizeOption; // Same option as the plugin's, and should match it. Default: 'off'
+  cspNonce?: string; // Nonce for the rendered <style> and the injected styles and scripts
+}
+
+type Sanitize = (html: string, target: SanitizeTarget, experimentName?: string) => string;
+
+/**
+ * Apply the `__dom_changes` and `__inject_html` of the assigned variants to an HTML page or
+ * fragment, the way DOMChangesPluginLite would in the browser, so edge-rendered pages show
+ * the variant without flicker.
+ *
+ * Elements touched by a change are marked with `data-absmartly-ssr`, and a JSON manifest of
+ * the rendered changes is appended to the body. The client plugin reads it and reports those
+ * changes as applied instead of applying them again, while exposure tracking works as usual.
+ * Body injections keep the plugin's container ids, so the plugin recognizes them too.
+ *
+ * Changes that need the browser are left to the client: JavaScript, `conditions`, templates,
+ * `dependsOn`, shadow DOM or non-CSS selectors, persisted styles and attributes, deletes
+ * triggered on view and head injections. So are changes whose elements aren't in the HTML.
+ */
+export function renderDOMChanges(
+  html: string,
+  assignments: Record<string, number>,
+  experimentsData: ExperimentData[] | ContextData,
+  options: RenderDOMChangesOptions = {}
+): string {
+  const doc = (options.createDocument || parseDocument)(html);
+  const experiments = Array.isArray(experimentsData)
+    ? experimentsData
+    : experimentsData?.experiments || [];
+
+  // The extractor only reads the context data, so experiments can be read without a context
+  const extractor = new VariantExtractor(
+    { data: () => ({ experiments }) } as unknown as ABsmartlyContext,
+    options.variableName
+  );
+  const sanitize = createSanitize(options.sanitize || 'off', doc);
+  const manifest: SSRManifest = {};
+
+  for (const experiment of experiments) {
+    const variant = assignments[experiment.name];
+    if (typeof variant !== 'number') continue;
+
+    const variantData = extractor.getAllVariantsData(experiment.name).get(variant);
+    if (!isVariantForURL(variantData, options.url)) continue;
+
+    const rendered = renderExperiment(doc, experiment.name, variantData, options, sanitize);
+    if (rendered.length > 0) {
+      manifest[experiment.name] = { variant, changes: rendered };
+    }
+  }
+
+  renderInjections(doc, extractor.extractAllInjectHTML(), options, sanitize);
+
+  if (Object.keys(manifest).length > 0) {
+    const script = doc.createElement('script');
+    script.type = 'application/json';
+    script.id = SSR_MANIFEST_ID;
+    // Keep "</script>" in experiment names from closing the element
+    script.textContent = JSON.stringify(manifest).replace(/</g, '\\u003c');
+    (doc.body || doc.documentElement).appendChild(script);
+  }
+
+  return serialize(doc, html);
+}
+
+/**
+ * Render the changes of one variant, returning the indexes of the ones applied
+ */
+function renderExperiment(
+  doc: Document,
+  experimentName: string,
+  variantData: unknown,
+  options: RenderDOMChangesOptions,
+  sanitize: Sanitize
+): number[] {
+  const changes = flattenChanges(variantData) || [];
+  const important = isDOMChangesConfig(variantData) ? variantData.important : undefined;
+  const rendered: number[] = [];
+  const styles: Array<{ token: string; css: string }> = [];
+
+  changes.forEach((change, index) => {
+    if (!isRenderable(change) || (options.url && !changeMatchesURL(change, options.url))) {
+      return;
+    }
+
+    const token = getSSRToken(experimentName, index);
+    const prepared = { ...change, important: change.important ?? important };
+
+    try {
+      if (change.type === 'styleRules' || change.type === 'cssVariables') {
+        const css = buildStyleRules(prepared);
+        if (css) {
+          styles.push({ token, css });
+          rendered.push(index);
+        }
+      } else if (
+        renderChange(doc, prepared, token, text =>
+          sanitize(text, change.type === 'create' ? 'create' : 'html', experimentName)
+        )
+      ) {
+        rendered.push(index);
+      }
+    } catch (error) {
+      // An invalid selector leaves the change to the client, which reports it
+      logDebug(`[ABsmartly] Could not render change of '${experimentName}':`, error);
+    }
+  });
+
+  if (styles.length > 0) {
+    const style = doc.createElement('style');
+    style.setAttribute(SSR_MARKER_ATTRIBUTE, styles.map(s => s.token).join(' '));
+    style.textContent = styles.map(s => s.css).join('\n\n');
+    applyCSPNonce(style, options.cspNonce || '');
+    (doc.head || doc.documentElement).appendChild(style);
+  }
+
+  return rendered;
+}
+
+function isVariantForURL(variantData: unknown, url: string | undefined): boolean {
+  if (!variantData) {
+    return false;
+  }
+  if (url === undefined) {
+    return !hasURLScope(variantData);
+  }
+  return !(
+    isDOMChangesConfig(variantData) &&
+    variantData.urlFilter &&
+    !URLMatcher.matches(variantData.urlFilter, url)
+  );
+}
+
+function isRenderable(change: DOMChange): boolean {
+  if (!change || change.enabled === false || change.conditions || change.dependsOn?.length) {
+    return false;
+  }
+  if (change.shadowHost || (change.selectorType && change.selectorType !== 'css')) {
+    return false;
+  }
+  if (change.type === 'javascript' || (change.type === 'delete' && change.trigger_on_view)) {
+    return false;
+  }
+  // Persistence re-applies changes that the page overrides later, which only the client can do
+  if (change.persistStyle || change.persistAttribute) {
+    return false;
+  }
+  return !hasTemplate(JSON.stringify([change.value, change.element]));
+}
+
+function buildStyleRules(change: DOMChange): string | null {
+  if (change.type === 'cssVariables') {
+    return change.value && typeof change.value === 'object'
+      ? buildVariablesRule(
+          change.selector || ':root',
+          change.value as Record<string, string>,
+          change.important !== false
+        )
+      : null;
+  }
+  if (typeof change.value === 'string' && change.value.trim()) {
+    return change.value;
+  }
+  return change.states
+    ? buildStateRules(change.selector, change.states, change.important !== false)
+    : null;
+}
+
+/**
+ * Apply an element change the way DOMManipulatorLite.applyChangeToElement does, and mark
+ * what it touched
+ */
+function renderChange(
+  doc: Document,
+  change: DOMChange,
+  token: string,
+  sanitize: (html: string) => string
+): boolean {
+  if (change.type === 'create') {
+    const target = change.targetSelector && doc.querySelector(change.targetSelector);
+    if (!change.element || !target) {
+      return false;
+    }
+
+    const container = doc.createElement('div');
+    container.innerHTML = sanitize(change.element);
+    const children = Array.from(container.children);
+    for (const child of children) {
+      addSSRToken(child, token);
+      moveElement(child, target, change.position);
+    }
+    return children.length > 0;
+  }
+
+  const elements = Array.from(doc.querySelectorAll(change.selector));
+  const move = change.type === 'move' ? (change.value as { targetSelector?: string }) : null;
+  const moveTarget = move?.targetSelector ? doc.querySelector(move.targetSelector) : null;
+  if (elements.length === 0 || (change.type === 'move' && !moveTarget)) {
+    return false;
+  }
+
+  for (const element of elements) {
+    switch (change.type) {
+      case 'text':
+        if (change.value !== undefined) {
+          element.textContent = String(change.value);
+        }
+        break;
+      case 'html':
+        if (change.value !== undefined) {
+          element.innerHTML = sanitize(String(change.value));
+        }
+        break;
+      case 'style':
+        if (change.value && typeof change.value === 'object') {
+          for (const [property, value] of Object.entries(change.value)) {
+            const cssProperty = property.replace(/([A-Z])/g, '-$1').toLowerCase();
+            const priority = change.important === true ? 'important' : '';
+            (element as HTMLElement).style.setProperty(cssProperty, String(value), priority);
+          }
+        }
+        break;
+      case 'class':
+        if (Array.isArray(change.add)) {
+          element.classList.add(...change.add);
+        }
+        if (Array.isArray(change.remove)) {
+          element.classList.remove(...change.remove);
+        }
+        break;
+      case 'attribute':
+        if (change.value && typeof change.value === 'object') {
+          for (const [attr, value] of Object.entries(change.value)) {
+            if (value === null || value === undefined) {
+              element.removeAttribute(attr);
+            } else {
+              element.setAttribute(attr, String(value));
+            }
+          }
+        }
+        break;
+      case 'move':
+        moveElement(element, moveTarget!, (change.value as { position?: string }).position);
+        break;
+      case 'delete':
+        element.remove();
+        continue;
+      default:
+        return false;
+    }
+    addSSRToken(element, token);
+  }
+
+  return true;
+}
+
+function moveElement(element: Element, target: Element, position?: string): void {
+  switch (position) {
+    case 'before':
+      target.parentElement?.insertBefore(element, target);
+      break;
+    case 'after':
+      target.parentElement?.insertBefore(element, target.nextSibling);
+      break;
+    case 'firstChild':
+      target.insertBefore(element, target.firstChild);
+      break;
+    case 'lastChild':
+    default:
+      target.appendChild(element);
+      break;
+  }
+}
+
+function renderInjections(
+  doc: Document,
+  allInjectHTML: Map<string, Map<number, InjectionDataWithFilter>>,
+  options: RenderDOMChangesOptions,
+  sanitize: Sanitize
+): void {
+  if (options.url === undefined) {
+    for (const variants of allInjectHTML.values()) {
+      for (const [variant, injection] of variants) {
+        if (injection?.urlFilter) variants.delete(variant);
+      }
+    }
+  }
+
+  const injector = new HTMLInjector(
+    false,
+    (code, experimentName) => sanitize(code, 'injection', experimentName),
+    DEFAULT_TRUSTED_TYPES_POLICY,
+    options.cspNonce || '',
+    doc
+  );
+  const injections = injector.collectInjections(allInjectHTML, options.url || '');
+
+  // Injections are wrapped in a <div>, which parsers move out of <head>, so only the client
+  // can inject into the head
+  injections.delete('headStart');
+  injections.delete('headEnd');
+  injector.inject(injections);
+}
+
+function createSanitize(option: SanitizeOption, doc: Document): Sanitize {
+  return (html, target, experimentName) => {
+    if (option === 'off') {
+      return html;
+    }
+    if (option === 'strict') {
+      return sanitizeHTML(html, target, DEFAULT_TRUSTED_TYPES_POLICY, doc).html;
+    }
+    try {
+      return option(html, { target, experimentName });
+    } catch (error) {
+      // A broken custom sanitizer must not let unsanitized HTML through
+      logProductionWarn('[ABsmartly] Custom sanitize function threw, dropping HTML:', error);
+      return '';
+    }
+  };
+}
+
+function parseDocument(html: string): Document {
+  if (typeof DOMParser === 'undefined') {
+    throw new Error(
+      '[ABsmartly] renderDOMChanges needs a DOMParser; pass createDocument to use another DOM implementation'
+    );
+  }
+  return new DOMParser().parseFromString(html, 'text/html');
+}
+
+/**
+ * Serialize the document the way it came in: a full page keeps its doctype, and a fragment is
+ * returned without the <html>, <head> and <body> the parser wrapped it in
+ */
+function serialize(doc: Document, html: string): string {
+  if (!/<(!doctype|html|head|body)[\s>]/i.test(html)) {
+    return (doc.head?.innerHTML || '') + (doc.body?.innerHTML || '');
+  }
+  const doctype = doc.doctype ? `<!DOCTYPE ${doc.doctype.name}>` : '';
+  return doctype + doc.documentElement.outerHTML;
+}
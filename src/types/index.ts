@@ -3,6 +3,7 @@ export type ChangeType =
   | 'html'
   | 'style'
   | 'styleRules'
+  | 'cssVariables'
   | 'class'
   | 'attribute'
   | 'javascript'
@@ -10,6 +11,9 @@ export type ChangeType =
   | 'create'
   | 'delete';
 
+// How DOMChange.selector is interpreted. Any type can pierce open shadow roots with `host >>> target`
+export type SelectorType = 'css' | 'xpath' | 'text';
+
 export type DOMChangeValue = string | number | boolean | Record<string, string> | undefined;
 
 // URL filtering types
@@ -22,19 +26,48 @@ export interface URLFilterConfig {
 
 export type URLFilter = string | string[] | URLFilterConfig;
 
-export interface StyleRuleStates {
-  normal?: Record<string, string>;
-  hover?: Record<string, string>;
-  active?: Record<string, string>;
-  focus?: Record<string, string>;
+export type ConditionValue = string | number | boolean;
+
+// When a change applies; every condition given must hold
+export interface ChangeConditions {
+  media?: string; // Media query, e.g. '(max-width: 767px)' or '(hover: none)'
+  minWidth?: number; // Viewport width in px, shortcut for (min-width: ...)
+  maxWidth?: number; // Viewport width in px, shortcut for (max-width: ...)
+  attributes?: Record<string, ConditionValue | ConditionValue[]>; // Context attributes; an array lists accepted values
+}
+
+// States of a styleRules change that hold CSS declarations (pseudo-classes and pseudo-elements)
+export type StyleRuleState =
+  | 'normal'
+  | 'visited'
+  | 'hover'
+  | 'active'
+  | 'focus'
+  | 'focusVisible'
+  | 'focusWithin'
+  | 'checked'
+  | 'disabled'
+  | 'before'
+  | 'after';
+
+export interface StyleRuleStates extends Partial<Record<StyleRuleState, Record<string, string>>> {
+  nthChild?: Record<string, StyleRuleStates>; // Keyed by An+B formula, e.g. 'odd' or '3n+1'
+  media?: Record<string, StyleRuleStates>; // Keyed by media query, e.g. '(max-width: 767px)'
+  supports?: Record<string, StyleRuleStates>; // Keyed by feature query, e.g. '(display: grid)'
 }
 
 export interface DOMChange {
   selector: string;
+  selectorType?: SelectorType; // default 'css'; 'text' matches the innermost elements containing the text
+  shadowHost?: string; // CSS path of the web component(s) whose open shadow root contains the target (e.g. 'my-app >>> my-card')
   type: ChangeType;
   value?: DOMChangeValue;
   enabled?: boolean;
 
+  // For ordering within a variant: a change is applied only after the changes it depends on
+  id?: string;
+  dependsOn?: string[]; // ids of changes that must be applied first (e.g. the create that adds the target)
+
   // For class changes
   add?: string[];
   remove?: string[];
@@ -48,7 +81,7 @@ export interface DOMChange {
 
   // For styleRules type
   states?: StyleRuleStates;
-  important?: boolean; // default true for styleRules
+  important?: boolean; // default true for styleRules and cssVariables
 
   // For pending changes (elements not yet in DOM)
   observerRoot?: string; // CSS selector for the root element to observe (e.g., '.main-content')
@@ -61,11 +94,40 @@ export interface DOMChange {
 
   // For exposure tracking
   trigger_on_view?: boolean; // If true, trigger exposure only when element is visible in viewport
+  viewThreshold?: number; // Ratio of the element that must be in view, 0 to 1 (default: 0.01)
+  viewDuration?: number; // Milliseconds the element must stay continuously in view (default: 0)
+  rootMargin?: string; // Grows or shrinks the viewport, in CSS margin syntax (default: '0px')
+
+  // Only apply on matching URLs, within the variant's urlFilter. Overrides the page's urlFilter
+  urlFilter?: URLFilter;
+
+  // Only apply while these hold; media conditions are re-checked as the viewport changes
+  conditions?: ChangeConditions;
+}
+
+// Changes for one page of a multi-page experiment (e.g. the listing and the product page)
+export interface DOMChangesPage {
+  urlFilter: URLFilter;
+  changes: DOMChange[];
+}
+
+// Goal tracked when a matching element is clicked, a matching form is submitted, or a
+// matching element first enters the viewport
+export type DOMGoalEvent = 'click' | 'submit' | 'visible';
+
+export interface DOMGoal {
+  selector: string;
+  selectorType?: SelectorType; // default 'css'
+  event: DOMGoalEvent;
+  goal: string; // Goal name passed to context.track
+  properties?: Record<string, unknown>;
 }
 
 // New format for __dom_changes with URL filtering and global defaults
 export interface DOMChangesConfig {
-  changes: DOMChange[];
+  changes?: DOMChange[]; // Changes for every URL the variant's urlFilter matches
+  pages?: DOMChangesPage[]; // Changes for specific pages, in addition to `changes`
+  goals?: DOMGoal[]; // Tracked wherever the variant's urlFilter matches, removed on revert
   urlFilter?: URLFilter;
 
   // Global defaults that can be overridden per-change
@@ -75,6 +137,9 @@ export interface DOMChangesConfig {
   persistScript?: boolean;
   important?: boolean;
   observerRoot?: string;
+  viewThreshold?: number;
+  viewDuration?: number;
+  rootMargin?: string;
 }
 
 // Union type supporting both legacy array format and new config format
@@ -93,6 +158,7 @@ export interface InjectionItem {
   code: string;
   priority: number;
   location: InjectionLocation;
+  experimentName?: string;
 }
 
 export type RawInjectionData = Record<string, string | URLFilter>;
@@ -105,14 +171,16 @@ export interface InjectionDataWithFilter {
 export interface ElementState {
   selector: string;
   type: string;
+  element?: Element; // Absent for styleRules and cssVariables, which live in a stylesheet
+  shadowHost?: string; // For stylesheet rules adopted into shadow roots
   originalState: {
     text?: string;
     html?: string;
-    style?: string;
+    style?: string | null;
     classList?: string[];
-    attributes?: Record<string, string>;
+    attributes?: Record<string, string | null>; // null = attribute was absent
     parent?: Element | null;
-    nextSibling?: Element | null;
+    nextSibling?: Node | null;
   };
 }
 
@@ -138,6 +206,16 @@ export interface PluginRegistration {
   timestamp: number;
 }
 
+// Where sanitized HTML comes from: html change values, create elements or HTML injections
+export type SanitizeTarget = 'html' | 'create' | 'injection';
+
+export type SanitizeFunction = (
+  html: string,
+  context: { target: SanitizeTarget; experimentName?: string }
+) => string;
+
+export type SanitizeOption = 'off' | 'strict' | SanitizeFunction;
+
 export interface PluginConfig {
   context: ABsmartlyContext;
   autoApply?: boolean;
@@ -155,9 +233,86 @@ export interface PluginConfig {
   debug?: boolean;
 
   // Anti-flicker functionality to prevent content flash before experiments load
-  hideUntilReady?: string | false; // CSS selector for elements to hide (e.g., 'body', '[data-absmartly-hide]', '[data-absmartly-hide], [data-custom]'), or false to disable
+  hideUntilReady?: 'auto' | string | false; // CSS selector for elements to hide (e.g., 'body', '[data-absmartly-hide]', '[data-absmartly-hide], [data-custom]'), 'auto' to hide only the elements the assigned variants change, or false to disable
   hideTimeout?: number; // Max milliseconds to keep content hidden (default: 3000ms)
   hideTransition?: string | false; // CSS transition for fade-in (e.g., '0.3s ease-in'), false for instant reveal (default: false)
+
+  /**
+   * Sanitize HTML from variant config before it is inserted (html changes, create elements
+   * and HTML injections): 'strict' applies the built-in allowlist of tags, attributes and URL
+   * schemes, a function replaces it. Default: 'off'
+   */
+  sanitize?: SanitizeOption;
+
+  /**
+   * Name of the Trusted Types policy used for innerHTML and script sinks on pages that
+   * enforce `require-trusted-types-for 'script'`. Add it to the page's `trusted-types`
+   * CSP directive. Default: 'absmartly-dom-changes'
+   */
+  trustedTypesPolicyName?: string;
+
+  /**
+   * CSP nonce set on every style and script element the plugin creates (stylesheets,
+   * anti-flicker CSS, injections, the inline-script fallback for JavaScript changes).
+   * Default: detected from the current or first `script[nonce]` / `style[nonce]`
+   */
+  cspNonce?: string;
+
+  /**
+   * Subscribe to the app's router instead of the built-in URL change detection (Navigation
+   * API, or patched history with popstate and hashchange). Only used in SPA mode.
+   * Default: false
+   */
+  routerHook?: RouterHook | false;
+
+  /**
+   * What to do on SPA navigation: 'diff' reverts and re-applies only the experiments whose URL
+   * filters match differently on the new URL, leaving the others applied; 'reset' reverts
+   * everything and applies it again. Default: 'diff'
+   */
+  navigationStrategy?: NavigationStrategy;
+
+  /**
+   * When a trigger_on_view element counts as seen: the ratio of it in view (default: 0.01),
+   * how long it must stay continuously in view in milliseconds (default: 0), and the margin
+   * around the viewport (default: '0px'). Changes and variant configs can override them.
+   * Elements only count as seen while the page is visible.
+   */
+  viewThreshold?: number;
+  viewDuration?: number;
+  rootMargin?: string;
+}
+
+// When a trigger_on_view element counts as seen
+export interface ViewCriteria {
+  viewThreshold: number;
+  viewDuration: number;
+  rootMargin: string;
+}
+
+export type NavigationStrategy = 'diff' | 'reset';
+
+/**
+ * Called once with a function to call after every route change. May return a function
+ * that unsubscribes, called when the plugin is destroyed.
+ *
+ * @example
+ * routerHook: notify => router.afterEach(() => notify())
+ */
+export type RouterHook = (notify: () => void) => (() => void) | void;
+
+/**
+ * The frozen `absmartly` helper javascript changes run with, next to `element` and
+ * `onCleanup`
+ */
+export interface JavaScriptChangeAPI {
+  readonly experimentName: string;
+  readonly variant: number | null; // The visitor's variant, null when not assigned
+  track(goal: string, properties?: Record<string, unknown>): void;
+  variable(key: string, defaultValue?: unknown): unknown; // Read without triggering exposure
+  waitFor(selector: string, selectorType?: SelectorType): Promise<Element>; // First match
+  onCleanup(cleanup: () => void): void; // Same as the `onCleanup` argument
+  onVisible(callback: (element: Element) => void): void; // Once the element enters the viewport
 }
 
 export interface AppliedChange {
@@ -167,6 +322,51 @@ export interface AppliedChange {
   timestamp: number;
 }
 
+// Outcome of applying a change, used to order dependent changes
+export type ChangeStatus = 'applied' | 'pending' | 'failed';
+
+// Status of a change in the application report
+export type ChangeReportStatus =
+  | 'applied'
+  | 'pending' // Waiting for its element, its dependencies or a viewport trigger
+  | 'failed'
+  | 'skipped-disabled'
+  | 'skipped-url' // The variant's URL filter doesn't match the current page
+  | 'skipped-condition' // The change's conditions (media query, attributes) don't hold
+  | 'reverted';
+
+export interface ChangeReport {
+  id?: string;
+  type: ChangeType;
+  selector: string;
+  status: ChangeReportStatus;
+  elementCount: number; // Elements the change was applied to
+  duration: number; // Milliseconds spent in the last application attempt
+  lastError?: string;
+  updatedAt: number;
+}
+
+export interface ExperimentReport {
+  experimentName: string;
+  variant: number | null;
+  urlMatches: boolean;
+  changes: ChangeReport[];
+  updatedAt: number;
+}
+
+export interface ApplicationReport {
+  url: string;
+  experiments: Record<string, ExperimentReport>;
+}
+
+// Problem found in a __dom_changes payload by validateDOMChangesConfig. Errors make the
+// change (or the whole payload) unusable; warnings are ignored or suspicious values.
+export interface ConfigDiagnostic {
+  path: string; // JSON path inside the payload, e.g. '$.changes[2].selector'
+  severity: 'error' | 'warning';
+  message: string;
+}
+
 export interface PendingChange {
   experimentName: string;
   change: DOMChange;
@@ -212,9 +412,64 @@ export interface ContextData {
   experiments?: ExperimentData[];
 }
 
-// Event callback types
+// Events emitted by DOMChangesPluginLite and their payloads, for plugin.on() / plugin.off()
+export interface DOMPluginEvents {
+  initialized: { version: string };
+  'changes-applied': { count: number; experimentName?: string };
+  change_applied: { experimentName: string; change: DOMChange; elementCount: number };
+  change_failed: { experimentName: string; change: DOMChange; reason: string };
+  change_pending: {
+    experimentName: string;
+    change: DOMChange;
+    waitingFor: 'element' | 'dependencies';
+  };
+  change_reverted: { experimentName: string; count: number };
+  change_sanitized: {
+    experimentName?: string;
+    change?: DOMChange;
+    type: SanitizeTarget | 'attribute';
+    removed: string[];
+  };
+  exposure_triggered: { experimentName: string; variant: number; trigger: ExposureTrigger };
+  url_changed: { url: string; previousUrl: string; source: URLChangeSource };
+  injection_applied: { count: number; locations: InjectionLocation[] };
+  report_updated: { experimentName: string; report: ExperimentReport };
+  config_invalid: { experimentName: string; variant: number; diagnostics: ConfigDiagnostic[] };
+  goal_tracked: { experimentName: string; goal: string; event: DOMGoalEvent };
+  error: PluginErrorEvent;
+}
+
+export type DOMPluginEventName = keyof DOMPluginEvents;
+
+export type DOMPluginEventListener<E extends DOMPluginEventName> = (
+  data: DOMPluginEvents[E]
+) => void;
+
+// What caused an exposure: an immediate change, or a tracked element entering the viewport
+export type ExposureTrigger = 'immediate' | 'viewport';
+
+export type URLChangeSource =
+  | 'pushState'
+  | 'replaceState'
+  | 'popstate'
+  | 'hashchange'
+  | 'navigate' // Navigation API navigation with no history equivalent (same-document reload)
+  | 'pageshow' // Restored from the back/forward cache
+  | 'router'; // The app's routerHook
+
+export type PluginErrorEvent =
+  | { type: 'initialization_error'; error: string }
+  | { type: 'validation_error'; experimentName: string; reason: string; error: string }
+  | { type: 'change_apply_error'; experimentName: string; change: DOMChange; error: string };
+
+/**
+ * @deprecated Use DOMPluginEventListener with a DOMPluginEvents key
+ */
 export type EventCallback = (data?: EventCallbackData) => void;
 
+/**
+ * @deprecated Use the payload types in DOMPluginEvents
+ */
 export interface EventCallbackData {
   count?: number;
   experimentName?: string;
@@ -223,7 +478,8 @@ export interface EventCallbackData {
   error?: string;
   removedChanges?: AppliedChange[];
   change?: DOMChange;
-  // Error handling properties
+  removed?: string[];
+  report?: ExperimentReport;
   type?: string;
   reason?: string;
 }
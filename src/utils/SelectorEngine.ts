@@ -0,0 +1,291 @@
+import type { SelectorType } from '../types';
+
+export type SelectorRoot = Document | Element | ShadowRoot;
+
+export interface SelectorResolver {
+  /**
+   * Find the elements matching `selector` inside `root` (descendants only, like querySelectorAll)
+   */
+  querySelectorAll(selector: string, root: SelectorRoot): Element[];
+}
+
+// Segments separated by >>> are resolved inside the open shadow root of the previous match
+const SHADOW_PIERCE = '>>>';
+
+const IGNORED_TEXT_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE']);
+
+const cssResolver: SelectorResolver = {
+  querySelectorAll(selector, root) {
+    return Array.from(root.querySelectorAll(selector));
+  },
+};
+
+const xpathResolver: SelectorResolver = {
+  querySelectorAll(selector, root) {
+    const ownerDocument = root instanceof Document ? root : root.ownerDocument;
+    const result = ownerDocument.evaluate(
+      selector,
+      root,
+      null,
+      XPathResult.ORDERED_NODE_SNAPSHOT_TYPE,
+      null
+    );
+
+    const elements: Element[] = [];
+    for (let i = 0; i < result.snapshotLength; i++) {
+      const node = result.snapshotItem(i);
+      if (node instanceof Element && node !== root) {
+        elements.push(node);
+      }
+    }
+    return elements;
+  },
+};
+
+const textResolver: SelectorResolver = {
+  querySelectorAll(selector, root) {
+    const text = normalizeText(selector);
+    if (!text) {
+      return [];
+    }
+
+    // Text of each element without script/style content, built children-first
+    const elements = Array.from(root.querySelectorAll('*'));
+    const textOf = new Map<Element, string>();
+    for (let i = elements.length - 1; i >= 0; i--) {
+      const element = elements[i];
+      if (IGNORED_TEXT_TAGS.has(element.tagName)) {
+        textOf.set(element, '');
+        continue;
+      }
+      let content = '';
+      for (const child of Array.from(element.childNodes)) {
+        if (child.nodeType === Node.TEXT_NODE) {
+          content += child.textContent;
+        } else if (child instanceof Element) {
+          content += textOf.get(child) ?? '';
+        }
+      }
+      textOf.set(element, content);
+    }
+
+    // Only the innermost elements containing the text, so `Buy now` finds the button, not <body>
+    const matching = new Set<Element>();
+    for (const element of elements) {
+      if (normalizeText(textOf.get(element) || '').includes(text)) {
+        matching.add(element);
+      }
+    }
+
+    const containers = new Set<Element>();
+    for (const element of matching) {
+      if (element.parentElement && matching.has(element.parentElement)) {
+        containers.add(element.parentElement);
+      }
+    }
+
+    return Array.from(matching).filter(element => !containers.has(element));
+  },
+};
+
+function normalizeText(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+export class SelectorEngine {
+  private static resolvers = new Map<SelectorType, SelectorResolver>([
+    ['css', cssResolver],
+    ['xpath', xpathResolver],
+    ['text', textResolver],
+  ]);
+
+  /**
+   * Replace the resolver used for a selector type
+   */
+  static registerResolver(selectorType: SelectorType, resolver: SelectorResolver): void {
+    this.resolvers.set(selectorType, resolver);
+  }
+
+  /**
+   * Find all elements matching a selector. Any selector type can be prefixed with CSS host
+   * selectors separated by `>>>` (e.g. `my-card >>> .title`) to reach into open shadow roots.
+   * Throws on invalid selectors, like querySelectorAll.
+   */
+  static querySelectorAll(
+    selector: string,
+    selectorType: SelectorType = 'css',
+    root: SelectorRoot = document
+  ): Element[] {
+    if (selectorType === 'css' && !selector.includes(SHADOW_PIERCE)) {
+      return Array.from(root.querySelectorAll(selector));
+    }
+
+    const segments = splitPiercing(selector);
+    const target = segments.pop() || '';
+    const levels = resolveShadowLevels(segments, root);
+    const scopes: SelectorRoot[] = levels.length > 0 ? levels[levels.length - 1] : [root];
+
+    const resolver = this.resolvers.get(selectorType) || cssResolver;
+    const elements = new Set<Element>();
+    for (const scope of scopes) {
+      for (const element of resolver.querySelectorAll(target, scope)) {
+        elements.add(element);
+      }
+    }
+    return Array.from(elements);
+  }
+
+  static querySelector(
+    selector: string,
+    selectorType: SelectorType = 'css',
+    root: SelectorRoot = document
+  ): Element | null {
+    if (selectorType === 'css' && !selector.includes(SHADOW_PIERCE)) {
+      return root.querySelector(selector);
+    }
+    return this.querySelectorAll(selector, selectorType, root)[0] || null;
+  }
+
+  static matches(element: Element, selector: string, selectorType: SelectorType = 'css'): boolean {
+    if (selectorType === 'css' && !selector.includes(SHADOW_PIERCE)) {
+      return element.matches(selector);
+    }
+    return this.querySelectorAll(selector, selectorType).includes(element);
+  }
+
+  /**
+   * Find matching elements among `node` and everything below it, including the content
+   * of open shadow roots when the selector pierces them. Used for added mutation nodes.
+   */
+  static findInSubtree(
+    node: Element,
+    selector: string,
+    selectorType: SelectorType = 'css'
+  ): Element[] {
+    if (selectorType === 'css' && !selector.includes(SHADOW_PIERCE)) {
+      const found = Array.from(node.querySelectorAll(selector));
+      return node.matches(selector) ? [node, ...found] : found;
+    }
+    return this.querySelectorAll(selector, selectorType).filter(element =>
+      containsComposed(node, element)
+    );
+  }
+
+  /**
+   * Check that a selector parses, without querying the page. Returns the parse error, or
+   * null when the selector is valid. Host segments before `>>>` are always CSS.
+   */
+  static validate(selector: string, selectorType: SelectorType = 'css'): string | null {
+    const segments = splitPiercing(selector);
+    const target = segments.pop() || '';
+
+    for (const hostSelector of segments) {
+      const error = parseError(hostSelector, 'css');
+      if (error) {
+        return error;
+      }
+    }
+    return parseError(target, selectorType);
+  }
+
+  /**
+   * Prefix a selector with the `shadowHost` path of its change, if any
+   */
+  static scope(selector: string, shadowHost?: string): string {
+    return shadowHost ? `${shadowHost} ${SHADOW_PIERCE} ${selector}` : selector;
+  }
+
+  /**
+   * Open shadow roots of the elements matched by a host path such as `my-app >>> my-card`
+   */
+  static getShadowRoots(shadowHost: string): ShadowRoot[] {
+    return this.querySelectorAll(shadowHost)
+      .map(host => host.shadowRoot)
+      .filter((root): root is ShadowRoot => root !== null);
+  }
+
+  /**
+   * Every open shadow root a selector passes through with `>>>`, outermost first. Observers
+   * watch these, since mutations inside a shadow root are not reported to the document.
+   */
+  static getShadowScopes(selector: string): ShadowRoot[] {
+    const segments = splitPiercing(selector);
+    segments.pop();
+    return resolveShadowLevels(segments, document).flat();
+  }
+
+  /**
+   * Encode a selector and its type as a single string, for use as a map or set key
+   */
+  static toKey(selector: string, selectorType: SelectorType = 'css'): string {
+    return selectorType === 'css' ? selector : `${selectorType}=${selector}`;
+  }
+
+  static fromKey(key: string): { selector: string; selectorType: SelectorType } {
+    const match = /^(\w+)=([\s\S]*)$/.exec(key);
+    if (match && match[1] !== 'css' && this.resolvers.has(match[1] as SelectorType)) {
+      return { selector: match[2], selectorType: match[1] as SelectorType };
+    }
+    return { selector: key, selectorType: 'css' };
+  }
+}
+
+function splitPiercing(selector: string): string[] {
+  return selector.split(SHADOW_PIERCE).map(segment => segment.trim());
+}
+
+function parseError(selector: string, selectorType: SelectorType): string | null {
+  if (!selector.trim()) {
+    return 'Selector is empty';
+  }
+
+  try {
+    if (selectorType === 'css') {
+      document.createDocumentFragment().querySelector(selector);
+    } else if (selectorType === 'xpath') {
+      document.createExpression(selector);
+    }
+    return null;
+  } catch {
+    // Engine messages differ between browsers; the selector itself says more
+    return `Invalid ${selectorType} selector "${selector}"`;
+  }
+}
+
+/**
+ * Resolve CSS host segments level by level, returning the open shadow roots found at each level
+ */
+function resolveShadowLevels(hostSelectors: string[], root: SelectorRoot): ShadowRoot[][] {
+  const levels: ShadowRoot[][] = [];
+  let scopes: SelectorRoot[] = [root];
+
+  for (const hostSelector of hostSelectors) {
+    const shadowRoots: ShadowRoot[] = [];
+    for (const scope of scopes) {
+      for (const host of cssResolver.querySelectorAll(hostSelector, scope)) {
+        if (host.shadowRoot) {
+          shadowRoots.push(host.shadowRoot);
+        }
+      }
+    }
+    levels.push(shadowRoots);
+    scopes = shadowRoots;
+  }
+
+  return levels;
+}
+
+/**
+ * Like Node.contains, but also looks through shadow roots up to their hosts
+ */
+function containsComposed(ancestor: Node, node: Node): boolean {
+  let current: Node | null = node;
+  while (current) {
+    if (ancestor.contains(current)) {
+      return true;
+    }
+    const root = current.getRootNode();
+    current = root instanceof ShadowRoot ? root.host : null;
+  }
+  return false;
+}
@@ -0,0 +1,194 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { SelectorEngine } from '../SelectorEngine';
+
+describe('SelectorEngine', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <main>
+        <section class="hero">
+          <h1 class="title">Welcome</h1>
+          <button class="cta"><span>Buy   now</span></button>
+        </section>
+        <div id="host"></div>
+        <script>var label = 'Buy now';</script>
+      </main>
+    `;
+    const shadow = document.getElementById('host')!.attachShadow({ mode: 'open' });
+    shadow.innerHTML = '<div class="card"><p class="title">Inside</p><div id="inner"></div></div>';
+    const innerShadow = shadow.getElementById('inner')!.attachShadow({ mode: 'open' });
+    innerShadow.innerHTML = '<em class="deep">Deep</em>';
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  describe('css', () => {
+    it('should behave like querySelectorAll by default', () => {
+      const elements = SelectorEngine.querySelectorAll('.title');
+
+      expect(elements).toHaveLength(1);
+      expect(elements[0].textContent).toBe('Welcome');
+    });
+
+    it('should throw on invalid selectors', () => {
+      expect(() => SelectorEngine.querySelectorAll('[[invalid')).toThrow();
+    });
+  });
+
+  describe('xpath', () => {
+    it('should find elements by XPath expression', () => {
+      const elements = SelectorEngine.querySelectorAll('//section/h1', 'xpath');
+
+      expect(elements).toHaveLength(1);
+      expect(elements[0].className).toBe('title');
+    });
+
+    it('should ignore non-element results', () => {
+      expect(SelectorEngine.querySelectorAll('//h1/text()', 'xpath')).toEqual([]);
+    });
+  });
+
+  describe('text', () => {
+    it('should return the innermost element containing the text', () => {
+      const elements = SelectorEngine.querySelectorAll('Buy now', 'text');
+
+      expect(elements).toHaveLength(1);
+      expect(elements[0].tagName).toBe('SPAN');
+    });
+
+    it('should not match script content', () => {
+      expect(SelectorEngine.querySelectorAll("label = 'Buy", 'text')).toEqual([]);
+    });
+
+    it('should return nothing for empty text', () => {
+      expect(SelectorEngine.querySelectorAll('   ', 'text')).toEqual([]);
+    });
+  });
+
+  describe('shadow piercing', () => {
+    it('should resolve segments inside open shadow roots', () => {
+      const elements = SelectorEngine.querySelectorAll('#host >>> .title');
+
+      expect(elements).toHaveLength(1);
+      expect(elements[0].textContent).toBe('Inside');
+    });
+
+    it('should pierce nested shadow roots', () => {
+      expect(SelectorEngine.querySelector('#host >>> #inner >>> .deep')?.textContent).toBe('Deep');
+    });
+
+    it('should use the selector type for the last segment only', () => {
+      expect(SelectorEngine.querySelector('#host >>> Inside', 'text')?.className).toBe('title');
+      expect(SelectorEngine.querySelector('#host >>> .//p', 'xpath')?.className).toBe('title');
+    });
+
+    it('should return nothing when the host has no shadow root', () => {
+      expect(SelectorEngine.querySelectorAll('.hero >>> .title')).toEqual([]);
+    });
+  });
+
+  describe('matches and findInSubtree', () => {
+    it('should match elements for every selector type', () => {
+      const title = document.querySelector('.title')!;
+      const inside = document.getElementById('host')!.shadowRoot!.querySelector('.title')!;
+
+      expect(SelectorEngine.matches(title, '.title')).toBe(true);
+      expect(SelectorEngine.matches(title, '//h1', 'xpath')).toBe(true);
+      expect(SelectorEngine.matches(inside, '#host >>> .title')).toBe(true);
+      expect(SelectorEngine.matches(title, '#host >>> .title')).toBe(false);
+    });
+
+    it('should include the node itself and shadow content below it', () => {
+      const main = document.querySelector('main')!;
+      const hero = document.querySelector('.hero')!;
+
+      expect(SelectorEngine.findInSubtree(hero, '.hero')).toEqual([hero]);
+      expect(SelectorEngine.findInSubtree(main, '#host >>> .title')).toHaveLength(1);
+      expect(SelectorEngine.findInSubtree(hero, '#host >>> .title')).toEqual([]);
+      expect(SelectorEngine.findInSubtree(hero, 'Buy now', 'text')).toHaveLength(1);
+    });
+  });
+
+  describe('shadow roots', () => {
+    it('should scope a selector to a shadow host path', () => {
+      expect(SelectorEngine.scope('.title')).toBe('.title');
+      expect(SelectorEngine.scope('.title', '#host')).toBe('#host >>> .title');
+      expect(
+        SelectorEngine.querySelector(SelectorEngine.scope('.deep', '#host >>> #inner'))
+      ).not.toBeNull();
+    });
+
+    it('should return the shadow roots of a host path', () => {
+      const host = document.getElementById('host')!;
+      const inner = host.shadowRoot!.getElementById('inner')!;
+
+      expect(SelectorEngine.getShadowRoots('#host')).toEqual([host.shadowRoot]);
+      expect(SelectorEngine.getShadowRoots('#host >>> #inner')).toEqual([inner.shadowRoot]);
+      expect(SelectorEngine.getShadowRoots('.hero')).toEqual([]);
+    });
+
+    it('should list every shadow root a selector passes through', () => {
+      const host = document.getElementById('host')!;
+      const inner = host.shadowRoot!.getElementById('inner')!;
+
+      expect(SelectorEngine.getShadowScopes('#host >>> #inner >>> .deep')).toEqual([
+        host.shadowRoot,
+        inner.shadowRoot,
+      ]);
+      expect(SelectorEngine.getShadowScopes('.title')).toEqual([]);
+    });
+  });
+
+  describe('validate', () => {
+    it('should return null for selectors that parse', () => {
+      expect(SelectorEngine.validate('.hero > h1')).toBeNull();
+      expect(SelectorEngine.validate('//section/h1', 'xpath')).toBeNull();
+      expect(SelectorEngine.validate('#host >>> .card', 'css')).toBeNull();
+      expect(SelectorEngine.validate('Buy now', 'text')).toBeNull();
+    });
+
+    it('should describe selectors that do not parse', () => {
+      expect(SelectorEngine.validate('[[invalid')).toBe('Invalid css selector "[[invalid"');
+      expect(SelectorEngine.validate('//h1[', 'xpath')).toBe('Invalid xpath selector "//h1["');
+      expect(SelectorEngine.validate('#host >>> ', 'text')).toBe('Selector is empty');
+    });
+
+    it('should parse host segments as CSS whatever the selector type', () => {
+      expect(SelectorEngine.validate('[[x >>> //p', 'xpath')).toBe('Invalid css selector "[[x"');
+    });
+  });
+
+  describe('keys', () => {
+    it('should round-trip selector and type', () => {
+      expect(SelectorEngine.toKey('.title')).toBe('.title');
+      expect(SelectorEngine.fromKey(SelectorEngine.toKey('//h1', 'xpath'))).toEqual({
+        selector: '//h1',
+        selectorType: 'xpath',
+      });
+      expect(SelectorEngine.fromKey(SelectorEngine.toKey('a = b', 'text'))).toEqual({
+        selector: 'a = b',
+        selectorType: 'text',
+      });
+      expect(SelectorEngine.fromKey('[data-x="y=z"]')).toEqual({
+        selector: '[data-x="y=z"]',
+        selectorType: 'css',
+      });
+    });
+  });
+
+  describe('registerResolver', () => {
+    it('should allow replacing the resolver for a selector type', () => {
+      const original = (SelectorEngine as any).resolvers.get('text');
+      const resolver = { querySelectorAll: jest.fn(() => [document.body]) };
+
+      SelectorEngine.registerResolver('text', resolver);
+      try {
+        expect(SelectorEngine.querySelectorAll('anything', 'text')).toEqual([document.body]);
+        expect(resolver.querySelectorAll).toHaveBeenCalledWith('anything', document);
+      } finally {
+        SelectorEngine.registerResolver('text', original);
+      }
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { orderChangesByDependencies } from '../changeDependencies';
+import { DOMChange } from '../../types';
+
+describe('orderChangesByDependencies', () => {
+  const text = (selector: string, extra: Partial<DOMChange> = {}): DOMChange => ({
+    selector,
+    type: 'text',
+    value: selector,
+    ...extra,
+  });
+
+  it('returns changes untouched when nothing declares dependencies', () => {
+    const changes = [text('.a'), text('.b', { id: 'b' }), text('.c')];
+    const result = orderChangesByDependencies(changes);
+
+    expect(result.changes).toBe(changes);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('moves a dependent after its dependency', () => {
+    const style: DOMChange = {
+      selector: '.promo',
+      type: 'style',
+      value: { color: 'red' },
+      dependsOn: ['promo'],
+    };
+    const create: DOMChange = {
+      id: 'promo',
+      selector: '',
+      type: 'create',
+      element: '<div class="promo"></div>',
+      targetSelector: 'body',
+    };
+
+    const result = orderChangesByDependencies([style, create]);
+
+    expect(result.changes).toEqual([create, style]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('keeps the original order of independent changes', () => {
+    const a = text('.a');
+    const b = text('.b', { dependsOn: ['d'] });
+    const c = text('.c');
+    const d = text('.d', { id: 'd' });
+    const e = text('.e');
+
+    const result = orderChangesByDependencies([a, b, c, d, e]);
+
+    expect(result.changes).toEqual([a, c, d, b, e]);
+  });
+
+  it('resolves chains of dependencies', () => {
+    const third = text('.third', { id: 'third', dependsOn: ['second'] });
+    const second = text('.second', { id: 'second', dependsOn: ['first'] });
+    const first = text('.first', { id: 'first' });
+
+    const result = orderChangesByDependencies([third, second, first]);
+
+    expect(result.changes).toEqual([first, second, third]);
+  });
+
+  it('reports unknown dependencies and drops the change and its dependents', () => {
+    const orphan = text('.orphan', { id: 'orphan', dependsOn: ['missing'] });
+    const child = text('.child', { dependsOn: ['orphan'] });
+    const other = text('.other');
+
+    const result = orderChangesByDependencies([orphan, child, other]);
+
+    expect(result.changes).toEqual([other]);
+    expect(result.errors).toEqual([
+      expect.objectContaining({ type: 'missing_dependency', index: 0, changeId: 'orphan' }),
+      expect.objectContaining({
+        type: 'missing_dependency',
+        index: 1,
+        message: 'Change #1 depends on invalid change "orphan"',
+      }),
+    ]);
+  });
+
+  it('reports every change of a chain depending on an unknown id', () => {
+    const c = text('.c', { id: 'c', dependsOn: ['b'] });
+    const b = text('.b', { id: 'b', dependsOn: ['a'] });
+    const a = text('.a', { id: 'a', dependsOn: ['missing'] });
+
+    const result = orderChangesByDependencies([c, b, a]);
+
+    expect(result.changes).toEqual([]);
+    expect(result.errors.map(e => [e.type, e.changeId])).toEqual([
+      ['missing_dependency', 'a'],
+      ['missing_dependency', 'b'],
+      ['missing_dependency', 'c'],
+    ]);
+  });
+
+  it('reports duplicate ids', () => {
+    const result = orderChangesByDependencies([
+      text('.a', { id: 'same' }),
+      text('.b', { id: 'same' }),
+    ]);
+
+    expect(result.changes).toHaveLength(1);
+    expect(result.errors).toEqual([
+      expect.objectContaining({ type: 'duplicate_id', index: 1, changeId: 'same' }),
+    ]);
+  });
+
+  it('reports cycles', () => {
+    const a = text('.a', { id: 'a', dependsOn: ['b'] });
+    const b = text('.b', { id: 'b', dependsOn: ['a'] });
+    const c = text('.c');
+
+    const result = orderChangesByDependencies([a, b, c]);
+
+    expect(result.changes).toEqual([c]);
+    expect(result.errors.map(e => e.type)).toEqual(['cycle', 'cycle']);
+    expect(result.errors.map(e => e.changeId)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,81 @@
+import { getMediaQueries, matchesConditions, watchMediaQuery } from '../conditions';
+
+type ChangeListener = () => void;
+
+function mockMatchMedia(matching: string[]) {
+  const listeners = new Map<string, Set<ChangeListener>>();
+  const matchMedia = jest.fn((query: string) => ({
+    media: query,
+    matches: matching.includes(query),
+    addEventListener: (_type: string, listener: ChangeListener) => {
+      if (!listeners.has(query)) listeners.set(query, new Set());
+      listeners.get(query)!.add(listener);
+    },
+    removeEventListener: (_type: string, listener: ChangeListener) => {
+      listeners.get(query)?.delete(listener);
+    },
+  }));
+  Object.defineProperty(window, 'matchMedia', { value: matchMedia, configurable: true });
+  return listeners;
+}
+
+describe('conditions', () => {
+  afterEach(() => {
+    delete (window as { matchMedia?: unknown }).matchMedia;
+  });
+
+  describe('getMediaQueries', () => {
+    it('should keep media separate from the width shortcuts', () => {
+      expect(getMediaQueries(undefined)).toEqual([]);
+      expect(
+        getMediaQueries({ media: 'print, (hover: none)', minWidth: 768, maxWidth: 1024 })
+      ).toEqual(['print, (hover: none)', '(min-width: 768px) and (max-width: 1024px)']);
+      expect(getMediaQueries({ maxWidth: 767 })).toEqual(['(max-width: 767px)']);
+    });
+  });
+
+  describe('matchesConditions', () => {
+    it('should require every media query to match', () => {
+      mockMatchMedia(['(hover: hover)', '(min-width: 768px)']);
+
+      expect(matchesConditions({ media: '(hover: hover)', minWidth: 768 }, {})).toBe(true);
+      expect(matchesConditions({ media: '(hover: hover)', maxWidth: 767 }, {})).toBe(false);
+    });
+
+    it('should compare context attributes as strings and accept any listed value', () => {
+      const attributes = { plan: 'pro', visits: 3, loggedIn: true };
+
+      expect(matchesConditions({ attributes: { plan: ['pro', 'team'] } }, attributes)).toBe(true);
+      expect(matchesConditions({ attributes: { visits: '3', loggedIn: true } }, attributes)).toBe(
+        true
+      );
+      expect(matchesConditions({ attributes: { plan: 'free' } }, attributes)).toBe(false);
+      expect(matchesConditions({ attributes: { country: 'NL' } }, attributes)).toBe(false);
+    });
+
+    it('should fall back to innerWidth without matchMedia', () => {
+      Object.defineProperty(window, 'innerWidth', { value: 800, configurable: true });
+
+      expect(matchesConditions({ minWidth: 768, media: 'print' }, {})).toBe(true);
+      expect(matchesConditions({ maxWidth: 767 }, {})).toBe(false);
+    });
+  });
+
+  describe('watchMediaQuery', () => {
+    it('should add and remove a change listener', () => {
+      const listeners = mockMatchMedia([]);
+      const listener = jest.fn();
+
+      const stop = watchMediaQuery('(max-width: 767px)', listener);
+      listeners.get('(max-width: 767px)')!.forEach(l => l());
+      stop!();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listeners.get('(max-width: 767px)')!.size).toBe(0);
+    });
+
+    it('should return null without matchMedia', () => {
+      expect(watchMediaQuery('(max-width: 767px)', jest.fn())).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { applyCSPNonce, detectCSPNonce } from '../cspNonce';
+
+describe('cspNonce', () => {
+  afterEach(() => {
+    document.head.innerHTML = '';
+  });
+
+  describe('detectCSPNonce', () => {
+    it('should return null when the page uses no nonce', () => {
+      document.head.innerHTML = '<script></script><style></style>';
+
+      expect(detectCSPNonce()).toBeNull();
+    });
+
+    it('should read the nonce of a page script', () => {
+      document.head.innerHTML = '<script></script><script nonce="abc123"></script>';
+
+      expect(detectCSPNonce()).toBe('abc123');
+    });
+
+    it('should fall back to a page style', () => {
+      document.head.innerHTML = '<style nonce="style-nonce"></style>';
+
+      expect(detectCSPNonce()).toBe('style-nonce');
+    });
+
+    it('should read the nonce property when the attribute is hidden', () => {
+      const script = document.createElement('script');
+      script.setAttribute('nonce', '');
+      Object.defineProperty(script, 'nonce', { value: 'hidden-nonce' });
+      document.head.appendChild(script);
+
+      expect(detectCSPNonce()).toBe('hidden-nonce');
+    });
+  });
+
+  describe('applyCSPNonce', () => {
+    it('should set the nonce attribute', () => {
+      const style = document.createElement('style');
+
+      applyCSPNonce(style, 'abc123');
+
+      expect(style.getAttribute('nonce')).toBe('abc123');
+    });
+
+    it('should leave elements alone without a nonce or with their own', () => {
+      const style = document.createElement('style');
+      const script = document.createElement('script');
+      script.setAttribute('nonce', 'own');
+
+      applyCSPNonce(style, '');
+      applyCSPNonce(script, 'abc123');
+
+      expect(style.hasAttribute('nonce')).toBe(false);
+      expect(script.getAttribute('nonce')).toBe('own');
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { isSafeTemplatedAttribute, sanitizeHTML } from '../sanitizer';
+
+describe('sanitizeHTML', () => {
+  it('should return allowed markup unchanged', () => {
+    const html = '<p class="lead">Save <strong>20%</strong> <a href="/deals">today</a></p>';
+    expect(sanitizeHTML(html, 'html')).toEqual({ html, removed: [] });
+  });
+
+  it('should drop scripts and embedded documents together with their content', () => {
+    const result = sanitizeHTML(
+      '<div>Hi<script>alert(1)</script><iframe src="https://evil.test"></iframe></div>',
+      'html'
+    );
+
+    expect(result.html).toBe('<div>Hi</div>');
+    expect(result.removed).toEqual(['<script>', '<iframe>']);
+  });
+
+  it('should unwrap unknown tags but keep their content', () => {
+    const result = sanitizeHTML('<center>Big <b>news</b></center>', 'create');
+
+    expect(result.html).toBe('Big <b>news</b>');
+    expect(result.removed).toEqual(['<center>']);
+  });
+
+  it('should remove event handlers and attributes outside the allowlist', () => {
+    const result = sanitizeHTML(
+      '<img src="/a.png" alt="A" onerror="alert(1)" formaction="/x" data-id="1" aria-label="A">',
+      'html'
+    );
+
+    expect(result.html).toBe('<img src="/a.png" alt="A" data-id="1" aria-label="A">');
+    expect(result.removed).toEqual(['onerror on <img>', 'formaction on <img>']);
+  });
+
+  it('should remove unsafe URLs', () => {
+    const result = sanitizeHTML(
+      '<a href="java\tscript:alert(1)">x</a><a href="mailto:a@b.c">m</a>' +
+        '<img src="data:image/png;base64,AAAA"><img src="data:image/svg+xml,<svg/>">',
+      'html'
+    );
+
+    expect(result.html).toBe(
+      '<a>x</a><a href="mailto:a@b.c">m</a><img src="data:image/png;base64,AAAA"><img>'
+    );
+    expect(result.removed).toHaveLength(2);
+  });
+
+  it('should check every candidate of a srcset', () => {
+    const result = sanitizeHTML('<img srcset="/a.png 1x, javascript:alert(1) 2x">', 'html');
+
+    expect(result.html).toBe('<img>');
+    expect(result.removed).toEqual(['srcset on <img>']);
+  });
+
+  it('should keep custom elements and their attributes, except handlers', () => {
+    const result = sanitizeHTML(
+      '<promo-card variant="gold" onclick="x()">Gold</promo-card>',
+      'html'
+    );
+
+    expect(result.html).toBe('<promo-card variant="gold">Gold</promo-card>');
+    expect(result.removed).toEqual(['onclick on <promo-card>']);
+  });
+
+  it('should allow styles and metadata only in injections', () => {
+    const html = '<style>.a{color:red}</style><meta name="theme-color" content="#fff">';
+
+    expect(sanitizeHTML(html, 'injection')).toEqual({ html, removed: [] });
+    expect(sanitizeHTML(html, 'html')).toEqual({ html: '', removed: ['<style>', '<meta>'] });
+  });
+
+  it('should never run scripts while parsing', () => {
+    const onerror = jest.fn();
+    const probe = window as unknown as { __sanitizerProbe?: () => void };
+    probe.__sanitizerProbe = onerror;
+
+    sanitizeHTML('<img src="x" onerror="window.__sanitizerProbe()">', 'html');
+
+    expect(onerror).not.toHaveBeenCalled();
+    delete probe.__sanitizerProbe;
+  });
+});
+
+describe('isSafeTemplatedAttribute', () => {
+  it('should allow relative, http(s), mailto and tel URLs', () => {
+    expect(isSafeTemplatedAttribute('href', '/next?step=2')).toBe(true);
+    expect(isSafeTemplatedAttribute('href', 'https://example.com')).toBe(true);
+    expect(isSafeTemplatedAttribute('href', 'mailto:a@b.c')).toBe(true);
+    expect(isSafeTemplatedAttribute('href', 'tel:+351')).toBe(true);
+  });
+
+  it('should refuse script URLs in every URL attribute', () => {
+    for (const name of ['href', 'src', 'action', 'formAction', 'xlink:href']) {
+      expect(isSafeTemplatedAttribute(name, 'javascript:alert(document.cookie)')).toBe(false);
+    }
+    expect(isSafeTemplatedAttribute('href', ' java\tscript:alert(1)')).toBe(false);
+    expect(isSafeTemplatedAttribute('src', 'data:text/html,<script>alert(1)</script>')).toBe(false);
+    expect(isSafeTemplatedAttribute('srcset', '/a.png 1x, javascript:alert(1) 2x')).toBe(false);
+  });
+
+  it('should refuse handlers, styles and srcdoc whatever the value', () => {
+    expect(isSafeTemplatedAttribute('onclick', 'track()')).toBe(false);
+    expect(isSafeTemplatedAttribute('style', 'color: red')).toBe(false);
+    expect(isSafeTemplatedAttribute('srcdoc', 'hello')).toBe(false);
+    expect(isSafeTemplatedAttribute('title', 'javascript:alert(1)')).toBe(true);
+  });
+});
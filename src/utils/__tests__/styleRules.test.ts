@@ -0,0 +1,92 @@
+import { buildCssRule, buildStateRules, buildVariablesRule } from '../styleRules';
+
+describe('styleRules', () => {
+  describe('buildCssRule', () => {
+    it('should convert camelCase properties and add !important by default', () => {
+      expect(buildCssRule('.btn', { backgroundColor: 'red' })).toBe(
+        '.btn {\n  background-color: red !important;\n}'
+      );
+      expect(buildCssRule('.btn', { color: 'red' }, false)).toBe('.btn {\n  color: red;\n}');
+    });
+  });
+
+  describe('buildVariablesRule', () => {
+    it('should add a missing -- prefix and keep the case of names', () => {
+      expect(buildVariablesRule(':root', { '--brandColor': 'red', radius: '4px' }, false)).toBe(
+        ':root {\n  --brandColor: red;\n  --radius: 4px;\n}'
+      );
+    });
+  });
+
+  describe('buildStateRules', () => {
+    it('should emit pseudo-classes and pseudo-elements in cascade order', () => {
+      const css = buildStateRules(
+        '.link',
+        {
+          after: { content: '"→"' },
+          disabled: { opacity: '0.5' },
+          hover: { color: 'red' },
+          visited: { color: 'purple' },
+          focusVisible: { outline: '2px solid blue' },
+          normal: { color: 'blue' },
+        },
+        false
+      );
+
+      expect(css).toBe(
+        [
+          '.link {\n  color: blue;\n}',
+          '.link:visited {\n  color: purple;\n}',
+          '.link:hover {\n  color: red;\n}',
+          '.link:focus-visible {\n  outline: 2px solid blue;\n}',
+          '.link:disabled {\n  opacity: 0.5;\n}',
+          '.link::after {\n  content: "→";\n}',
+        ].join('\n\n')
+      );
+    });
+
+    it('should support nth-child states with nested states', () => {
+      const css = buildStateRules(
+        '.row',
+        { nthChild: { odd: { normal: { background: '#eee' }, hover: { background: '#ddd' } } } },
+        false
+      );
+
+      expect(css).toBe(
+        '.row:nth-child(odd) {\n  background: #eee;\n}\n\n' +
+          '.row:nth-child(odd):hover {\n  background: #ddd;\n}'
+      );
+    });
+
+    it('should wrap media and supports states in at-rules', () => {
+      const css = buildStateRules(
+        '.grid',
+        {
+          normal: { display: 'block' },
+          media: {
+            '(max-width: 767px)': { normal: { padding: '0' }, before: { content: 'none' } },
+          },
+          supports: { '(display: grid)': { normal: { display: 'grid' } } },
+        },
+        false
+      );
+
+      expect(css).toBe(
+        [
+          '.grid {\n  display: block;\n}',
+          '@media (max-width: 767px) {\n' +
+            '  .grid {\n    padding: 0;\n  }\n\n' +
+            '  .grid::before {\n    content: none;\n  }\n' +
+            '}',
+          '@supports (display: grid) {\n  .grid {\n    display: grid;\n  }\n}',
+        ].join('\n\n')
+      );
+    });
+
+    it('should skip wrappers without rules', () => {
+      expect(buildStateRules('.a', { media: { print: {} }, normal: { color: 'red' } }, false)).toBe(
+        '.a {\n  color: red;\n}'
+      );
+    });
+  });
+});
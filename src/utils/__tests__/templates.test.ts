@@ -0,0 +1,75 @@
+import { escapeHtml, hasTemplate, interpolateTemplate, TemplateResolver } from '../templates';
+
+describe('templates', () => {
+  const values: Record<string, unknown> = {
+    'attr.country': 'PT',
+    'attr.tier': null,
+    'var.price_label': '€9.99',
+    'var.settings': { theme: 'dark' },
+    'query.utm_campaign': 'spring<sale>',
+    'experiment.variant': 1,
+  };
+  const resolve: TemplateResolver = (namespace, key) => values[`${namespace}.${key}`];
+
+  describe('hasTemplate', () => {
+    it('should detect supported placeholders', () => {
+      expect(hasTemplate('Hello from {{attr.country}}')).toBe(true);
+      expect(hasTemplate('{{ var:price_label }}')).toBe(true);
+      expect(hasTemplate('{{query.ref | default: "none"}}')).toBe(true);
+      expect(hasTemplate('{{experiment.variant}}')).toBe(true);
+    });
+
+    it('should ignore plain text and unrelated mustache expressions', () => {
+      expect(hasTemplate('Plain text')).toBe(false);
+      expect(hasTemplate('{{ user.name }}')).toBe(false);
+      expect(hasTemplate('{{attr}}')).toBe(false);
+    });
+  });
+
+  describe('interpolateTemplate', () => {
+    it('should replace placeholders from every namespace', () => {
+      expect(
+        interpolateTemplate(
+          '{{attr.country}} {{var:price_label}} {{query.utm_campaign}} v{{experiment.variant}}',
+          resolve
+        )
+      ).toBe('PT €9.99 spring<sale> v1');
+    });
+
+    it('should use the default when a value is missing', () => {
+      expect(interpolateTemplate('{{attr.tier | default: "free"}}', resolve)).toBe('free');
+      expect(interpolateTemplate("{{attr.city|default:'Lisbon'}}", resolve)).toBe('Lisbon');
+      expect(interpolateTemplate('{{query.ref | default: direct}}', resolve)).toBe('direct');
+      expect(interpolateTemplate('{{attr.country | default: "US"}}', resolve)).toBe('PT');
+    });
+
+    it('should resolve missing values without a default to an empty string', () => {
+      expect(interpolateTemplate('[{{attr.city}}]', resolve)).toBe('[]');
+    });
+
+    it('should serialize object values as JSON', () => {
+      expect(interpolateTemplate('{{var:settings}}', resolve)).toBe('{"theme":"dark"}');
+    });
+
+    it('should escape resolved values only when requested', () => {
+      const template = '<b>{{query.utm_campaign}}</b>';
+
+      expect(interpolateTemplate(template, resolve, true)).toBe('<b>spring&lt;sale&gt;</b>');
+      expect(interpolateTemplate(template, resolve)).toBe('<b>spring<sale></b>');
+    });
+
+    it('should leave unsupported expressions untouched', () => {
+      expect(interpolateTemplate('{{ user.name }} {{attr.country}}', resolve)).toBe(
+        '{{ user.name }} PT'
+      );
+    });
+  });
+
+  describe('escapeHtml', () => {
+    it('should escape HTML special characters', () => {
+      expect(escapeHtml(`<a href="x">'&'</a>`)).toBe(
+        '&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;'
+      );
+    });
+  });
+});
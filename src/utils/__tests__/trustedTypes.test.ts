@@ -0,0 +1,110 @@
+import { getTrustedTypesPolicy, setTrustedHTML, trustedHTML, trustedScript } from '../trustedTypes';
+
+class FakeTrustedValue {
+  constructor(private readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+type TrustedTypesWindow = { trustedTypes?: { createPolicy: jest.Mock } };
+
+describe('trustedTypes', () => {
+  const testWindow = window as unknown as TrustedTypesWindow;
+  let createPolicy: jest.Mock;
+
+  beforeEach(() => {
+    createPolicy = jest.fn(
+      (
+        _name: string,
+        rules: { createHTML(s: string): string; createScript(s: string): string }
+      ) => ({
+        createHTML: (input: string) => new FakeTrustedValue(rules.createHTML(input)),
+        createScript: (input: string) => new FakeTrustedValue(rules.createScript(input)),
+      })
+    );
+    testWindow.trustedTypes = { createPolicy };
+  });
+
+  afterEach(() => {
+    delete testWindow.trustedTypes;
+  });
+
+  it('should pass values through unchanged without Trusted Types support', () => {
+    delete testWindow.trustedTypes;
+
+    expect(getTrustedTypesPolicy('tt-unsupported')).toBeNull();
+    expect(trustedHTML('<b>x</b>', 'tt-unsupported')).toBe('<b>x</b>');
+    expect(trustedScript('run()', 'tt-unsupported')).toBe('run()');
+  });
+
+  it('should create the named policy lazily, once', () => {
+    expect(createPolicy).not.toHaveBeenCalled();
+
+    const html = trustedHTML('<b>x</b>', 'tt-lazy');
+    trustedScript('run()', 'tt-lazy');
+
+    expect(createPolicy).toHaveBeenCalledTimes(1);
+    expect(createPolicy).toHaveBeenCalledWith('tt-lazy', expect.any(Object));
+    expect(html).toBeInstanceOf(FakeTrustedValue);
+    expect(String(html)).toBe('<b>x</b>');
+  });
+
+  it('should report a policy the page does not allow through absmartly:js-error', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    createPolicy.mockImplementation(() => {
+      throw new TypeError('Policy "tt-blocked" disallowed');
+    });
+    const events: CustomEvent[] = [];
+    const handler = (e: Event) => events.push(e as CustomEvent);
+    document.addEventListener('absmartly:js-error', handler);
+
+    try {
+      expect(getTrustedTypesPolicy('tt-blocked')).toBeNull();
+      expect(getTrustedTypesPolicy('tt-blocked')).toBeNull();
+
+      expect(createPolicy).toHaveBeenCalledTimes(1);
+      expect(events).toHaveLength(1);
+      expect(events[0].detail).toMatchObject({
+        reason: 'trusted-types',
+        sink: 'policy',
+        policyName: 'tt-blocked',
+      });
+    } finally {
+      document.removeEventListener('absmartly:js-error', handler);
+    }
+  });
+
+  it('should report and rethrow rejected innerHTML writes', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const element = document.createElement('div');
+    Object.defineProperty(element, 'innerHTML', {
+      set() {
+        throw new TypeError("This document requires 'TrustedHTML' assignment.");
+      },
+    });
+    const events: CustomEvent[] = [];
+    const handler = (e: Event) => events.push(e as CustomEvent);
+    document.addEventListener('absmartly:js-error', handler);
+
+    try {
+      expect(() =>
+        setTrustedHTML(element, '<b>x</b>', 'tt-rejected', {
+          experimentName: 'exp',
+          selector: '.hero',
+        })
+      ).toThrow(TypeError);
+
+      expect(events).toHaveLength(1);
+      expect(events[0].detail).toMatchObject({
+        reason: 'trusted-types',
+        sink: 'innerHTML',
+        experimentName: 'exp',
+        selector: '.hero',
+      });
+    } finally {
+      document.removeEventListener('absmartly:js-error', handler);
+    }
+  });
+});
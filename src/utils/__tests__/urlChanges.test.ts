@@ -0,0 +1,143 @@
+import { watchURLChanges } from '../urlChanges';
+
+describe('watchURLChanges', () => {
+  const initialURL = window.location.href;
+  const nativePushState = history.pushState;
+  const nativeReplaceState = history.replaceState;
+  let stop: (() => void) | null = null;
+
+  afterEach(() => {
+    stop?.();
+    stop = null;
+    delete (window as unknown as { navigation?: EventTarget }).navigation;
+    nativeReplaceState.call(history, null, '', initialURL);
+  });
+
+  function pageShow(persisted: boolean): Event {
+    return Object.assign(new Event('pageshow'), { persisted });
+  }
+
+  describe('patched history', () => {
+    it('should report pushState, replaceState and popstate', () => {
+      const listener = jest.fn();
+      stop = watchURLChanges(listener);
+
+      history.pushState({}, '', '/a');
+      history.replaceState({}, '', '/b');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+
+      expect(listener.mock.calls).toEqual([['pushState'], ['replaceState'], ['popstate']]);
+      expect(window.location.pathname).toBe('/b');
+    });
+
+    it('should report hash changes once', () => {
+      const listener = jest.fn();
+      stop = watchURLChanges(listener);
+
+      nativeReplaceState.call(history, null, '', '#one');
+      window.dispatchEvent(new HashChangeEvent('hashchange'));
+      // Back to a hash entry: popstate, then hashchange for the same URL
+      nativeReplaceState.call(history, null, '', '#two');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+      window.dispatchEvent(new HashChangeEvent('hashchange'));
+
+      expect(listener.mock.calls).toEqual([['hashchange'], ['popstate']]);
+    });
+
+    it('should restore history and stop listening when stopped', () => {
+      const listener = jest.fn();
+      stop = watchURLChanges(listener);
+
+      stop();
+      stop = null;
+      history.pushState({}, '', '/a');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+
+      expect(history.pushState).toBe(nativePushState);
+      expect(history.replaceState).toBe(nativeReplaceState);
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Navigation API', () => {
+    function installNavigation(): EventTarget {
+      const navigation = new EventTarget();
+      (window as unknown as { navigation: EventTarget }).navigation = navigation;
+      return navigation;
+    }
+
+    function navigate(
+      navigation: EventTarget,
+      navigationType: string,
+      hashChange = false,
+      commit = true
+    ): void {
+      navigation.dispatchEvent(
+        Object.assign(new Event('navigate'), { navigationType, hashChange })
+      );
+      if (commit) {
+        navigation.dispatchEvent(new Event('currententrychange'));
+      }
+    }
+
+    it('should report committed navigations without patching history', () => {
+      const navigation = installNavigation();
+      const listener = jest.fn();
+      stop = watchURLChanges(listener);
+
+      navigate(navigation, 'push');
+      navigate(navigation, 'replace');
+      navigate(navigation, 'traverse');
+      navigate(navigation, 'push', true);
+
+      expect(history.pushState).toBe(nativePushState);
+      expect(listener.mock.calls).toEqual([
+        ['pushState'],
+        ['replaceState'],
+        ['popstate'],
+        ['hashchange'],
+      ]);
+    });
+
+    it('should ignore navigations that leave the document', () => {
+      const navigation = installNavigation();
+      const listener = jest.fn();
+      stop = watchURLChanges(listener);
+
+      navigate(navigation, 'push', false, false);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('router hook', () => {
+    it('should use the router instead of the built-in detection', () => {
+      const unsubscribe = jest.fn();
+      let notify: () => void = () => {};
+      const listener = jest.fn();
+      stop = watchURLChanges(listener, callback => {
+        notify = callback;
+        return unsubscribe;
+      });
+
+      history.pushState({}, '', '/a');
+      notify();
+
+      expect(listener.mock.calls).toEqual([['router']]);
+
+      stop();
+      stop = null;
+      expect(unsubscribe).toHaveBeenCalled();
+    });
+  });
+
+  it('should report pages restored from the back/forward cache', () => {
+    const listener = jest.fn();
+    stop = watchURLChanges(listener, () => {});
+
+    window.dispatchEvent(pageShow(false));
+    window.dispatchEvent(pageShow(true));
+
+    expect(listener.mock.calls).toEqual([['pageshow']]);
+  });
+});
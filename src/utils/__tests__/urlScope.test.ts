@@ -0,0 +1,136 @@
+import {
+  changeMatchesURL,
+  flattenChanges,
+  getURLFilterMatches,
+  hasURLScope,
+  isDOMChangesConfig,
+  matchesURLScope,
+} from '../urlScope';
+import type { DOMChange, DOMChangesConfig } from '../../types';
+
+const title: DOMChange = { selector: '.title', type: 'text', value: 'Title' };
+const price: DOMChange = { selector: '.price', type: 'text', value: 'Price' };
+
+describe('urlScope', () => {
+  describe('isDOMChangesConfig', () => {
+    it('should recognise the wrapped format by its changes or pages', () => {
+      expect(isDOMChangesConfig({ changes: [] })).toBe(true);
+      expect(isDOMChangesConfig({ pages: [] })).toBe(true);
+      expect(isDOMChangesConfig([title])).toBe(false);
+      expect(isDOMChangesConfig({ urlFilter: '/x' })).toBe(false);
+      expect(isDOMChangesConfig(null)).toBe(false);
+    });
+  });
+
+  describe('flattenChanges', () => {
+    it('should return legacy arrays as-is', () => {
+      const changes = [title];
+      expect(flattenChanges(changes)).toBe(changes);
+    });
+
+    it('should append page changes with the page urlFilter unless they have their own', () => {
+      const config: DOMChangesConfig = {
+        changes: [title],
+        pages: [
+          {
+            urlFilter: '/products/*',
+            changes: [price, { ...title, urlFilter: '/products/sale' }],
+          },
+        ],
+      };
+
+      expect(flattenChanges(config)).toEqual([
+        title,
+        { ...price, urlFilter: '/products/*' },
+        { ...title, urlFilter: '/products/sale' },
+      ]);
+      expect(price.urlFilter).toBeUndefined();
+    });
+
+    it('should return null for data without changes', () => {
+      expect(flattenChanges(undefined)).toBeNull();
+      expect(flattenChanges('nope')).toBeNull();
+    });
+  });
+
+  describe('changeMatchesURL', () => {
+    it('should match every URL without a urlFilter', () => {
+      expect(changeMatchesURL(title, 'https://example.com/anything')).toBe(true);
+    });
+
+    it('should apply the change urlFilter', () => {
+      const change = { ...title, urlFilter: '/products/*' };
+      expect(changeMatchesURL(change, 'https://example.com/products/1')).toBe(true);
+      expect(changeMatchesURL(change, 'https://example.com/list')).toBe(false);
+    });
+  });
+
+  describe('hasURLScope and matchesURLScope', () => {
+    it('should treat data without filters as unscoped and matching everywhere', () => {
+      expect(hasURLScope([title])).toBe(false);
+      expect(matchesURLScope([title], 'https://example.com/x')).toBe(true);
+      expect(hasURLScope(null)).toBe(false);
+    });
+
+    it('should keep matching control variants that only have a variant-level filter', () => {
+      const control: DOMChangesConfig = { changes: [], urlFilter: '/checkout' };
+
+      expect(hasURLScope(control)).toBe(true);
+      expect(matchesURLScope(control, 'https://example.com/checkout')).toBe(true);
+      expect(matchesURLScope(control, 'https://example.com/cart')).toBe(false);
+    });
+
+    it('should match when a page or change is scoped to the URL', () => {
+      const config: DOMChangesConfig = {
+        pages: [{ urlFilter: '/list', changes: [] }],
+        changes: [{ ...price, urlFilter: '/products/*' }],
+      };
+
+      expect(hasURLScope(config)).toBe(true);
+      expect(matchesURLScope(config, 'https://example.com/list')).toBe(true);
+      expect(matchesURLScope(config, 'https://example.com/products/1')).toBe(true);
+      expect(matchesURLScope(config, 'https://example.com/about')).toBe(false);
+    });
+
+    it('should require the variant-level filter to match as well', () => {
+      const config: DOMChangesConfig = {
+        urlFilter: '/shop/*',
+        pages: [{ urlFilter: { include: ['/list$'], mode: 'regex' }, changes: [title] }],
+      };
+
+      expect(matchesURLScope(config, 'https://example.com/shop/list')).toBe(true);
+      expect(matchesURLScope(config, 'https://example.com/blog/list')).toBe(false);
+    });
+  });
+
+  describe('getURLFilterMatches', () => {
+    it('should list the match of the variant, page and change filters in order', () => {
+      const config: DOMChangesConfig = {
+        urlFilter: '/shop*',
+        changes: [title, { ...price, urlFilter: '/shop/cart' }],
+        pages: [{ urlFilter: '/shop/list', changes: [price] }],
+      };
+
+      expect(getURLFilterMatches(config, 'https://example.com/shop/list')).toEqual([
+        true,
+        true,
+        false,
+        false,
+        true,
+      ]);
+      expect(getURLFilterMatches(config, 'https://example.com/shop/cart')).toEqual([
+        true,
+        false,
+        false,
+        true,
+        false,
+      ]);
+    });
+
+    it('should have nothing to tell URLs apart without filters', () => {
+      expect(getURLFilterMatches([title, price], 'https://example.com/a')).toEqual(
+        getURLFilterMatches([title, price], 'https://example.com/b')
+      );
+    });
+  });
+});
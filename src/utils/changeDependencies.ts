@@ -0,0 +1,116 @@
+import type { DOMChange } from '../types';
+
+export type ChangeDependencyErrorType = 'duplicate_id' | 'missing_dependency' | 'cycle';
+
+export interface ChangeDependencyError {
+  type: ChangeDependencyErrorType;
+  index: number; // Position of the offending change in the original list
+  changeId?: string;
+  message: string;
+}
+
+export interface OrderedChanges {
+  changes: DOMChange[];
+  errors: ChangeDependencyError[];
+}
+
+/**
+ * Order a variant's changes so every change comes after the changes it `dependsOn`.
+ *
+ * The sort is stable: changes without dependencies keep their array position, and a
+ * dependent moves only as far as needed to follow its dependencies. Changes that can
+ * never be satisfied (duplicate id, unknown dependency, dependency cycle) are reported
+ * in `errors` and left out of `changes`, together with anything that depends on them,
+ * which is reported as a missing dependency.
+ */
+export function orderChangesByDependencies(changes: DOMChange[]): OrderedChanges {
+  const errors: ChangeDependencyError[] = [];
+  const indexById = new Map<string, number>();
+  const excluded = new Set<number>();
+
+  changes.forEach((change, index) => {
+    if (!change.id) return;
+    if (indexById.has(change.id)) {
+      errors.push({
+        type: 'duplicate_id',
+        index,
+        changeId: change.id,
+        message: `Duplicate change id "${change.id}"`,
+      });
+      excluded.add(index);
+      return;
+    }
+    indexById.set(change.id, index);
+  });
+
+  // Fast path: nothing declares dependencies
+  if (errors.length === 0 && !changes.some(c => c.dependsOn && c.dependsOn.length > 0)) {
+    return { changes, errors };
+  }
+
+  const dependencies = changes.map((change, index) => {
+    const deps = new Set<number>();
+    for (const id of change.dependsOn || []) {
+      const depIndex = indexById.get(id);
+      if (depIndex === undefined) {
+        errors.push({
+          type: 'missing_dependency',
+          index,
+          changeId: change.id,
+          message: `Change ${change.id ? `"${change.id}"` : `#${index}`} depends on unknown id "${id}"`,
+        });
+        excluded.add(index);
+      } else {
+        deps.add(depIndex);
+      }
+    }
+    return deps;
+  });
+
+  const ordered: DOMChange[] = [];
+  const placed = new Set<number>();
+  let progressed = true;
+
+  while (progressed) {
+    progressed = false;
+    for (let index = 0; index < changes.length; index++) {
+      if (placed.has(index) || excluded.has(index)) continue;
+
+      const deps = Array.from(dependencies[index]);
+      const invalidDep = deps.find(dep => excluded.has(dep));
+      if (invalidDep !== undefined) {
+        const change = changes[index];
+        errors.push({
+          type: 'missing_dependency',
+          index,
+          changeId: change.id,
+          message: `Change ${change.id ? `"${change.id}"` : `#${index}`} depends on invalid change "${changes[invalidDep].id}"`,
+        });
+        excluded.add(index);
+        progressed = true;
+        continue;
+      }
+      if (deps.every(dep => placed.has(dep))) {
+        ordered.push(changes[index]);
+        placed.add(index);
+        progressed = true;
+        // Restart so an earlier dependent that just became ready keeps its relative position
+        break;
+      }
+    }
+  }
+
+  // Whatever is left waits on itself, directly or indirectly, through a cycle
+  for (let index = 0; index < changes.length; index++) {
+    if (placed.has(index) || excluded.has(index)) continue;
+    const change = changes[index];
+    errors.push({
+      type: 'cycle',
+      index,
+      changeId: change.id,
+      message: `Change ${change.id ? `"${change.id}"` : `#${index}`} is part of, or depends on, a dependency cycle`,
+    });
+  }
+
+  return { changes: ordered, errors };
+}
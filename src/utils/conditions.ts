@@ -0,0 +1,98 @@
+import type { ChangeConditions, ConditionValue } from '../types';
+
+/**
+ * Media queries that must all match for a change's conditions to hold: the `media` query
+ * and the query built from the `minWidth` / `maxWidth` shortcuts. They are kept separate
+ * because a media query list with commas can't be combined with `and`.
+ */
+export function getMediaQueries(conditions: ChangeConditions | undefined): string[] {
+  if (!conditions) {
+    return [];
+  }
+
+  const queries: string[] = [];
+  if (conditions.media && conditions.media.trim()) {
+    queries.push(conditions.media.trim());
+  }
+
+  const widths: string[] = [];
+  if (typeof conditions.minWidth === 'number') {
+    widths.push(`(min-width: ${conditions.minWidth}px)`);
+  }
+  if (typeof conditions.maxWidth === 'number') {
+    widths.push(`(max-width: ${conditions.maxWidth}px)`);
+  }
+  if (widths.length > 0) {
+    queries.push(widths.join(' and '));
+  }
+
+  return queries;
+}
+
+/**
+ * Check a change's conditions against the viewport and the context attributes.
+ *
+ * Every attribute listed must equal the context attribute (compared as strings, so 1 matches
+ * '1'); an array lists accepted values. Without matchMedia support only the width shortcuts
+ * can be checked, against window.innerWidth, and `media` is treated as matching.
+ */
+export function matchesConditions(
+  conditions: ChangeConditions | undefined,
+  attributes: Record<string, unknown>
+): boolean {
+  if (!conditions) {
+    return true;
+  }
+
+  if (conditions.attributes && !matchesAttributes(conditions.attributes, attributes)) {
+    return false;
+  }
+
+  if (typeof window === 'undefined') {
+    return true;
+  }
+
+  if (typeof window.matchMedia !== 'function') {
+    const width = window.innerWidth;
+    return (
+      (typeof conditions.minWidth !== 'number' || width >= conditions.minWidth) &&
+      (typeof conditions.maxWidth !== 'number' || width <= conditions.maxWidth)
+    );
+  }
+
+  return getMediaQueries(conditions).every(query => window.matchMedia(query).matches);
+}
+
+function matchesAttributes(
+  expected: Record<string, ConditionValue | ConditionValue[]>,
+  attributes: Record<string, unknown>
+): boolean {
+  return Object.entries(expected).every(([name, accepted]) => {
+    const actual = attributes[name];
+    if (actual === undefined || actual === null) {
+      return false;
+    }
+    const values = Array.isArray(accepted) ? accepted : [accepted];
+    return values.some(value => String(value) === String(actual));
+  });
+}
+
+/**
+ * Call `listener` whenever a media query starts or stops matching. Returns a function that
+ * removes the listener, or null without matchMedia support.
+ */
+export function watchMediaQuery(query: string, listener: () => void): (() => void) | null {
+  if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') {
+    return null;
+  }
+
+  const list = window.matchMedia(query);
+  if (typeof list.addEventListener === 'function') {
+    list.addEventListener('change', listener);
+    return () => list.removeEventListener('change', listener);
+  }
+
+  // Safari before 14 only has the deprecated listener API
+  list.addListener(listener);
+  return () => list.removeListener(listener);
+}
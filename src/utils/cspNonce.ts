@@ -0,0 +1,36 @@
+/**
+ * Find the CSP nonce the page uses for its own scripts, so the style and script elements
+ * created by the plugins are allowed under a nonce-based `script-src` / `style-src`.
+ *
+ * Browsers hide the nonce attribute after parsing (`getAttribute('nonce')` returns ''),
+ * but keep it in the `nonce` property, so that is read first.
+ */
+export function detectCSPNonce(): string | null {
+  if (typeof document === 'undefined') {
+    return null;
+  }
+
+  const candidates: Array<HTMLElement | null> = [
+    document.currentScript as HTMLElement | null,
+    document.querySelector<HTMLElement>('script[nonce]'),
+    document.querySelector<HTMLElement>('style[nonce]'),
+  ];
+
+  for (const element of candidates) {
+    const nonce = element && (element.nonce || element.getAttribute('nonce'));
+    if (nonce) {
+      return nonce;
+    }
+  }
+  return null;
+}
+
+/**
+ * Set the nonce on an element the plugin is about to insert. No-op without a nonce, and
+ * an existing nonce from variant config is left alone.
+ */
+export function applyCSPNonce(element: HTMLElement, nonce: string | null | undefined): void {
+  if (nonce && !element.getAttribute('nonce')) {
+    element.setAttribute('nonce', nonce);
+  }
+}
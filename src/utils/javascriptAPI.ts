@@ -0,0 +1,75 @@
+import type { ABsmartlyContext, JavaScriptChangeAPI, SelectorType } from '../types';
+import type { MutationHub } from '../core/MutationHub';
+import { SelectorEngine } from './SelectorEngine';
+
+interface JavaScriptAPIOptions {
+  context: ABsmartlyContext;
+  hub: MutationHub;
+  experimentName: string;
+  element: Element;
+  onCleanup: (cleanup: () => void) => void;
+}
+
+/**
+ * Build the frozen `absmartly` helper a javascript change runs with. Watches and observers it
+ * starts are stopped by the change's cleanups.
+ */
+export function createJavaScriptAPI(options: JavaScriptAPIOptions): JavaScriptChangeAPI {
+  const { context, hub, experimentName, element, onCleanup } = options;
+  const variant = context.peek(experimentName);
+
+  return Object.freeze({
+    experimentName,
+    variant: typeof variant === 'number' ? variant : null,
+
+    track(goal: string, properties?: Record<string, unknown>): void {
+      context.track(goal, properties);
+    },
+
+    // Peeked, so reading a variable doesn't queue an exposure before the plugin's triggers do
+    variable(key: string, defaultValue?: unknown): unknown {
+      return context.peekVariableValue(key, defaultValue as string);
+    },
+
+    waitFor(selector: string, selectorType?: SelectorType): Promise<Element> {
+      const existing = SelectorEngine.querySelector(selector, selectorType);
+      if (existing) {
+        return Promise.resolve(existing);
+      }
+
+      return new Promise(resolve => {
+        const stop = hub.watch({
+          selector,
+          selectorType,
+          onAdded: elements => {
+            stop();
+            resolve(elements[0]);
+          },
+        });
+        onCleanup(stop);
+      });
+    },
+
+    onCleanup(cleanup: () => void): void {
+      if (typeof cleanup === 'function') {
+        onCleanup(cleanup);
+      }
+    },
+
+    onVisible(callback: (element: Element) => void): void {
+      if (typeof IntersectionObserver === 'undefined') {
+        callback(element);
+        return;
+      }
+
+      const observer = new IntersectionObserver(entries => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          observer.disconnect();
+          callback(element);
+        }
+      });
+      observer.observe(element);
+      onCleanup(() => observer.disconnect());
+    },
+  });
+}
@@ -1,14 +1,17 @@
 import { logDebug } from './debug';
 import type { DOMChange } from '../types';
+import { MutationHub } from '../core/MutationHub';
 
 export interface PersistenceConfig {
   debug?: boolean;
   onReapply: (change: DOMChange, experimentName: string) => void;
+  mutationHub?: MutationHub; // Shared observer; the manager creates its own when omitted
 }
 
 export class DOMPersistenceManager {
   private watchedElements: WeakMap<Element, Set<string>> = new WeakMap();
-  private persistenceObserver: MutationObserver | null = null;
+  private hub: MutationHub;
+  private stopObserving: (() => void) | null = null;
   private reapplyingElements: Set<Element> = new Set();
   private reapplyLogThrottle: Map<string, number> = new Map();
   private appliedChanges: Map<string, DOMChange[]> = new Map();
@@ -16,6 +19,7 @@ export class DOMPersistenceManager {
 
   constructor(config: PersistenceConfig) {
     this.config = config;
+    this.hub = config.mutationHub || new MutationHub(config.debug);
   }
 
   watchElement(element: Element, experimentName: string, change: DOMChange): void {
@@ -54,9 +58,15 @@ export class DOMPersistenceManager {
       }
     }
 
-    if (!this.persistenceObserver) {
+    if (!this.stopObserving) {
       this.setupPersistenceObserver();
     }
+
+    // Attribute mutations inside a shadow root are only reported to observers of that root
+    const root = element.getRootNode();
+    if (root instanceof ShadowRoot) {
+      this.hub.observe(root);
+    }
   }
 
   unwatchElement(element: Element, experimentName: string): void {
@@ -82,9 +92,12 @@ export class DOMPersistenceManager {
   }
 
   destroy(): void {
-    if (this.persistenceObserver) {
-      this.persistenceObserver.disconnect();
-      this.persistenceObserver = null;
+    if (this.stopObserving) {
+      this.stopObserving();
+      this.stopObserving = null;
+    }
+    if (!this.config.mutationHub) {
+      this.hub.destroy();
     }
     this.appliedChanges.clear();
     this.reapplyingElements.clear();
@@ -92,7 +105,7 @@ export class DOMPersistenceManager {
   }
 
   private setupPersistenceObserver(): void {
-    if (this.persistenceObserver) return;
+    if (this.stopObserving) return;
 
     if (this.config.debug) {
       logDebug('[PERSISTENCE-OBSERVER] Setting up persistence observer', {
@@ -100,7 +113,7 @@ export class DOMPersistenceManager {
       });
     }
 
-    this.persistenceObserver = new MutationObserver(mutations => {
+    this.stopObserving = this.hub.onAttributes(mutations => {
       if (this.config.debug) {
         logDebug('[MUTATION-DETECTED] Persistence observer detected mutations', {
           mutationCount: mutations.length,
@@ -235,15 +248,9 @@ export class DOMPersistenceManager {
       }
     });
 
-    this.persistenceObserver.observe(document.body, {
-      attributes: true,
-      subtree: true,
-      attributeOldValue: true,
-    });
-
     if (this.config.debug) {
       logDebug('[PERSISTENCE-OBSERVER] Setup complete - now observing mutations', {
-        target: 'document.body',
+        target: 'document',
         observedAttributes: 'all (filtered in handler to style/class)',
         subtree: true,
         timestamp: Date.now(),
@@ -0,0 +1,221 @@
+import type { SanitizeTarget } from '../types';
+import { DEFAULT_TRUSTED_TYPES_POLICY, trustedHTML } from './trustedTypes';
+
+export interface SanitizeResult {
+  html: string;
+  removed: string[]; // Human-readable description of each stripped tag, attribute or URL
+}
+
+// Tags allowed in `html` changes and `create` elements
+const CONTENT_TAGS = new Set(
+  [
+    'a abbr article aside b bdi bdo blockquote br button caption cite code col colgroup data dd',
+    'del details dfn div dl dt em figcaption figure footer h1 h2 h3 h4 h5 h6 header hr i img ins',
+    'kbd label li main mark nav ol p picture pre q s samp section small source span strong sub',
+    'summary sup table tbody td tfoot th thead time tr u ul var video wbr',
+  ]
+    .join(' ')
+    .split(' ')
+);
+
+// Injections may additionally carry styles and document metadata
+const INJECTION_TAGS = new Set([...CONTENT_TAGS, 'style', 'link', 'meta', 'noscript']);
+
+// Tags removed together with their content; anything else not allowed is unwrapped
+const DROP_WITH_CONTENT = new Set(
+  [
+    'script style iframe frame frameset object embed applet template noscript svg math form',
+    'input textarea select base link meta',
+  ]
+    .join(' ')
+    .split(' ')
+);
+
+const GLOBAL_ATTRIBUTES = new Set(
+  'class id style title lang dir role hidden tabindex slot part'.split(' ')
+);
+
+const TAG_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'target', 'rel', 'download', 'hreflang'],
+  button: ['type', 'disabled', 'name', 'value'],
+  col: ['span'],
+  colgroup: ['span'],
+  data: ['value'],
+  del: ['cite', 'datetime'],
+  details: ['open'],
+  img: ['src', 'srcset', 'sizes', 'alt', 'width', 'height', 'loading', 'decoding'],
+  ins: ['cite', 'datetime'],
+  label: ['for'],
+  li: ['value'],
+  link: ['href', 'rel', 'type', 'media', 'as', 'crossorigin', 'integrity'],
+  meta: ['name', 'content', 'property'],
+  ol: ['start', 'reversed', 'type'],
+  q: ['cite'],
+  source: ['src', 'srcset', 'sizes', 'type', 'media'],
+  style: ['media'],
+  td: ['colspan', 'rowspan', 'headers'],
+  th: ['colspan', 'rowspan', 'headers', 'scope'],
+  time: ['datetime'],
+  video: [
+    'src',
+    'poster',
+    'width',
+    'height',
+    'controls',
+    'autoplay',
+    'muted',
+    'loop',
+    'playsinline',
+  ],
+};
+
+const URL_ATTRIBUTES = new Set(['href', 'src', 'cite', 'poster']);
+
+const ALLOWED_SCHEMES = new Set(['http:', 'https:', 'mailto:', 'tel:']);
+
+// Attributes a browser loads, navigates to or submits to, on any element
+const URL_BEARING_ATTRIBUTES = new Set([
+  ...URL_ATTRIBUTES,
+  'action',
+  'formaction',
+  'xlink:href',
+  'data',
+  'background',
+  'ping',
+  'longdesc',
+  'manifest',
+  'codebase',
+]);
+
+/**
+ * Sanitize HTML from variant config against the built-in allowlist for the target:
+ *
+ * - Tags outside the allowlist are unwrapped (children kept), or dropped with their content
+ *   when they can run code or load documents (script, iframe, object, ...)
+ * - Custom elements (`my-widget`) are kept, since design systems are built from them
+ * - `on*` handlers and attributes outside the allowlist are removed
+ * - URLs must be relative or use http(s), mailto or tel; images may also use data:image
+ *
+ * Parsing happens in an inert <template>, so nothing loads or runs while sanitizing. Pass `doc`
+ * to sanitize outside the browser, with a server-side DOM implementation.
+ */
+export function sanitizeHTML(
+  html: string,
+  target: SanitizeTarget,
+  trustedTypesPolicyName = DEFAULT_TRUSTED_TYPES_POLICY,
+  doc: Document = document
+): SanitizeResult {
+  const template = doc.createElement('template');
+  template.innerHTML = trustedHTML(html, trustedTypesPolicyName);
+
+  const removed: string[] = [];
+  const allowedTags = target === 'injection' ? INJECTION_TAGS : CONTENT_TAGS;
+
+  sanitizeChildren(template.content, allowedTags, removed);
+
+  return { html: removed.length > 0 ? template.innerHTML : html, removed };
+}
+
+function sanitizeChildren(parent: ParentNode, allowedTags: Set<string>, removed: string[]): void {
+  for (const child of Array.from(parent.childNodes)) {
+    if (child.nodeType === child.COMMENT_NODE) {
+      child.remove();
+      continue;
+    }
+    // Node types are compared on the node itself, as DOM globals may not exist on the server
+    if (child.nodeType !== child.ELEMENT_NODE) continue;
+
+    const element = child as Element;
+    const tag = element.tagName.toLowerCase();
+    const isCustomElement = tag.includes('-');
+
+    if (!allowedTags.has(tag) && !isCustomElement) {
+      removed.push(`<${tag}>`);
+      if (DROP_WITH_CONTENT.has(tag)) {
+        element.remove();
+      } else {
+        // Keep the text and allowed markup inside, sanitized in place
+        sanitizeChildren(element, allowedTags, removed);
+        element.replaceWith(...Array.from(element.childNodes));
+      }
+      continue;
+    }
+
+    sanitizeAttributes(element, tag, removed);
+    sanitizeChildren(element, allowedTags, removed);
+  }
+}
+
+function sanitizeAttributes(element: Element, tag: string, removed: string[]): void {
+  const tagAttributes = TAG_ATTRIBUTES[tag] || [];
+
+  for (const attribute of Array.from(element.attributes)) {
+    const name = attribute.name.toLowerCase();
+    const allowed =
+      GLOBAL_ATTRIBUTES.has(name) ||
+      name.startsWith('aria-') ||
+      name.startsWith('data-') ||
+      tagAttributes.includes(name) ||
+      // Custom elements take arbitrary properties as attributes, but never handlers
+      (tag.includes('-') && !name.startsWith('on'));
+
+    if (!allowed) {
+      element.removeAttribute(attribute.name);
+      removed.push(`${name} on <${tag}>`);
+      continue;
+    }
+
+    if (URL_ATTRIBUTES.has(name) && !isSafeURL(attribute.value, tag === 'img' && name === 'src')) {
+      element.removeAttribute(attribute.name);
+      removed.push(`${name}="${attribute.value}" on <${tag}>`);
+      continue;
+    }
+
+    if (
+      name === 'srcset' &&
+      attribute.value.split(',').some(c => !isSafeURL(c.trim().split(/\s+/)[0], true))
+    ) {
+      element.removeAttribute(attribute.name);
+      removed.push(`srcset on <${tag}>`);
+    }
+  }
+}
+
+/**
+ * Check the resolved value of a templated attribute before it is set. Placeholders can carry
+ * visitor-controlled input (`{{query.*}}`), so they are refused in `on*` handlers, `style` and
+ * `srcdoc`, and URL attributes must resolve to a relative URL or use http(s), mailto or tel.
+ */
+export function isSafeTemplatedAttribute(name: string, value: string): boolean {
+  const attribute = name.toLowerCase();
+
+  if (attribute.startsWith('on') || attribute === 'style' || attribute === 'srcdoc') {
+    return false;
+  }
+  if (URL_BEARING_ATTRIBUTES.has(attribute)) {
+    return isSafeURL(value, false);
+  }
+  if (attribute === 'srcset' || attribute === 'imagesrcset') {
+    return value.split(',').every(c => isSafeURL(c.trim().split(/\s+/)[0], false));
+  }
+  return true;
+}
+
+function isSafeURL(value: string, allowDataImage: boolean): boolean {
+  // Browsers ignore control characters and whitespace inside the scheme ("java\tscript:")
+  // eslint-disable-next-line no-control-regex
+  const normalized = value.replace(/[\u0000- ]/g, '').toLowerCase();
+  const scheme = /^([a-z][a-z0-9+.-]*):/.exec(normalized)?.[1];
+
+  if (!scheme) {
+    return true; // Relative URL
+  }
+  if (
+    allowDataImage &&
+    normalized.startsWith('data:image/') &&
+    !normalized.startsWith('data:image/svg')
+  ) {
+    return true;
+  }
+  return ALLOWED_SCHEMES.has(`${scheme}:`);
+}
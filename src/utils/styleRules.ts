@@ -0,0 +1,102 @@
+import type { StyleRuleState, StyleRuleStates } from '../types';
+
+/**
+ * Selector suffix of each `states` key holding declarations, in the order the rules are
+ * emitted. Later rules win on equal specificity, so `disabled` overrides `hover` and the
+ * interaction states come after `visited`.
+ */
+export const STYLE_RULE_STATE_SELECTORS: Record<StyleRuleState, string> = {
+  normal: '',
+  visited: ':visited',
+  hover: ':hover',
+  active: ':active',
+  focus: ':focus',
+  focusVisible: ':focus-visible',
+  focusWithin: ':focus-within',
+  checked: ':checked',
+  disabled: ':disabled',
+  before: '::before',
+  after: '::after',
+};
+
+// `states` keys holding nested states, keyed by nth-child formula, media query or feature query
+export const STYLE_RULE_NESTED_KEYS = ['nthChild', 'media', 'supports'];
+
+export function buildCssRule(
+  selector: string,
+  properties: Record<string, string>,
+  important = true
+): string {
+  const declarations = Object.entries(properties)
+    .map(([prop, value]) => {
+      const cssProp = prop.replace(/([A-Z])/g, '-$1').toLowerCase();
+      const bang = important ? ' !important' : '';
+      return `  ${cssProp}: ${value}${bang};`;
+    })
+    .join('\n');
+
+  return `${selector} {\n${declarations}\n}`;
+}
+
+/**
+ * Build the rule of a `cssVariables` change. Names are used as-is apart from a missing `--`
+ * prefix, since custom properties are case-sensitive.
+ */
+export function buildVariablesRule(
+  selector: string,
+  variables: Record<string, string>,
+  important = true
+): string {
+  const declarations = Object.entries(variables)
+    .map(([name, value]) => {
+      const property = name.startsWith('--') ? name : `--${name}`;
+      const bang = important ? ' !important' : '';
+      return `  ${property}: ${value}${bang};`;
+    })
+    .join('\n');
+
+  return `${selector} {\n${declarations}\n}`;
+}
+
+/**
+ * Build the CSS of a structured `styleRules` change. `nthChild` states apply to
+ * `selector:nth-child(<key>)`, and `media` / `supports` states are wrapped in
+ * `@media <key>` / `@supports <key>`. Nested states can use every key, including more nesting.
+ */
+export function buildStateRules(
+  selector: string,
+  states: StyleRuleStates,
+  important = true
+): string {
+  const rules: string[] = [];
+
+  for (const [state, suffix] of Object.entries(STYLE_RULE_STATE_SELECTORS)) {
+    const declarations = states[state as StyleRuleState];
+    if (declarations) {
+      rules.push(buildCssRule(`${selector}${suffix}`, declarations, important));
+    }
+  }
+
+  for (const [formula, nested] of Object.entries(states.nthChild || {})) {
+    rules.push(buildStateRules(`${selector}:nth-child(${formula})`, nested, important));
+  }
+  for (const [query, nested] of Object.entries(states.media || {})) {
+    rules.push(wrapRules(`@media ${query}`, buildStateRules(selector, nested, important)));
+  }
+  for (const [condition, nested] of Object.entries(states.supports || {})) {
+    rules.push(wrapRules(`@supports ${condition}`, buildStateRules(selector, nested, important)));
+  }
+
+  return rules.filter(rule => rule).join('\n\n');
+}
+
+function wrapRules(atRule: string, css: string): string {
+  if (!css) {
+    return '';
+  }
+  const indented = css
+    .split('\n')
+    .map(line => (line ? `  ${line}` : line))
+    .join('\n');
+  return `${atRule} {\n${indented}\n}`;
+}
@@ -0,0 +1,101 @@
+export type TemplateNamespace = 'attr' | 'var' | 'query' | 'experiment';
+
+/**
+ * Looks up a placeholder value. Returning undefined, null or '' means "no value",
+ * in which case the placeholder's `default` (or an empty string) is used.
+ */
+export type TemplateResolver = (namespace: TemplateNamespace, key: string) => unknown;
+
+// {{attr.country}}, {{var:price_label}}, {{query.utm_campaign | default: "none"}}, {{experiment.variant}}
+const PLACEHOLDER_PATTERN =
+  /\{\{\s*(?:(attr|query|experiment)\.|(var):)([\w.-]+)\s*(?:\|\s*default\s*:\s*("[^"]*"|'[^']*'|[^}]*?))?\s*\}\}/g;
+
+/**
+ * Check whether a string contains at least one supported placeholder.
+ * Unknown `{{...}}` expressions (e.g. framework templates) are not placeholders.
+ */
+export function hasTemplate(value: string): boolean {
+  PLACEHOLDER_PATTERN.lastIndex = 0;
+  return PLACEHOLDER_PATTERN.test(value);
+}
+
+/**
+ * Check whether a string contains a `{{query.*}}` placeholder, whose value changes with the URL
+ */
+export function hasQueryTemplate(value: string): boolean {
+  PLACEHOLDER_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = PLACEHOLDER_PATTERN.exec(value))) {
+    if (match[1] === 'query') {
+      return true;
+    }
+  }
+  return false;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Replace placeholders in a change value with values from the resolver.
+ *
+ * Set `escape` when the result is parsed as HTML (`html` and `create` changes) so that
+ * resolved values are inserted as text; the template itself is left untouched.
+ */
+export function interpolateTemplate(
+  template: string,
+  resolve: TemplateResolver,
+  escape = false
+): string {
+  return template.replace(
+    PLACEHOLDER_PATTERN,
+    (
+      _match,
+      dotted: TemplateNamespace | undefined,
+      colon: TemplateNamespace | undefined,
+      key: string,
+      fallback: string | undefined
+    ) => {
+      let text = stringify(resolve((dotted || colon)!, key));
+      if (text === '') {
+        text = unquote(fallback);
+      }
+      return escape ? escapeHtml(text) : text;
+    }
+  );
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (typeof value === 'object') {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return '';
+    }
+  }
+  return String(value);
+}
+
+function unquote(value: string | undefined): string {
+  if (!value) {
+    return '';
+  }
+  const trimmed = value.trim();
+  if (
+    trimmed.length >= 2 &&
+    (trimmed[0] === '"' || trimmed[0] === "'") &&
+    trimmed[trimmed.length - 1] === trimmed[0]
+  ) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
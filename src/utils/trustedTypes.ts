@@ -0,0 +1,129 @@
+import { logProductionWarn } from './debug';
+
+export const DEFAULT_TRUSTED_TYPES_POLICY = 'absmartly-dom-changes';
+
+// Minimal shapes of the Trusted Types API, which is not part of the TypeScript DOM lib
+interface TrustedTypePolicyLike {
+  createHTML(input: string): unknown;
+  createScript(input: string): unknown;
+}
+
+interface TrustedTypePolicyFactoryLike {
+  createPolicy(
+    name: string,
+    rules: { createHTML(input: string): string; createScript(input: string): string }
+  ): TrustedTypePolicyLike;
+}
+
+export type TrustedTypesSink = 'policy' | 'innerHTML' | 'script';
+
+// One policy per name for the whole page: creating a name twice throws unless the
+// CSP allows duplicates, and several plugin instances may share a name
+const policies = new Map<string, TrustedTypePolicyLike | null>();
+
+/**
+ * Return the named Trusted Types policy, creating it on first use. Returns null when the
+ * browser has no Trusted Types support, or when the page's `trusted-types` directive
+ * does not allow the name (reported through `absmartly:js-error`).
+ *
+ * The policy passes values through unchanged: it only marks HTML and scripts coming from
+ * variant config as approved. Cleaning HTML is the job of the `sanitize` option.
+ */
+export function getTrustedTypesPolicy(policyName: string): TrustedTypePolicyLike | null {
+  if (policies.has(policyName)) {
+    return policies.get(policyName)!;
+  }
+
+  const factory =
+    typeof window !== 'undefined'
+      ? (window as unknown as { trustedTypes?: TrustedTypePolicyFactoryLike }).trustedTypes
+      : undefined;
+  if (!factory || typeof factory.createPolicy !== 'function') {
+    return null;
+  }
+
+  let policy: TrustedTypePolicyLike | null = null;
+  try {
+    policy = factory.createPolicy(policyName, {
+      createHTML: input => input,
+      createScript: input => input,
+    });
+  } catch (error) {
+    reportTrustedTypesFailure(
+      'policy',
+      policyName,
+      `Could not create Trusted Types policy "${policyName}": ${errorMessage(error)}`
+    );
+  }
+
+  policies.set(policyName, policy);
+  return policy;
+}
+
+/**
+ * Wrap HTML for an HTML sink (innerHTML). Typed as string so it can be assigned directly;
+ * without Trusted Types support the input is returned as-is.
+ */
+export function trustedHTML(html: string, policyName: string): string {
+  const policy = getTrustedTypesPolicy(policyName);
+  return policy ? (policy.createHTML(html) as string) : html;
+}
+
+/**
+ * Wrap code for a script sink (`new Function` arguments, script text)
+ */
+export function trustedScript(code: string, policyName: string): string {
+  const policy = getTrustedTypesPolicy(policyName);
+  return policy ? (policy.createScript(code) as string) : code;
+}
+
+/**
+ * Set innerHTML through the policy. If the page still rejects the value, the failure is
+ * reported through `absmartly:js-error` and rethrown so the caller treats it as failed.
+ */
+export function setTrustedHTML(
+  target: Element | ShadowRoot,
+  html: string,
+  policyName: string,
+  detail: { experimentName?: string; selector?: string } = {}
+): void {
+  try {
+    target.innerHTML = trustedHTML(html, policyName);
+  } catch (error) {
+    reportTrustedTypesFailure('innerHTML', policyName, errorMessage(error), detail);
+    throw error;
+  }
+}
+
+/**
+ * Log and dispatch a Trusted Types failure on the same `absmartly:js-error` event used for
+ * JavaScript change failures, with `reason: 'trusted-types'`
+ */
+export function reportTrustedTypesFailure(
+  sink: TrustedTypesSink,
+  policyName: string,
+  error: string,
+  detail: { experimentName?: string; selector?: string } = {}
+): void {
+  const eventDetail = { ...detail, reason: 'trusted-types', sink, policyName, error };
+
+  try {
+    logProductionWarn(
+      `[ABsmartly] Trusted Types blocked ${sink} (policy "${policyName}"): ${error}`
+    );
+  } catch {
+    // console unavailable; ignore
+  }
+
+  try {
+    if (typeof document !== 'undefined' && typeof CustomEvent === 'function') {
+      document.dispatchEvent(new CustomEvent('absmartly:js-error', { detail: eventDetail }));
+    }
+  } catch {
+    // environments without CustomEvent support
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
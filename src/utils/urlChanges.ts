@@ -0,0 +1,128 @@
+import type { RouterHook, URLChangeSource } from '../types';
+
+// Minimal shapes of the Navigation API, which is not part of the TypeScript DOM lib
+interface NavigateEventLike extends Event {
+  hashChange: boolean;
+  navigationType: 'push' | 'replace' | 'reload' | 'traverse';
+}
+
+interface NavigationLike extends EventTarget {
+  addEventListener(type: 'navigate', listener: (event: NavigateEventLike) => void): void;
+  addEventListener(type: 'currententrychange', listener: () => void): void;
+  removeEventListener(type: 'navigate', listener: (event: NavigateEventLike) => void): void;
+  removeEventListener(type: 'currententrychange', listener: () => void): void;
+}
+
+const NAVIGATION_SOURCES: Record<NavigateEventLike['navigationType'], URLChangeSource> = {
+  push: 'pushState',
+  replace: 'replaceState',
+  traverse: 'popstate',
+  reload: 'navigate',
+};
+
+/**
+ * Call `listener` after every client-side navigation. Returns a function that stops listening
+ * and restores patched history methods.
+ *
+ * Navigations are detected with the app's router hook when given, else the Navigation API
+ * when the browser has it, else by patching `history.pushState` / `replaceState` and listening
+ * to `popstate` and `hashchange`. Pages restored from the back/forward cache are reported in
+ * every case: they get no navigation event, and apps often re-render them on `pageshow`.
+ */
+export function watchURLChanges(
+  listener: (source: URLChangeSource) => void,
+  routerHook?: RouterHook | false
+): () => void {
+  const stops: Array<() => void> = [];
+
+  if (routerHook) {
+    const unsubscribe = routerHook(() => listener('router'));
+    if (typeof unsubscribe === 'function') {
+      stops.push(unsubscribe);
+    }
+  } else {
+    const navigation = (window as unknown as { navigation?: NavigationLike }).navigation;
+    stops.push(navigation ? listenToNavigation(navigation, listener) : patchHistory(listener));
+  }
+
+  const onPageShow = (event: PageTransitionEvent) => {
+    if (event.persisted) {
+      listener('pageshow');
+    }
+  };
+  window.addEventListener('pageshow', onPageShow);
+  stops.push(() => window.removeEventListener('pageshow', onPageShow));
+
+  return () => {
+    for (const stop of stops) {
+      stop();
+    }
+  };
+}
+
+/**
+ * The navigate event fires before the URL changes, so the change is reported once the new
+ * entry is committed. Cross-document navigations never commit in this document. Sources are
+ * the ones the patched history would report for the same navigation.
+ */
+function listenToNavigation(
+  navigation: NavigationLike,
+  listener: (source: URLChangeSource) => void
+): () => void {
+  let source: URLChangeSource = 'navigate';
+
+  const onNavigate = (event: NavigateEventLike) => {
+    source = event.hashChange ? 'hashchange' : NAVIGATION_SOURCES[event.navigationType];
+  };
+  const onEntryChange = () => {
+    listener(source);
+    source = 'navigate';
+  };
+
+  navigation.addEventListener('navigate', onNavigate);
+  navigation.addEventListener('currententrychange', onEntryChange);
+  return () => {
+    navigation.removeEventListener('navigate', onNavigate);
+    navigation.removeEventListener('currententrychange', onEntryChange);
+  };
+}
+
+function patchHistory(listener: (source: URLChangeSource) => void): () => void {
+  const originalPushState = history.pushState;
+  const originalReplaceState = history.replaceState;
+  // Going back to a hash entry fires popstate, then hashchange for the same URL
+  let lastURL = window.location.href;
+
+  history.pushState = function (data: unknown, unused: string, url?: string | URL | null) {
+    originalPushState.call(history, data, unused, url);
+    lastURL = window.location.href;
+    listener('pushState');
+  } as typeof history.pushState;
+
+  history.replaceState = function (data: unknown, unused: string, url?: string | URL | null) {
+    originalReplaceState.call(history, data, unused, url);
+    lastURL = window.location.href;
+    listener('replaceState');
+  } as typeof history.replaceState;
+
+  const onPopState = () => {
+    lastURL = window.location.href;
+    listener('popstate');
+  };
+  const onHashChange = () => {
+    if (window.location.href !== lastURL) {
+      lastURL = window.location.href;
+      listener('hashchange');
+    }
+  };
+
+  window.addEventListener('popstate', onPopState);
+  window.addEventListener('hashchange', onHashChange);
+
+  return () => {
+    history.pushState = originalPushState;
+    history.replaceState = originalReplaceState;
+    window.removeEventListener('popstate', onPopState);
+    window.removeEventListener('hashchange', onHashChange);
+  };
+}
@@ -0,0 +1,99 @@
+import type { DOMChange, DOMChangesConfig, URLFilter } from '../types';
+import { URLMatcher } from './URLMatcher';
+
+/**
+ * Whether DOM changes data uses the wrapped format (`{ changes, pages, goals, urlFilter, ... }`)
+ * rather than the legacy array of changes
+ */
+export function isDOMChangesConfig(data: unknown): data is DOMChangesConfig {
+  return (
+    !!data &&
+    typeof data === 'object' &&
+    !Array.isArray(data) &&
+    ('changes' in data || 'pages' in data || 'goals' in data)
+  );
+}
+
+/**
+ * All changes of a variant: the top-level `changes`, followed by the changes of each page.
+ * Page changes take the page's `urlFilter` unless they have their own, the same way
+ * changes inherit the config's global defaults.
+ */
+export function flattenChanges(data: unknown): DOMChange[] | null {
+  if (Array.isArray(data)) {
+    return data;
+  }
+  if (!isDOMChangesConfig(data)) {
+    return null;
+  }
+
+  const changes = Array.isArray(data.changes) ? [...data.changes] : [];
+  for (const page of Array.isArray(data.pages) ? data.pages : []) {
+    if (!page || !Array.isArray(page.changes)) continue;
+    for (const change of page.changes) {
+      changes.push(
+        change && typeof change === 'object' && !change.urlFilter && page.urlFilter
+          ? { ...change, urlFilter: page.urlFilter }
+          : change
+      );
+    }
+  }
+  return changes;
+}
+
+/**
+ * Whether a change applies on a URL according to its own (or its page's) `urlFilter`.
+ * The variant-level `urlFilter` is checked separately.
+ */
+export function changeMatchesURL(change: DOMChange, url: string): boolean {
+  return !change.urlFilter || URLMatcher.matches(change.urlFilter, url);
+}
+
+/**
+ * Whether a variant restricts its changes by URL at any level: variant, page or change
+ */
+export function hasURLScope(data: unknown): boolean {
+  if (isDOMChangesConfig(data) && (data.urlFilter || (data.pages && data.pages.length > 0))) {
+    return true;
+  }
+  return (flattenChanges(data) || []).some(change => !!change?.urlFilter);
+}
+
+/**
+ * Whether a variant has something to do on a URL: its variant-level filter matches, and one of
+ * its pages or changes is scoped to the URL. A variant whose only filter is the variant-level
+ * one matches even without changes, so control variants still count for SRM tracking.
+ */
+export function matchesURLScope(data: unknown, url: string): boolean {
+  if (isDOMChangesConfig(data) && data.urlFilter && !URLMatcher.matches(data.urlFilter, url)) {
+    return false;
+  }
+
+  const pages = isDOMChangesConfig(data) && Array.isArray(data.pages) ? data.pages : [];
+  const changes = flattenChanges(data) || [];
+  if (pages.length === 0 && !changes.some(change => !!change?.urlFilter)) {
+    return true;
+  }
+
+  return (
+    pages.some(page => !!page?.urlFilter && URLMatcher.matches(page.urlFilter, url)) ||
+    changes.some(change => !!change && changeMatchesURL(change, url))
+  );
+}
+
+/**
+ * Whether each URL filter of a variant matches a URL: the variant-level filter, then each
+ * page's, then each change's. Two URLs with the same results get the same changes from the
+ * variant, so nothing needs re-applying when navigating between them.
+ */
+export function getURLFilterMatches(data: unknown, url: string): boolean[] {
+  const matches = (filter?: URLFilter) => !!filter && URLMatcher.matches(filter, url);
+
+  const config = isDOMChangesConfig(data) ? data : null;
+  const pages = config && Array.isArray(config.pages) ? config.pages : [];
+  return [
+    matches(config?.urlFilter),
+    ...pages.map(page => matches(page?.urlFilter)),
+    ...(flattenChanges(data) || []).map(change => matches(change?.urlFilter)),
+  ];
+}
@@ -0,0 +1,32 @@
+import type { ViewCriteria } from '../types';
+
+export const DEFAULT_VIEW_CRITERIA: ViewCriteria = {
+  viewThreshold: 0.01,
+  viewDuration: 0,
+  rootMargin: '0px',
+};
+
+// One to four px or % lengths, the only units IntersectionObserver accepts in rootMargin
+const ROOT_MARGIN = /^\s*(-?(\d+|\d*\.\d+)(px|%)\s*){1,4}$/;
+
+/**
+ * View criteria of a change or config, falling back to `defaults` for missing or invalid values
+ */
+export function resolveViewCriteria(
+  source: Partial<ViewCriteria>,
+  defaults: ViewCriteria = DEFAULT_VIEW_CRITERIA
+): ViewCriteria {
+  const { viewThreshold, viewDuration, rootMargin } = source;
+  return {
+    viewThreshold:
+      typeof viewThreshold === 'number' && viewThreshold >= 0 && viewThreshold <= 1
+        ? viewThreshold
+        : defaults.viewThreshold,
+    viewDuration:
+      typeof viewDuration === 'number' && viewDuration >= 0 ? viewDuration : defaults.viewDuration,
+    rootMargin:
+      typeof rootMargin === 'string' && ROOT_MARGIN.test(rootMargin)
+        ? rootMargin.trim()
+        : defaults.rootMargin,
+  };
+}